@@ -1,19 +1,47 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   Zap, Loader2, Library, BarChart2,  
   Trash2, FileCode, Sparkles, Trophy, 
-  Settings, Check, ArrowLeft, Key, Edit2, Book
+  Settings, Check, ArrowLeft, Key, Edit2, Book,
+  Download, Upload, X, Search, Archive, ArchiveRestore, Tag, Plus, Undo2, Play, History
 } from 'lucide-react';
-import { ReadingSettings, LibraryItem, ReadingSession, VocabularyWord } from './types';
+import { ReadingSettings, LibraryItem, ReadingSession, VocabularyWord, VocabularySighting, SettingsProfile, Highlight, Bookmark, Collection, LlmSettings, DocumentVersion, TransformOptions, TransformPresetId, DrillKind } from './types';
 import SettingsPanel from './components/SettingsPanel';
 import RSVPReader from './components/RSVPReader';
 import AnalyticsView from './components/AnalyticsView';
 import VocabularyView from './components/VocabularyView';
-import { geminiService } from './services/geminiService';
+import VersionHistory from './components/VersionHistory';
+import TransformMenu from './components/TransformMenu';
+import { aiService } from './services/aiService';
+import { DEFAULT_LLM_SETTINGS } from './services/llmProvider';
+import { storageService } from './services/storageService';
+import { DEFAULT_SETTINGS, BUILT_IN_PROFILES, applyProfile, normalizeSettings } from './utils/settingsProfiles';
+import { 
+  LibraryBackup, ConflictStrategy, BackupValidationError,
+  createBackup, parseBackup, findConflicts, resolveBackup, mergeProfiles, mergeCollections 
+} from './utils/libraryBackup';
+import { parseEpub, joinChapters } from './utils/epubParser';
+import { htmlToText } from './utils/htmlText';
+import { parseDocument, SectionMarker } from './utils/documentModel';
+import { DocumentIndex, indexDocument, isIndexCurrent, searchLibrary } from './utils/searchIndex';
+import { chunkDocument, runChunks, assembleChunks, mapChunkPosition, TransformCancelledError } from './utils/documentChunks';
+import { 
+  addVersion, activeVersion, originalVersion, latestRewrite, versionDocument,
+  versionAnnotations, replaceVersionAnnotations, versionSummary, replaceVersionSummary 
+} from './utils/versions';
+import { buildOfflineSummary, createSummary } from './utils/summary';
+import { diffVersions, mapAlignedPosition } from './utils/versionDiff';
+import { DEFAULT_TRANSFORM_OPTIONS, transformPreset, transformLabel, transformProblem } from './utils/transformPresets';
+import { DEFAULT_DRILL_KINDS, DRILL_KINDS } from './utils/drills';
+import { ImportedWord } from './utils/vocabularyImport';
+import { WordEntry, recordWord, createSighting, sightingPosition } from './utils/vocabulary';
+import { 
+  LibraryFilter, LibrarySort, LibraryStatus, DEFAULT_LIBRARY_FILTER, LIBRARY_SORTS, UNDO_DELETE_MS,
+  organizeLibrary, libraryTags, normalizeTag, continueReading, isFinished, progressOf 
+} from './utils/libraryFilters';
 
 declare const pdfjsLib: any;
 declare const mammoth: any;
-const STORAGE_KEY = 'breezereader_lib';
 
 const generateId = () => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
@@ -23,33 +51,50 @@ const App: React.FC = () => {
   const [hasApiKey, setHasApiKey] = useState(false);
 
   const [library, setLibrary] = useState<LibraryItem[]>([]);
+  const [vocabulary, setVocabulary] = useState<VocabularyWord[]>([]);
   const [activeItemId, setActiveItemId] = useState<string | null>(null);
   const [view, setView] = useState<'landing' | 'library' | 'reader' | 'stats' | 'vocab' | 'import'>('landing');
   const [inputText, setInputText] = useState('');
   const [isParsing, setIsParsing] = useState(false);
-  const [isLoadingAi, setIsLoadingAi] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showTransforms, setShowTransforms] = useState(false);
+  const [transformOptions, setTransformOptions] = useState<TransformOptions>(DEFAULT_TRANSFORM_OPTIONS);
+  const [drillKinds, setDrillKinds] = useState<DrillKind[]>(DEFAULT_DRILL_KINDS);
+  // A whole-document AI transformation in progress
+  const [rewriteJob, setRewriteJob] = useState<{ itemId: string; done: number; total: number; controller: AbortController } | null>(null);
+  const [summaryJob, setSummaryJob] = useState<{ itemId: string; done: number; total: number; controller: AbortController } | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState('');
+  const [pendingBackup, setPendingBackup] = useState<{ backup: LibraryBackup; conflicts: LibraryItem[] } | null>(null);
+  const [searchIndex, setSearchIndex] = useState<Map<string, DocumentIndex>>(new Map());
+  const [searchIndexLoaded, setSearchIndexLoaded] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [librarySort, setLibrarySort] = useState<LibrarySort>('last-read');
+  const [libraryFilter, setLibraryFilter] = useState<LibraryFilter>(DEFAULT_LIBRARY_FILTER);
+  const [organizingItemId, setOrganizingItemId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [newCollectionName, setNewCollectionName] = useState<string | null>(null);
+  // The last soft-deleted item, offered for undo until its timer removes it for good
+  const [recentlyDeleted, setRecentlyDeleted] = useState<LibraryItem | null>(null);
+  const deleteTimersRef = useRef(new Map<string, number>());
   
-  const [settings, setSettings] = useState<ReadingSettings>({
-    fontSize: 48,
-    lineHeight: 1.8,
-    wordSpacing: 2,
-    boldRatio: 0.5,
-    fontFamily: 'OpenDyslexic',
-    theme: 'dark',
-    mode: 'rsvp-single',
-    dictionaryMode: 'ai',
-    wpm: 450,
-    chunkSize: 1,
-    showFocusGuide: true
-  });
+  const [settings, setSettings] = useState<ReadingSettings>(DEFAULT_SETTINGS);
+  const [customProfiles, setCustomProfiles] = useState<SettingsProfile[]>([]);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(DEFAULT_LLM_SETTINGS);
+
+  const profiles = useMemo(() => [...BUILT_IN_PROFILES, ...customProfiles], [customProfiles]);
 
   const activeItem = useMemo(() => 
     library.find(item => item.id === activeItemId) || null, 
   [library, activeItemId]);
 
+  // For async work that must see the library as it is when it finishes, not when it started
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+
   useEffect(() => {
     const checkKey = async () => {
       try {
@@ -75,33 +120,150 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        setLibrary(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to load library", e);
-      }
-    }
+    storageService.loadVocabulary()
+      .then(setVocabulary)
+      .catch(e => console.error("Failed to load vocabulary", e));
+
+    Promise.all([storageService.loadLibrary(), storageService.loadSearchIndex()])
+      .then(([items, entries]) => {
+        // Deletes whose undo window closed with the tab are finished now
+        items.filter(item => item.deletedAt).forEach(item => persist(storageService.deleteItem(item.id)));
+        setLibrary(items.filter(item => !item.deletedAt));
+        setSearchIndex(new Map(entries.map(entry => [entry.id, entry])));
+        setSearchIndexLoaded(true);
+      })
+      .catch(e => console.error("Failed to load library", e));
+
+    Promise.all([
+      storageService.getMeta<Partial<ReadingSettings>>('settings'),
+      storageService.getMeta<SettingsProfile[]>('profiles'),
+      storageService.getMeta<Collection[]>('collections'),
+      storageService.getMeta<Partial<LlmSettings>>('llm'),
+      storageService.getMeta<Partial<TransformOptions>>('transformOptions'),
+      storageService.getMeta<DrillKind[]>('drillKinds')
+    ])
+      .then(([savedSettings, savedProfiles, savedCollections, savedLlm, savedTransformOptions, savedDrillKinds]) => {
+        setLlmSettings({ ...DEFAULT_LLM_SETTINGS, ...savedLlm });
+        setTransformOptions({ ...DEFAULT_TRANSFORM_OPTIONS, ...savedTransformOptions });
+        // Kinds dropped in a later version are ignored; none left means the defaults
+        const knownKinds = (savedDrillKinds || []).filter(kind => DRILL_KINDS.some(d => d.id === kind));
+        setDrillKinds(knownKinds.length ? knownKinds : DEFAULT_DRILL_KINDS);
+        setSettings(normalizeSettings(savedSettings));
+        setCustomProfiles(savedProfiles || []);
+        setCollections(savedCollections || []);
+      })
+      .catch(e => console.error("Failed to load settings", e))
+      .finally(() => setSettingsLoaded(true));
+
+    // Don't lose the last few position ticks when the tab goes away
+    const flush = () => { storageService.flushPositions(); };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
   }, []);
 
+  const persist = (write: Promise<void>) => {
+    write.catch(e => {
+      console.error("Failed to save library", e);
+      alert("Saving to the library failed. Your browser may be out of storage space.");
+    });
+  };
+
+  const reindex = (item: LibraryItem) => {
+    const entry = indexDocument(item);
+    setSearchIndex(prev => new Map(prev).set(item.id, entry));
+    persist(storageService.saveSearchEntry(entry));
+  };
+
+  // Catches up on documents the stored index doesn't cover, one per tick so the UI stays responsive
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
-  }, [library]);
+    if (!searchIndexLoaded) return;
+    const stale = library.find(item => !isIndexCurrent(searchIndex.get(item.id), item));
+    if (!stale) return;
+    const timer = window.setTimeout(() => reindex(stale), 0);
+    return () => clearTimeout(timer);
+  }, [library, searchIndex, searchIndexLoaded]);
+
+  const searchResults = useMemo(() => 
+    searchQuery.trim() ? searchLibrary(searchQuery, library.filter(item => !item.deletedAt), searchIndex) : [],
+  [searchQuery, library, searchIndex]);
 
-  const addToLibrary = (title: string, content: string) => {
+  const shelf = useMemo(() => organizeLibrary(library, vocabulary, libraryFilter, librarySort), [library, vocabulary, libraryFilter, librarySort]);
+  const tags = useMemo(() => libraryTags(library), [library]);
+  const resumeItem = useMemo(() => continueReading(library), [library]);
+
+  // Wait for the saved settings before writing, or the defaults would overwrite them
+  useEffect(() => {
+    if (settingsLoaded) persist(storageService.setMeta('settings', settings));
+  }, [settings, settingsLoaded]);
+
+  useEffect(() => {
+    aiService.configure(llmSettings);
+    if (settingsLoaded) persist(storageService.setMeta('llm', llmSettings));
+  }, [llmSettings, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded) persist(storageService.setMeta('transformOptions', transformOptions));
+  }, [transformOptions, settingsLoaded]);
+
+  useEffect(() => {
+    if (settingsLoaded) persist(storageService.setMeta('drillKinds', drillKinds));
+  }, [drillKinds, settingsLoaded]);
+
+  // The AI Studio key picker only applies to Gemini without a key of its own
+  const needsAiStudioKey = llmSettings.provider === 'gemini' && !llmSettings.apiKey;
+
+  const saveProfile = (name: string) => {
+    const profile: SettingsProfile = { id: generateId(), name, settings: { ...settings } };
+    const next = [...customProfiles, profile];
+    setCustomProfiles(next);
+    persist(storageService.setMeta('profiles', next));
+  };
+
+  const deleteProfile = (id: string) => {
+    const next = customProfiles.filter(p => p.id !== id);
+    setCustomProfiles(next);
+    persist(storageService.setMeta('profiles', next));
+  };
+
+  const pinProfile = (profileId: string | undefined) => {
+    if (!activeItemId) return;
+    setLibrary(prev => prev.map(item => 
+      item.id === activeItemId ? { ...item, profileId } : item
+    ));
+    persist(storageService.updateItem(activeItemId, { profileId }));
+  };
+
+  const openItem = (item: LibraryItem, position?: number) => {
+    if (position !== undefined) {
+      setLibrary(prev => prev.map(i => i.id === item.id ? { ...i, lastPosition: position } : i));
+      storageService.savePosition(item.id, position);
+    }
+    const lastOpened = Date.now();
+    setLibrary(prev => prev.map(i => i.id === item.id ? { ...i, lastOpened } : i));
+    persist(storageService.updateItem(item.id, { lastOpened }));
+    const profile = item.profileId && profiles.find(p => p.id === item.profileId);
+    if (profile) setSettings(prev => applyProfile(prev, profile));
+    setActiveItemId(item.id);
+    setView('reader');
+  };
+
+  const addToLibrary = (title: string, content: string, markers?: SectionMarker[]) => {
     if (!content.trim()) return;
+    const parsed = parseDocument(content, markers);
     const newItem: LibraryItem = {
       id: generateId(),
       title: title || `Untitled Session ${library.length + 1}`,
       content,
       lastPosition: 0,
       date: Date.now(),
-      totalWords: content.split(/\s+/).filter(w => w.length > 0).length,
+      totalWords: parsed.wordCount,
       sessions: [],
-      vocabulary: []
+      document: parsed,
+      summaries: [buildOfflineSummary(content, parsed)]
     };
     setLibrary(prev => [newItem, ...prev]);
+    persist(storageService.saveItem(newItem));
+    reindex(newItem);
     setActiveItemId(newItem.id);
     setView('reader');
     setInputText('');
@@ -115,7 +277,13 @@ const App: React.FC = () => {
       let text = '';
       const lowerName = file.name.toLowerCase();
 
-      if (lowerName.endsWith('.pdf')) {
+      if (lowerName.endsWith('.epub')) {
+        const book = await parseEpub(await file.arrayBuffer());
+        const { content, markers } = joinChapters(book.chapters);
+        addToLibrary(book.title || file.name.replace(/\.[^/.]+$/, ""), content, markers);
+        return;
+      }
+      else if (lowerName.endsWith('.pdf')) {
         const arrayBuffer = await file.arrayBuffer();
         pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
         const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
@@ -127,13 +295,14 @@ const App: React.FC = () => {
       } 
       else if (lowerName.endsWith('.docx')) {
         const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.extractRawText({ arrayBuffer: arrayBuffer });
-        text = result.value;
+        // Go through HTML so headings survive as document structure
+        const result = await mammoth.convertToHtml({ arrayBuffer: arrayBuffer });
+        text = htmlToText(new DOMParser().parseFromString(result.value, 'text/html').body);
       }
       else if (lowerName.endsWith('.html') || lowerName.endsWith('.htm')) {
          const raw = await file.text();
          const doc = new DOMParser().parseFromString(raw, 'text/html');
-         text = doc.body.textContent || "";
+         text = htmlToText(doc.body);
       }
       else if (lowerName.endsWith('.rtf')) {
          const raw = await file.text();
@@ -147,7 +316,7 @@ const App: React.FC = () => {
       addToLibrary(file.name.replace(/\.[^/.]+$/, ""), text);
     } catch (err) { 
         console.error(err);
-        alert("Failed to parse file. Please use PDF, DOCX, TXT, HTML, or RTF."); 
+        alert("Failed to parse file. Please use EPUB, PDF, DOCX, TXT, HTML, or RTF."); 
     }
     finally { setIsParsing(false); }
   };
@@ -157,49 +326,172 @@ const App: React.FC = () => {
     setLibrary(prev => prev.map(item => 
       item.id === activeItemId ? { ...item, lastPosition: pos } : item
     ));
+    storageService.savePosition(activeItemId, pos);
   }, [activeItemId]);
 
-  const logSession = useCallback((wpm: number, words: number, duration: number) => {
+  const logSession = useCallback((session: ReadingSession) => {
     if (!activeItemId) return;
-    const session: ReadingSession = { date: Date.now(), wpm, duration, wordsRead: words };
     setLibrary(prev => prev.map(item => 
       item.id === activeItemId ? { ...item, sessions: [...item.sessions, session] } : item
     ));
+    persist(storageService.addSession(activeItemId, session));
   }, [activeItemId]);
 
-  const addVocab = useCallback((word: VocabularyWord) => {
-    if (!activeItemId) return;
+  // A word saved again, from here or another document, adds a sighting to its existing card
+  const addVocab = useCallback((entry: WordEntry, wordIndex: number) => {
+    if (!activeItem) return;
+    const now = Date.now();
+    const word = recordWord(vocabulary, entry, createSighting(activeItem, wordIndex, now), generateId, now);
+    setVocabulary(prev => [word, ...prev.filter(v => v.id !== word.id)]);
+    persist(storageService.saveVocab(word));
+  }, [activeItem, vocabulary]);
+
+  // The reader only sees the showing version's annotations; the other versions' are kept as they are
+  const saveHighlights = useCallback((next: Highlight[]) => {
+    if (!activeItem) return;
+    const highlights = replaceVersionAnnotations(activeItem, activeItem.highlights, next);
     setLibrary(prev => prev.map(item => 
-      item.id === activeItemId ? { ...item, vocabulary: [word, ...item.vocabulary] } : item
+      item.id === activeItem.id ? { ...item, highlights } : item
     ));
-  }, [activeItemId]);
+    persist(storageService.updateItem(activeItem.id, { highlights }));
+  }, [activeItem]);
+
+  const saveBookmarks = useCallback((next: Bookmark[]) => {
+    if (!activeItem) return;
+    const bookmarks = replaceVersionAnnotations(activeItem, activeItem.bookmarks, next);
+    setLibrary(prev => prev.map(item => 
+      item.id === activeItem.id ? { ...item, bookmarks } : item
+    ));
+    persist(storageService.updateItem(activeItem.id, { bookmarks }));
+  }, [activeItem]);
 
-  const transformWithAi = async () => {
-    if (!activeItem || isLoadingAi) return;
-    
-    // Check key before attempting
-    if (!hasApiKey && (window as any).aistudio) {
+  // Asks for an AI Studio key before a request that needs one; false when none was given
+  const ensureAiKey = async () => {
+    if (needsAiStudioKey && !hasApiKey && (window as any).aistudio) {
         try {
             await (window as any).aistudio.openSelectKey();
             setHasApiKey(true);
         } catch(e) {
             alert("API Key required for AI features. Please connect in Settings.");
-            return;
+            return false;
         }
     }
+    return true;
+  };
+
+  const transformWithAi = async (presetId: TransformPresetId) => {
+    if (!activeItem || rewriteJob) return;
+    const preset = transformPreset(presetId);
+    const options = transformOptions;
+    const problem = transformProblem(preset, options);
+    if (problem) { alert(problem); return; }
+    setShowTransforms(false);
+    if (!(await ensureAiKey())) return;
 
-    setIsLoadingAi(true);
+    const source = activeItem;
+    const chunks = chunkDocument(source.content, source.document);
+    if (chunks.length === 0) return;
+    // Presets that combine their parts make one more request at the end
+    const combines = !!preset.combine && chunks.length > 1;
+    const steps = chunks.length + (combines ? 1 : 0);
+    const controller = new AbortController();
+    const progress = (done: number) => setRewriteJob(prev => prev?.controller === controller ? { ...prev, done, total: steps } : prev);
+    setRewriteJob({ itemId: source.id, done: 0, total: steps, controller });
     try {
-      const simplified = await geminiService.rewrite(activeItem.content);
-      const newTotal = simplified.split(/\s+/).filter(w => w.length > 0).length;
-      setLibrary(prev => prev.map(item => 
-        item.id === activeItem.id ? { ...item, content: simplified, totalWords: newTotal, lastPosition: 0 } : item
-      ));
+      const outputs = await runChunks(chunks, text => aiService.transform(preset, text, { ...options, signal: controller.signal }), {
+        signal: controller.signal,
+        onProgress: done => progress(done)
+      });
+      let assembled = assembleChunks(chunks, outputs);
+      if (combines) {
+        const combined = (await aiService.combine(preset, outputs, { ...options, signal: controller.signal })).trim();
+        if (controller.signal.aborted) return;
+        progress(steps);
+        assembled = { content: combined, markers: [], offsets: [] };
+      }
+      const { content, markers, offsets } = assembled;
+      const parsed = parseDocument(content, markers);
+
+      // Reading may have carried on, or the item been deleted, while the chunks were out
+      const current = libraryRef.current.find(item => item.id === source.id);
+      if (!current) return;
+      const { versions, activeVersionId } = addVersion(current, 'rewrite', transformLabel(preset, options), content, parsed, preset.id);
+      // A combined text no longer follows the source's order, so it starts from the top
+      const lastPosition = combines ? 0 : mapChunkPosition(chunks, offsets, parsed, current.lastPosition);
+      const updates = { content, document: parsed, versions, activeVersionId, totalWords: parsed.wordCount, lastPosition };
+      setLibrary(prev => prev.map(item => item.id === source.id ? { ...item, ...updates } : item));
+      persist(storageService.saveContent(source.id, content, parsed, versions));
+      persist(storageService.updateItem(source.id, { activeVersionId, totalWords: parsed.wordCount }));
+      // Through the position queue, so a tick queued by the old text can't land after it
+      storageService.savePosition(source.id, lastPosition);
+      reindex({ ...current, ...updates });
     } catch (error) { 
+        // Cancelling the combine step rejects with the request's AbortError
+        if (error instanceof TransformCancelledError || controller.signal.aborted) return;
         console.error(error);
-        alert("AI Rewrite failed. Check connection.");
+        alert(`${preset.label} failed. Check connection. Your document was not changed.`);
+    }
+    finally { setRewriteJob(prev => prev?.controller === controller ? null : prev); }
+  };
+
+  /** Summarises the version showing, with the model when it's available and offline otherwise. */
+  const summarize = async (item: LibraryItem) => {
+    if (summaryJob) return;
+    await ensureAiKey();
+    const controller = new AbortController();
+    setSummaryJob({ itemId: item.id, done: 0, total: 0, controller });
+    try {
+      const created = await createSummary(item.content, item.document, {
+        signal: controller.signal,
+        onProgress: (done, total) => setSummaryJob(prev => prev?.controller === controller ? { ...prev, done, total } : prev)
+      });
+      // Another version may have been switched to while the sections were out
+      const current = libraryRef.current.find(i => i.id === item.id);
+      if (current?.content !== item.content) return;
+      const summaries = replaceVersionSummary(current, created);
+      setLibrary(prev => prev.map(i => i.id === item.id ? { ...i, summaries } : i));
+      persist(storageService.updateItem(item.id, { summaries }));
+    } catch (error) {
+      if (!(error instanceof TransformCancelledError)) console.error(error);
     }
-    finally { setIsLoadingAi(false); }
+    finally { setSummaryJob(prev => prev?.controller === controller ? null : prev); }
+  };
+
+  /** Shows another saved version, at the matching point in its text. */
+  const switchVersion = (item: LibraryItem, versionId: string) => {
+    const target = item.versions?.find(v => v.id === versionId);
+    if (!target || target.id === item.activeVersionId || rewriteJob?.itemId === item.id) return;
+    const document = versionDocument(target);
+    const alignment = diffVersions(item, { content: target.content, document });
+    const lastPosition = mapAlignedPosition(alignment, item.document, document, item.lastPosition);
+    const updates = { content: target.content, document, activeVersionId: target.id, totalWords: document.wordCount, lastPosition };
+    setLibrary(prev => prev.map(i => i.id === item.id ? { ...i, ...updates } : i));
+    persist(storageService.saveContent(item.id, target.content, document, item.versions));
+    persist(storageService.updateItem(item.id, { activeVersionId: target.id, totalWords: document.wordCount }));
+    storageService.savePosition(item.id, lastPosition);
+    reindex({ ...item, ...updates });
+  };
+
+  const saveVersions = (item: LibraryItem, versions: DocumentVersion[]) => {
+    setLibrary(prev => prev.map(i => i.id === item.id ? { ...i, versions } : i));
+    persist(storageService.saveContent(item.id, item.content, item.document, versions));
+  };
+
+  const renameVersion = (item: LibraryItem, versionId: string, label: string) => {
+    saveVersions(item, (item.versions || []).map(v => v.id === versionId ? { ...v, label } : v));
+  };
+
+  /** Removes a version that isn't showing, with the annotations made on it. The original always stays. */
+  const deleteVersion = (item: LibraryItem, versionId: string) => {
+    const version = item.versions?.find(v => v.id === versionId);
+    if (!version || version.kind === 'original' || versionId === item.activeVersionId) return;
+    if (!confirm(`Delete the version "${version.label}"? Highlights and bookmarks made on it are deleted too.`)) return;
+    const highlights = item.highlights?.filter(h => h.versionId !== versionId);
+    const bookmarks = item.bookmarks?.filter(b => b.versionId !== versionId);
+    const summaries = item.summaries?.filter(s => s.versionId !== versionId);
+    setLibrary(prev => prev.map(i => i.id === item.id ? { ...i, highlights, bookmarks, summaries } : i));
+    persist(storageService.updateItem(item.id, { highlights, bookmarks, summaries }));
+    saveVersions(item, item.versions!.filter(v => v.id !== versionId));
   };
 
   const startEditing = (item: LibraryItem) => {
@@ -211,14 +503,169 @@ const App: React.FC = () => {
     setLibrary(prev => prev.map(item => 
       item.id === id ? { ...item, title: editTitle } : item
     ));
+    persist(storageService.updateItem(id, { title: editTitle }));
     setEditingItemId(null);
   };
 
+  // Removes an item for good once its undo window has passed
+  const purgeItem = (id: string) => {
+    deleteTimersRef.current.delete(id);
+    setLibrary(l => l.filter(i => i.id !== id));
+    setSearchIndex(prev => {
+      const next = new Map(prev);
+      next.delete(id);
+      return next;
+    });
+    setRecentlyDeleted(prev => prev?.id === id ? null : prev);
+    persist(storageService.deleteItem(id));
+  };
+
+  const deleteItem = (item: LibraryItem) => {
+    const deletedAt = Date.now();
+    setLibrary(prev => prev.map(i => i.id === item.id ? { ...i, deletedAt } : i));
+    persist(storageService.updateItem(item.id, { deletedAt }));
+    if (activeItemId === item.id) setActiveItemId(null);
+    setRecentlyDeleted(item);
+    deleteTimersRef.current.set(item.id, window.setTimeout(() => purgeItem(item.id), UNDO_DELETE_MS));
+  };
+
+  const undoDelete = () => {
+    if (!recentlyDeleted) return;
+    const id = recentlyDeleted.id;
+    clearTimeout(deleteTimersRef.current.get(id));
+    deleteTimersRef.current.delete(id);
+    setLibrary(prev => prev.map(i => i.id === id ? { ...i, deletedAt: undefined } : i));
+    persist(storageService.updateItem(id, { deletedAt: undefined }));
+    setRecentlyDeleted(null);
+  };
+
+  const setArchived = (id: string, archived: boolean) => {
+    setLibrary(prev => prev.map(item => item.id === id ? { ...item, archived } : item));
+    persist(storageService.updateItem(id, { archived }));
+  };
+
+  const updateOrganization = (id: string, updates: Pick<LibraryItem, 'tags' | 'collectionIds'>) => {
+    setLibrary(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+    persist(storageService.updateItem(id, updates));
+  };
+
+  const addTag = (item: LibraryItem) => {
+    const tag = normalizeTag(tagDraft);
+    setTagDraft('');
+    if (!tag || item.tags?.includes(tag)) return;
+    updateOrganization(item.id, { tags: [...(item.tags || []), tag] });
+  };
+
+  const removeTag = (item: LibraryItem, tag: string) => {
+    updateOrganization(item.id, { tags: (item.tags || []).filter(t => t !== tag) });
+    if (libraryFilter.tag === tag && !library.some(i => i.id !== item.id && i.tags?.includes(tag))) {
+      setLibraryFilter(prev => ({ ...prev, tag: undefined }));
+    }
+  };
+
+  const toggleCollection = (item: LibraryItem, collectionId: string) => {
+    const ids = item.collectionIds || [];
+    updateOrganization(item.id, {
+      collectionIds: ids.includes(collectionId) ? ids.filter(c => c !== collectionId) : [...ids, collectionId]
+    });
+  };
+
+  const saveCollections = (next: Collection[]) => {
+    setCollections(next);
+    persist(storageService.setMeta('collections', next));
+  };
+
+  const createCollection = () => {
+    const name = newCollectionName?.trim();
+    setNewCollectionName(null);
+    if (!name) return;
+    const collection: Collection = { id: generateId(), name, date: Date.now() };
+    saveCollections([...collections, collection]);
+    setLibraryFilter(prev => ({ ...prev, collectionId: collection.id }));
+  };
+
+  // Items stay in the library, they just leave the collection
+  const deleteCollection = (id: string) => {
+    saveCollections(collections.filter(c => c.id !== id));
+    library
+      .filter(item => item.collectionIds?.includes(id))
+      .forEach(item => updateOrganization(item.id, { collectionIds: item.collectionIds!.filter(c => c !== id) }));
+    setLibraryFilter(prev => ({ ...prev, collectionId: undefined }));
+  };
+
+  const exportLibrary = () => {
+    const backup = createBackup(library, vocabulary, settings, customProfiles, collections);
+    const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `breezereader-backup-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const applyBackup = (backup: LibraryBackup, strategy: ConflictStrategy) => {
+    const { items: resolved, vocabulary: words } = resolveBackup(library, vocabulary, backup, strategy, generateId);
+    const resolvedById = new Map(resolved.map(item => [item.id, item]));
+    setLibrary(prev => [
+      ...resolved.filter(item => !prev.some(p => p.id === item.id)),
+      ...prev.map(item => resolvedById.get(item.id) || item)
+    ].sort((a, b) => b.date - a.date));
+    resolved.forEach(item => {
+      persist(storageService.saveItem(item));
+      reindex(item);
+    });
+    saveWords(words);
+
+    const nextProfiles = mergeProfiles(customProfiles, backup.profiles);
+    setCustomProfiles(nextProfiles);
+    persist(storageService.setMeta('profiles', nextProfiles));
+    saveCollections(mergeCollections(collections, backup.collections));
+    // Merging into a library keeps the reader's own settings; only a replace takes the backup's
+    if (strategy === 'overwrite') setSettings(backup.settings);
+    setPendingBackup(null);
+  };
+
+  const handleBackupUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const backup = parseBackup(await file.text());
+      const conflicts = findConflicts(library, backup);
+      if (conflicts.length > 0) setPendingBackup({ backup, conflicts });
+      // Restoring into an empty library brings the backup's settings back too
+      else applyBackup(backup, library.some(item => !item.deletedAt) ? 'merge' : 'overwrite');
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof BackupValidationError ? `Invalid backup: ${err.message}` : "Failed to read backup file.");
+    }
+  };
+
+  const saveWords = (words: VocabularyWord[]) => {
+    if (words.length === 0) return;
+    const ids = new Set(words.map(w => w.id));
+    setVocabulary(prev => [...words, ...prev.filter(v => !ids.has(v.id))].sort((a, b) => b.date - a.date));
+    persist(storageService.saveVocabList(words));
+  };
+
+  // Imported words weren't met in any document, so they start without sightings
+  const importVocab = (words: ImportedWord[]) => {
+    const now = Date.now();
+    const saved: VocabularyWord[] = [];
+    words.forEach(entry => saved.push(recordWord([...saved, ...vocabulary], entry, null, generateId, now)));
+    saveWords(saved);
+  };
+
   const handleUpdateWord = (wordId: string, updates: Partial<VocabularyWord>) => {
-    setLibrary(prev => prev.map(item => ({
-      ...item,
-      vocabulary: item.vocabulary.map(v => v.id === wordId ? { ...v, ...updates } : v)
-    })));
+    const word = vocabulary.find(v => v.id === wordId);
+    setVocabulary(prev => prev.map(v => v.id === wordId ? { ...v, ...updates } : v));
+    if (word) persist(storageService.saveVocab({ ...word, ...updates }));
+  };
+
+  const openSighting = (word: VocabularyWord, sighting: VocabularySighting) => {
+    const item = library.find(i => i.id === sighting.itemId && !i.deletedAt);
+    if (item) openItem(item, sightingPosition(item, sighting, word.headword));
   };
 
   const themeClass = settings.theme === 'dark' ? 'bg-black text-slate-100' : settings.theme === 'sepia' ? 'bg-[#f4ecd8] text-[#433422]' : 'bg-white text-slate-900';
@@ -229,7 +676,7 @@ const App: React.FC = () => {
         <div className="space-y-6">
         <div className="flex justify-between items-center px-4">
             <label className="text-[12px] font-black text-indigo-500 uppercase tracking-[0.4em]">Engine Import</label>
-            <span className="text-[10px] font-bold text-slate-600 uppercase tracking-widest">PDF, DOCX, TXT, MD, HTML</span>
+            <span className="text-[10px] font-bold text-slate-600 uppercase tracking-widest">EPUB, PDF, DOCX, TXT, MD, HTML</span>
         </div>
         <textarea 
             className="w-full h-96 p-12 rounded-[3.5rem] bg-black/60 border-2 border-white/5 focus:border-indigo-600 focus:ring-0 transition-all resize-none text-2xl font-medium text-slate-100 placeholder:text-slate-800 shadow-inner"
@@ -243,7 +690,7 @@ const App: React.FC = () => {
             <Zap className="w-8 h-8" /> LAUNCH READER
         </button>
         <label className="flex-1 cursor-pointer bg-white/5 hover:bg-white/10 py-8 rounded-[2.5rem] font-bold text-xl transition-all flex items-center justify-center gap-4 active:scale-95 text-slate-400 border border-white/5">
-            {isParsing ? <Loader2 className="w-7 h-7 animate-spin" /> : <FileCode className="w-7 h-7" />} IMPORT <input type="file" accept=".txt,.pdf,.docx,.md,.rtf,.html" className="hidden" onChange={handleFileUpload} />
+            {isParsing ? <Loader2 className="w-7 h-7 animate-spin" /> : <FileCode className="w-7 h-7" />} IMPORT <input type="file" accept=".txt,.pdf,.docx,.md,.rtf,.html,.epub" className="hidden" onChange={handleFileUpload} />
         </label>
         </div>
     </div>
@@ -284,14 +731,44 @@ const App: React.FC = () => {
         <div className="flex items-center gap-4">
            {view === 'reader' && (
              <div className="flex items-center gap-2">
-               <button 
-                onClick={transformWithAi}
-                disabled={isLoadingAi}
-                className="hidden sm:flex px-4 py-3 md:px-6 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white transition-all disabled:opacity-50 items-center gap-2 shadow-xl shadow-indigo-600/20"
-               >
-                 {isLoadingAi ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
-                 <span className="hidden md:inline text-[10px] font-black uppercase tracking-widest">AI Rewrite</span>
-               </button>
+               {activeItem && originalVersion(activeItem) && latestRewrite(activeItem) && (
+                 <div className="hidden sm:flex p-1 rounded-2xl border border-white/10 bg-white/5">
+                   {[originalVersion(activeItem)!, latestRewrite(activeItem)!].map(version => (
+                     <button 
+                      key={version.id}
+                      onClick={() => switchVersion(activeItem, version.id)}
+                      disabled={!!rewriteJob}
+                      className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-50 ${
+                        activeVersion(activeItem)?.id === version.id ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white'
+                      }`}
+                     >
+                       {version.kind === 'original' ? 'Original' : 'Rewritten'}
+                     </button>
+                   ))}
+                 </div>
+               )}
+               {activeItem?.versions && activeItem.versions.length > 1 && (
+                 <button onClick={() => setShowVersions(true)} className="hidden sm:flex p-3 rounded-2xl border border-white/10 bg-white/5 text-slate-400 hover:text-white transition-all" title="Version history">
+                    <History className="w-6 h-6" />
+                 </button>
+               )}
+               {rewriteJob ? (
+                 <div className="hidden sm:flex px-4 py-3 md:px-6 rounded-2xl bg-indigo-600/20 border border-indigo-500/30 text-indigo-200 items-center gap-3">
+                   <Loader2 className="w-4 h-4 animate-spin" />
+                   <span className="hidden md:inline text-[10px] font-black uppercase tracking-widest">Transforming {rewriteJob.done}/{rewriteJob.total}</span>
+                   <button onClick={() => rewriteJob.controller.abort()} className="p-1 rounded-lg hover:bg-white/10 text-indigo-300 hover:text-white transition-colors" title="Cancel transformation">
+                     <X className="w-4 h-4" />
+                   </button>
+                 </div>
+               ) : (
+                 <button 
+                  onClick={() => setShowTransforms(true)}
+                  className="hidden sm:flex px-4 py-3 md:px-6 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white transition-all items-center gap-2 shadow-xl shadow-indigo-600/20"
+                 >
+                   <Sparkles className="w-4 h-4" />
+                   <span className="hidden md:inline text-[10px] font-black uppercase tracking-widest">Transform</span>
+                 </button>
+               )}
                <button onClick={() => setShowSettings(!showSettings)} className="p-3 rounded-2xl border border-white/10 bg-white/5 text-slate-400 hover:text-white transition-all">
                   <Settings className="w-6 h-6" />
                </button>
@@ -310,13 +787,86 @@ const App: React.FC = () => {
                 <SettingsPanel 
                    settings={settings} 
                    setSettings={setSettings} 
-                   hasApiKey={hasApiKey}
+                   hasApiKey={hasApiKey || !needsAiStudioKey}
+                   llmSettings={llmSettings}
+                   onLlmSettingsChange={setLlmSettings}
                    onConnectAi={handleSelectKey}
+                   profiles={profiles}
+                   onSaveProfile={saveProfile}
+                   onDeleteProfile={deleteProfile}
+                   pinnedProfileId={activeItem?.profileId}
+                   onPinProfile={view === 'reader' && activeItem ? pinProfile : undefined}
+                />
+            </div>
+         </div>
+      )}
+
+      {/* Version History */}
+      {showVersions && view === 'reader' && activeItem?.versions && (
+         <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={() => setShowVersions(false)}>
+            <div className="w-full max-w-6xl flex justify-center" onClick={e => e.stopPropagation()}>
+                <VersionHistory 
+                   item={activeItem}
+                   busy={rewriteJob?.itemId === activeItem.id}
+                   onSwitch={versionId => switchVersion(activeItem, versionId)}
+                   onRename={(versionId, label) => renameVersion(activeItem, versionId, label)}
+                   onDelete={versionId => deleteVersion(activeItem, versionId)}
+                   onClose={() => setShowVersions(false)}
                 />
             </div>
          </div>
       )}
 
+      {/* AI Transformations */}
+      {showTransforms && view === 'reader' && activeItem && (
+         <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={() => setShowTransforms(false)}>
+            <div className="w-full max-w-xl flex justify-center" onClick={e => e.stopPropagation()}>
+                <TransformMenu 
+                   options={transformOptions}
+                   onOptionsChange={setTransformOptions}
+                   onRun={transformWithAi}
+                   onClose={() => setShowTransforms(false)}
+                />
+            </div>
+         </div>
+      )}
+
+      {/* Backup Conflict Resolution */}
+      {pendingBackup && (
+         <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={() => setPendingBackup(null)}>
+            <div className="w-full max-w-xl bg-slate-900 border border-white/10 rounded-[3rem] p-10 shadow-3xl space-y-8" onClick={e => e.stopPropagation()}>
+               <div className="flex justify-between items-start">
+                  <div>
+                     <h3 className="font-black text-white text-xl tracking-tighter uppercase italic">Restore Conflicts</h3>
+                     <p className="text-slate-500 text-sm font-medium mt-2">
+                        {pendingBackup.conflicts.length} of {pendingBackup.backup.items.length} documents in this backup already exist in your library.
+                     </p>
+                  </div>
+                  <button onClick={() => setPendingBackup(null)} className="p-2 hover:bg-white/10 rounded-xl text-slate-400"><X className="w-5 h-5" /></button>
+               </div>
+               <ul className="max-h-40 overflow-y-auto custom-scrollbar space-y-1 text-xs font-bold text-slate-400">
+                  {pendingBackup.conflicts.map(item => <li key={item.id} className="truncate">{item.title}</li>)}
+               </ul>
+               <div className="grid grid-cols-1 gap-3">
+                  {([
+                     { id: 'merge', label: 'Merge', hint: 'Keep mine, add missing sessions and annotations' },
+                     { id: 'keep-both', label: 'Keep Both', hint: 'Import conflicting documents as copies' },
+                     { id: 'overwrite', label: 'Overwrite', hint: 'Replace mine and my settings with the backup' },
+                  ] as { id: ConflictStrategy; label: string; hint: string }[]).map(option => (
+                     <button 
+                        key={option.id}
+                        onClick={() => applyBackup(pendingBackup.backup, option.id)}
+                        className="py-4 px-6 rounded-2xl bg-white/5 border border-white/5 hover:bg-indigo-600 hover:border-indigo-500 text-left transition-all group"
+                     >
+                        <div className="text-[10px] font-black uppercase tracking-widest text-white">{option.label}</div>
+                        <div className="text-xs text-slate-500 group-hover:text-indigo-100 mt-1">{option.hint}</div>
+                     </button>
+                  ))}
+               </div>
+            </div>
+         </div>
+      )}
+
       <main className="flex-1 flex flex-col relative overflow-hidden">
         
         {view === 'landing' && (
@@ -359,12 +909,147 @@ const App: React.FC = () => {
 
         {view === 'library' && (
             <div className="max-w-6xl mx-auto w-full pt-20 px-10 animate-in fade-in zoom-in-95 duration-700">
-               <div className="flex items-center justify-between mb-16">
+               <div className="flex items-center justify-between mb-10">
                   <h2 className="text-5xl font-black tracking-tighter text-white uppercase italic">Cloud Library</h2>
+                  <div className="flex gap-3">
+                     <button onClick={exportLibrary} disabled={library.length === 0} className="px-5 py-3 rounded-2xl bg-white/5 border border-white/10 text-slate-400 hover:text-white hover:bg-white/10 disabled:opacity-20 transition-all flex items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+                        <Download className="w-4 h-4" /> Export
+                     </button>
+                     <label className="cursor-pointer px-5 py-3 rounded-2xl bg-white/5 border border-white/10 text-slate-400 hover:text-white hover:bg-white/10 transition-all flex items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+                        <Upload className="w-4 h-4" /> Restore <input type="file" accept=".json,application/json" className="hidden" onChange={handleBackupUpload} />
+                     </label>
+                  </div>
+               </div>
+               {resumeItem && !searchQuery.trim() && (
+                  <div onClick={() => openItem(resumeItem)} className="mb-8 bg-indigo-600/10 hover:bg-indigo-600/20 border border-indigo-500/30 rounded-[2.5rem] p-8 flex items-center gap-6 cursor-pointer transition-all">
+                     <div className="w-14 h-14 rounded-2xl bg-indigo-600 flex items-center justify-center shrink-0 shadow-xl shadow-indigo-600/30"><Play className="w-6 h-6 text-white fill-current ml-1" /></div>
+                     <div className="flex-1 min-w-0">
+                        <div className="text-[10px] font-black uppercase tracking-widest text-indigo-400">Continue Reading</div>
+                        <div className="text-xl font-black text-white uppercase italic truncate">{resumeItem.title}</div>
+                     </div>
+                     <div className="text-2xl font-black italic text-white">{Math.round(progressOf(resumeItem) * 100)}%</div>
+                  </div>
+               )}
+               <div className="relative mb-8">
+                  <Search className="absolute left-6 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" />
+                  <input 
+                     value={searchQuery}
+                     onChange={e => setSearchQuery(e.target.value)}
+                     placeholder="Search titles and full text..."
+                     className="w-full bg-white/5 border border-white/10 rounded-[2rem] pl-16 pr-14 py-5 text-lg font-medium text-white placeholder:text-slate-600 focus:outline-none focus:border-indigo-500 transition-colors"
+                  />
+                  {searchQuery && (
+                     <button onClick={() => setSearchQuery('')} className="absolute right-5 top-1/2 -translate-y-1/2 p-2 hover:bg-white/10 rounded-xl text-slate-400"><X className="w-4 h-4" /></button>
+                  )}
+               </div>
+               {searchQuery.trim() ? (
+               <div className="space-y-4 pb-20">
+                  {searchResults.length === 0 && (
+                     <p className="text-slate-500 font-medium px-2">No documents match "{searchQuery.trim()}".</p>
+                  )}
+                  {searchResults.map(result => (
+                     <div key={result.item.id} onClick={() => openItem(result.item, result.snippet.length > 0 ? result.position : undefined)} className="bg-white/5 hover:bg-white/10 border border-white/5 rounded-[2rem] p-8 transition-all cursor-pointer">
+                        <div className="flex items-center gap-3 mb-3">
+                           <h3 className="text-xl font-black text-white uppercase italic leading-tight truncate">{result.item.title}</h3>
+                           {result.titleMatch && <span className="px-2 py-0.5 rounded bg-indigo-500/20 text-indigo-400 text-[10px] font-black uppercase tracking-widest shrink-0">Title</span>}
+                        </div>
+                        {result.snippet.length > 0 && (
+                           <p className="text-slate-400 leading-relaxed">
+                              {result.snippet.map((part, i) => (
+                                 <React.Fragment key={i}>
+                                    {i > 0 && ' '}
+                                    {part.hit ? <mark className="bg-indigo-500/30 text-white rounded px-0.5">{part.text}</mark> : part.text}
+                                 </React.Fragment>
+                              ))}
+                           </p>
+                        )}
+                     </div>
+                  ))}
+               </div>
+               ) : (
+               <>
+               <div className="flex flex-wrap items-center gap-3 mb-4">
+                  {([
+                     { id: 'all', label: 'All' },
+                     { id: 'unfinished', label: 'Unfinished' },
+                     { id: 'finished', label: 'Finished' },
+                     { id: 'archived', label: 'Archived' },
+                  ] as { id: LibraryStatus; label: string }[]).map(status => (
+                     <button 
+                        key={status.id}
+                        onClick={() => setLibraryFilter(prev => ({ ...prev, status: status.id }))}
+                        className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${libraryFilter.status === status.id ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-500 hover:text-white'}`}
+                     >
+                        {status.label}
+                     </button>
+                  ))}
+                  <button 
+                     onClick={() => setLibraryFilter(prev => ({ ...prev, dueVocab: !prev.dueVocab }))}
+                     className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${libraryFilter.dueVocab ? 'bg-indigo-600 text-white' : 'bg-white/5 text-slate-500 hover:text-white'}`}
+                  >
+                     Due Vocab
+                  </button>
+                  {tags.length > 0 && (
+                     <select 
+                        value={libraryFilter.tag || ''}
+                        onChange={e => setLibraryFilter(prev => ({ ...prev, tag: e.target.value || undefined }))}
+                        className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 focus:outline-none cursor-pointer"
+                     >
+                        <option value="" className="bg-slate-900">Any Tag</option>
+                        {tags.map(tag => <option key={tag} value={tag} className="bg-slate-900">#{tag}</option>)}
+                     </select>
+                  )}
+                  <select 
+                     value={librarySort}
+                     onChange={e => setLibrarySort(e.target.value as LibrarySort)}
+                     className="ml-auto bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 focus:outline-none cursor-pointer"
+                     title="Sort by"
+                  >
+                     {LIBRARY_SORTS.map(sort => <option key={sort.id} value={sort.id} className="bg-slate-900">{sort.label}</option>)}
+                  </select>
                </div>
+               <div className="flex flex-wrap items-center gap-2 mb-12">
+                  <button 
+                     onClick={() => setLibraryFilter(prev => ({ ...prev, collectionId: undefined }))}
+                     className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${!libraryFilter.collectionId ? 'border-indigo-500 text-white' : 'border-white/10 text-slate-500 hover:text-white'}`}
+                  >
+                     All Collections
+                  </button>
+                  {collections.map(collection => (
+                     <div key={collection.id} className={`flex items-center rounded-full border transition-all ${libraryFilter.collectionId === collection.id ? 'border-indigo-500 text-white' : 'border-white/10 text-slate-500 hover:text-white'}`}>
+                        <button 
+                           onClick={() => setLibraryFilter(prev => ({ ...prev, collectionId: collection.id }))}
+                           className="pl-4 pr-2 py-2 text-[10px] font-black uppercase tracking-widest"
+                        >
+                           {collection.name}
+                        </button>
+                        {libraryFilter.collectionId === collection.id && (
+                           <button onClick={() => deleteCollection(collection.id)} className="pr-3 text-slate-500 hover:text-red-400" title="Delete collection"><X className="w-3 h-3" /></button>
+                        )}
+                     </div>
+                  ))}
+                  {newCollectionName === null ? (
+                     <button onClick={() => setNewCollectionName('')} className="px-4 py-2 rounded-full border border-dashed border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white flex items-center gap-1"><Plus className="w-3 h-3" /> Collection</button>
+                  ) : (
+                     <input 
+                        value={newCollectionName}
+                        onChange={e => setNewCollectionName(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') createCollection(); if (e.key === 'Escape') setNewCollectionName(null); }}
+                        onBlur={createCollection}
+                        autoFocus
+                        placeholder="Collection name"
+                        className="bg-black border border-indigo-500 rounded-full px-4 py-2 text-xs font-bold text-white focus:outline-none"
+                     />
+                  )}
+               </div>
+               {shelf.length === 0 && (
+                  <p className="text-slate-500 font-medium px-2 pb-20">{library.some(item => !item.deletedAt) ? 'Nothing here matches these filters.' : 'Your library is empty. Import something to get started.'}</p>
+               )}
                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 pb-20">
-                  {library.map(item => (
-                     <div key={item.id} onClick={() => { setActiveItemId(item.id); setView('reader'); }} className="group bg-white/5 hover:bg-white/10 border border-white/5 rounded-[3.5rem] p-10 transition-all cursor-pointer flex flex-col hover:scale-[1.02] shadow-2xl relative">
+                  {shelf.map(item => {
+                     const overview = versionSummary(item)?.overview;
+                     return (
+                     <div key={item.id} onClick={() => openItem(item)} className="group bg-white/5 hover:bg-white/10 border border-white/5 rounded-[3.5rem] p-10 transition-all cursor-pointer flex flex-col hover:scale-[1.02] shadow-2xl relative">
                         <div className="flex justify-between items-start mb-8 gap-4">
                             {editingItemId === item.id ? (
                                 <div className="flex-1 flex gap-2 z-20" onClick={e => e.stopPropagation()}>
@@ -383,9 +1068,62 @@ const App: React.FC = () => {
                             
                             <div className="flex gap-2">
                                 <button onClick={(e) => { e.stopPropagation(); startEditing(item); }} className="p-3 text-slate-500 hover:text-white bg-white/5 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity"><Edit2 className="w-4 h-4" /></button>
-                                <button onClick={(e) => { e.stopPropagation(); setLibrary(l => l.filter(i => i.id !== item.id)); if(activeItemId === item.id) setActiveItemId(null); }} className="p-3 text-red-500 hover:bg-red-500/10 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity"><Trash2 className="w-4 h-4" /></button>
+                                <button onClick={(e) => { e.stopPropagation(); setOrganizingItemId(organizingItemId === item.id ? null : item.id); setTagDraft(''); }} className="p-3 text-slate-500 hover:text-white bg-white/5 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity" title="Tags & collections"><Tag className="w-4 h-4" /></button>
+                                {item.archived || isFinished(item) ? (
+                                    <button onClick={(e) => { e.stopPropagation(); setArchived(item.id, !item.archived); }} className="p-3 text-slate-500 hover:text-white bg-white/5 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity" title={item.archived ? 'Unarchive' : 'Archive'}>
+                                        {item.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                                    </button>
+                                ) : (
+                                    <button onClick={(e) => { e.stopPropagation(); deleteItem(item); }} className="p-3 text-red-500 hover:bg-red-500/10 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity"><Trash2 className="w-4 h-4" /></button>
+                                )}
                             </div>
                         </div>
+
+                        {organizingItemId === item.id && (
+                            <div className="mb-6 space-y-4 bg-black/30 rounded-2xl p-4 border border-white/5 cursor-default" onClick={e => e.stopPropagation()}>
+                                <input 
+                                    value={tagDraft}
+                                    onChange={e => setTagDraft(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && addTag(item)}
+                                    autoFocus
+                                    placeholder="Add a tag and press Enter"
+                                    className="w-full bg-black border border-white/10 focus:border-indigo-500 rounded-xl px-3 py-2 text-xs font-bold text-white focus:outline-none"
+                                />
+                                {collections.length > 0 && (
+                                    <div className="flex flex-wrap gap-2">
+                                        {collections.map(collection => (
+                                            <button 
+                                                key={collection.id}
+                                                onClick={() => toggleCollection(item, collection.id)}
+                                                className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${item.collectionIds?.includes(collection.id) ? 'border-indigo-500 bg-indigo-600/20 text-white' : 'border-white/10 text-slate-500 hover:text-white'}`}
+                                            >
+                                                {collection.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {item.archived && (
+                                    <button onClick={() => deleteItem(item)} className="text-[10px] font-black uppercase tracking-widest text-red-500 hover:text-red-400 flex items-center gap-2"><Trash2 className="w-3 h-3" /> Delete</button>
+                                )}
+                            </div>
+                        )}
+
+                        {item.tags && item.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mb-6">
+                                {item.tags.map(tag => (
+                                    <span key={tag} className="px-2 py-0.5 rounded bg-white/5 text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1">
+                                        #{tag}
+                                        {organizingItemId === item.id && (
+                                            <button onClick={(e) => { e.stopPropagation(); removeTag(item, tag); }} className="hover:text-red-400"><X className="w-3 h-3" /></button>
+                                        )}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        
+                        {overview && (
+                            <p className="text-sm text-slate-400 font-medium leading-relaxed line-clamp-4 mb-6" title={overview}>{overview}</p>
+                        )}
                         
                         <div className="mt-auto space-y-6">
                            <div className="grid grid-cols-2 gap-4">
@@ -409,26 +1147,58 @@ const App: React.FC = () => {
                            </div>
                         </div>
                      </div>
-                  ))}
+                     );
+                  })}
                </div>
+               </>
+               )}
             </div>
         )}
 
         {view === 'reader' && activeItem && (
             <RSVPReader 
-                text={activeItem.content}
+                key={`${activeItem.id}:${activeItem.activeVersionId || ''}`}
+                document={activeItem.document}
                 settings={settings}
                 initialPosition={activeItem.lastPosition}
                 onPositionChange={updatePosition}
                 onSessionEnd={logSession}
-                onDefineWord={addVocab}
+                onSaveWord={addVocab}
+                highlights={versionAnnotations(activeItem, activeItem.highlights)}
+                bookmarks={versionAnnotations(activeItem, activeItem.bookmarks)}
+                onHighlightsChange={saveHighlights}
+                onBookmarksChange={saveBookmarks}
+                generateId={generateId}
+                summary={versionSummary(activeItem)}
+                summaryProgress={summaryJob?.itemId === activeItem.id ? { done: summaryJob.done, total: summaryJob.total } : null}
+                onSummarize={() => summarize(activeItem)}
+                onCancelSummary={() => summaryJob?.controller.abort()}
             />
         )}
 
-        {view === 'stats' && <AnalyticsView library={library} />}
-        {view === 'vocab' && <VocabularyView library={library} onUpdateWord={handleUpdateWord} />}
+        {view === 'stats' && <AnalyticsView library={library.filter(item => !item.deletedAt)} />}
+        {view === 'vocab' && (
+          <VocabularyView 
+            vocabulary={vocabulary}
+            library={library}
+            dictionaryMode={settings.dictionaryMode}
+            drillKinds={drillKinds}
+            onDrillKindsChange={setDrillKinds}
+            onUpdateWord={handleUpdateWord}
+            onImportWords={importVocab}
+            onOpenSighting={openSighting}
+          />
+        )}
 
       </main>
+
+      {/* Undo Delete */}
+      {recentlyDeleted && (
+         <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[80] bg-slate-900 border border-white/10 rounded-2xl px-6 py-4 shadow-2xl flex items-center gap-6 animate-in slide-in-from-bottom-4">
+            <span className="text-sm font-bold text-white truncate max-w-[50vw]">Deleted "{recentlyDeleted.title}"</span>
+            <button onClick={undoDelete} className="text-[10px] font-black uppercase tracking-widest text-indigo-400 hover:text-indigo-300 flex items-center gap-2"><Undo2 className="w-4 h-4" /> Undo</button>
+         </div>
+      )}
     </div>
   );
 };
@@ -1,7 +1,7 @@
 
 import React, { useMemo } from 'react';
 import { LibraryItem } from '../types';
-import { BarChart2, Calendar, Clock, Zap, TrendingUp } from 'lucide-react';
+import { BarChart2, Calendar, Clock, Zap, TrendingUp, BrainCircuit } from 'lucide-react';
 
 interface AnalyticsViewProps {
   library: LibraryItem[];
@@ -27,7 +27,7 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ library }) => {
 
     library.forEach(item => {
       totalWords += item.sessions.reduce((acc, s) => acc + s.wordsRead, 0);
-      totalSeconds += item.sessions.reduce((acc, s) => acc + s.duration, 0);
+      totalSeconds += item.sessions.reduce((acc, s) => acc + (s.activeTime ?? s.duration), 0);
       
       item.sessions.forEach(s => {
         totalWpmSum += s.wpm;
@@ -59,8 +59,17 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ library }) => {
        currentStreak = 0; // Or Keep it? Usually streak breaks if you miss today. Let's say 0.
     }
 
+    // Quizzed sessions, newest first, to set speed against understanding
+    const quizzed = library
+      .flatMap(item => item.sessions
+        .filter(s => s.quiz && s.quiz.total > 0)
+        .map(s => ({ title: item.title, date: s.date, wpm: s.wpm, score: s.quiz!.correct / s.quiz!.total })))
+      .sort((a, b) => b.date - a.date);
+
     return {
       totalWords,
+      comprehension: quizzed.slice(0, 10),
+      avgComprehension: quizzed.length > 0 ? Math.round(quizzed.reduce((acc, q) => acc + q.score, 0) / quizzed.length * 100) : null,
       totalHours: (totalSeconds / 3600).toFixed(1),
       avgWpm: sessionCount > 0 ? Math.round(totalWpmSum / sessionCount) : 0,
       currentStreak,
@@ -73,6 +82,7 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ library }) => {
   }, [library]);
 
   const maxChartValue = Math.max(...stats.chartData.map(d => d.value), 100);
+  const maxQuizWpm = Math.max(...stats.comprehension.map(q => q.wpm), 100);
 
   return (
     <div className="max-w-6xl mx-auto w-full pt-20 px-10 animate-in fade-in zoom-in-95 duration-700 pb-20">
@@ -125,6 +135,45 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ library }) => {
           ))}
         </div>
       </div>
+
+      <div className="bg-white/5 border border-white/10 rounded-[3rem] p-12 mt-12">
+        <div className="flex items-center justify-between mb-12">
+           <h3 className="text-2xl font-black text-white italic uppercase flex items-center gap-3">
+             <BrainCircuit className="w-6 h-6 text-indigo-500" />
+             Speed vs Comprehension
+           </h3>
+           <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+             {stats.avgComprehension !== null ? `${stats.avgComprehension}% Average` : 'No Quizzes Yet'}
+           </span>
+        </div>
+
+        {stats.comprehension.length === 0 ? (
+          <p className="text-sm text-slate-500 font-medium">Take the quiz offered at the end of a chapter to see whether faster reading is costing understanding.</p>
+        ) : (
+          <div className="space-y-4">
+            {stats.comprehension.map((q, i) => (
+              <div key={i} className="grid grid-cols-[8rem_1fr_1fr] gap-6 items-center">
+                <div className="min-w-0">
+                  <div className="text-xs font-bold text-white truncate">{q.title}</div>
+                  <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{new Date(q.date).toLocaleDateString()}</div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-yellow-400 rounded-full" style={{ width: `${q.wpm / maxQuizWpm * 100}%` }} />
+                  </div>
+                  <span className="w-16 text-right text-[10px] font-black text-slate-400 tracking-widest">{q.wpm} WPM</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${q.score >= 0.7 ? 'bg-green-400' : q.score >= 0.4 ? 'bg-orange-400' : 'bg-red-400'}`} style={{ width: `${q.score * 100}%` }} />
+                  </div>
+                  <span className="w-10 text-right text-[10px] font-black text-slate-400 tracking-widest">{Math.round(q.score * 100)}%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
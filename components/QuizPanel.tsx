@@ -0,0 +1,168 @@
+
+import React, { useState, useEffect } from 'react';
+import { Loader2, CheckCircle2, XCircle, BrainCircuit, ListOrdered, RotateCcw, X } from 'lucide-react';
+import { StructuredDocument, QuizResult } from '../types';
+import { Quiz, createQuiz, isCorrect, scoreQuiz } from '../utils/quiz';
+
+interface QuizPanelProps {
+  document: StructuredDocument;
+  from: number; // Token range the quiz covers
+  to: number;
+  title: string;
+  onComplete: (result: QuizResult | null) => void; // null when skipped
+}
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ document: doc, from, to, title, onComplete }) => {
+  const [started, setStarted] = useState(false);
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [current, setCurrent] = useState(0);
+  const [responses, setResponses] = useState<number[][]>([]);
+  const [pending, setPending] = useState<number[]>([]);
+  const [revealed, setRevealed] = useState(false);
+
+  useEffect(() => {
+    if (!started) return;
+    let cancelled = false;
+    createQuiz(doc, from, to).then(q => { if (!cancelled) setQuiz(q); });
+    return () => { cancelled = true; };
+  }, [started, doc, from, to]);
+
+  const question = quiz?.questions[current];
+  const finished = quiz !== null && current >= quiz.questions.length;
+
+  const submit = (response: number[]) => {
+    setResponses(prev => [...prev, response]);
+    setPending([]);
+    setRevealed(true);
+  };
+
+  const next = () => {
+    setRevealed(false);
+    setCurrent(c => c + 1);
+  };
+
+  const pickOption = (i: number) => {
+    if (!question || revealed) return;
+    if (question.kind !== 'sequence') {
+      submit([i]);
+      return;
+    }
+    if (pending.includes(i)) return;
+    const order = [...pending, i];
+    if (order.length === question.options.length) submit(order);
+    else setPending(order);
+  };
+
+  const card = "bg-slate-950 border border-white/10 rounded-3xl p-8 shadow-2xl max-w-2xl w-full mx-auto animate-in slide-in-from-bottom-4";
+
+  if (!started) {
+    return (
+      <div className={card}>
+        <h3 className="text-2xl font-black italic text-white tracking-tight mb-2">Check Comprehension</h3>
+        <p className="text-slate-400 text-sm mb-8">A few quick questions on <span className="text-white font-bold">{title}</span>, to see whether your speed is costing understanding.</p>
+        <div className="flex gap-3">
+          <button onClick={() => setStarted(true)} className="flex-1 py-4 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-black uppercase tracking-widest transition-all">Take Quiz</button>
+          <button onClick={() => onComplete(null)} className="px-6 py-4 rounded-2xl bg-white/5 hover:bg-white/10 text-slate-400 text-[10px] font-black uppercase tracking-widest transition-all">Skip</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!quiz) {
+    return (
+      <div className={`${card} flex items-center justify-center gap-3`}>
+        <Loader2 className="w-5 h-5 animate-spin text-indigo-400" />
+        <span className="text-sm font-bold uppercase tracking-widest text-white">Writing Questions...</span>
+      </div>
+    );
+  }
+
+  if (quiz.questions.length === 0) {
+    return (
+      <div className={card}>
+        <p className="text-slate-400 text-sm mb-6">This passage is too short to quiz on.</p>
+        <button onClick={() => onComplete(null)} className="w-full py-4 rounded-2xl bg-white/5 hover:bg-white/10 text-white text-[10px] font-black uppercase tracking-widest">Continue</button>
+      </div>
+    );
+  }
+
+  if (finished) {
+    const result = scoreQuiz(quiz, responses);
+    return (
+      <div className={card}>
+        <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Comprehension</div>
+        <div className="text-6xl font-black italic text-white tracking-tight mb-8">{Math.round(result.correct / result.total * 100)}%<span className="text-lg text-slate-500 ml-3 not-italic">{result.correct} / {result.total}</span></div>
+        <button onClick={() => onComplete(result)} className="w-full py-4 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-black uppercase tracking-widest transition-all">Save & Continue</button>
+      </div>
+    );
+  }
+
+  const response = responses[current];
+  const correct = revealed && question ? isCorrect(question, response) : false;
+
+  return (
+    <div className={card}>
+      <div className="flex justify-between items-center mb-6">
+        <div className="px-2 py-0.5 rounded bg-indigo-500/20 text-indigo-400 text-[10px] font-black uppercase tracking-widest flex items-center gap-1">
+          {question!.kind === 'sequence' ? <ListOrdered className="w-3 h-3" /> : <BrainCircuit className="w-3 h-3" />}
+          {question!.kind === 'choice' ? 'Understanding' : question!.kind === 'cloze' ? 'Fill the Gap' : 'Order'}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-black text-slate-500 tracking-[0.2em]">{current + 1} / {quiz.questions.length}</span>
+          <button onClick={() => onComplete(null)} className="p-1 hover:bg-white/10 rounded-lg text-slate-500" title="Skip quiz"><X className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      <p className="text-slate-100 text-lg leading-relaxed font-medium mb-6">{question!.prompt}</p>
+
+      <div className="space-y-2 mb-6">
+        {question!.options.map((option, i) => {
+          const position = question!.kind === 'sequence' ? (revealed ? response : pending).indexOf(i) : -1;
+          const isAnswer = revealed && question!.kind !== 'sequence' && question!.answer[0] === i;
+          const isWrongPick = revealed && question!.kind !== 'sequence' && response[0] === i && !isAnswer;
+          return (
+            <button
+              key={i}
+              onClick={() => pickOption(i)}
+              disabled={revealed}
+              className={`w-full text-left p-4 rounded-2xl border text-sm transition-all flex gap-3 items-start ${
+                isAnswer ? 'border-green-500/50 bg-green-500/10 text-green-200'
+                : isWrongPick ? 'border-red-500/50 bg-red-500/10 text-red-200'
+                : position >= 0 ? 'border-indigo-500 bg-indigo-600/10 text-white'
+                : 'border-white/5 bg-white/5 text-slate-300 hover:bg-white/10'
+              }`}
+            >
+              {question!.kind === 'sequence' && (
+                <span className="w-5 shrink-0 text-[10px] font-black text-indigo-400 pt-0.5">{position >= 0 ? position + 1 : ''}</span>
+              )}
+              {option}
+            </button>
+          );
+        })}
+      </div>
+
+      {question!.kind === 'sequence' && !revealed && pending.length > 0 && (
+        <button onClick={() => setPending([])} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white flex items-center gap-2 mb-6"><RotateCcw className="w-3 h-3" /> Clear Order</button>
+      )}
+
+      {revealed && (
+        <div className="space-y-4">
+          <div className={`flex items-center gap-2 text-sm font-bold ${correct ? 'text-green-400' : 'text-red-400'}`}>
+            {correct ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+            {correct ? 'Correct' : question!.kind === 'sequence' ? 'Not quite. In order, they read:' : 'Not quite. The passage says:'}
+          </div>
+          {!correct && (
+            <div className="bg-white/5 p-5 rounded-2xl border border-white/5 max-h-40 overflow-y-auto custom-scrollbar">
+              <p className="text-slate-400 italic font-serif text-sm">"{question!.excerpt}"</p>
+            </div>
+          )}
+          <button onClick={next} className="w-full py-4 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-black uppercase tracking-widest transition-all">
+            {current + 1 < quiz.questions.length ? 'Next Question' : 'See Score'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizPanel;
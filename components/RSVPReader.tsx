@@ -2,43 +2,228 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { 
   Play, Pause, RotateCcw, FastForward, Rewind, 
-  Clock, Target, Loader2, BookPlus, X, Globe, BrainCircuit
+  Clock, Target, Loader2, BookPlus, X, Globe, BrainCircuit, ListTree, TrendingUp,
+  Bookmark as BookmarkIcon, Highlighter, Trash2, Search, ChevronUp, ChevronDown, BookOpen, ScrollText, Sparkles, Volume2
 } from 'lucide-react';
-import { ReadingSettings, VocabularyWord } from '../types';
-import { geminiService, DefinitionResult } from '../services/geminiService';
+import { ReadingSettings, ReadingSession, StructuredDocument, DocumentParagraph, DocumentToken, QuizResult, Highlight, Bookmark, HighlightColor, DocumentSummary } from '../types';
+import { dictionaryService, DefinitionResult, rareWordsAhead, PREFETCH_BATCH } from '../services/dictionaryService';
 import { processBionicText } from '../utils/textProcessor';
+import { documentTokens, paragraphTokens, sectionIndexAt, tokenIndexAtOffset } from '../utils/documentModel';
+import { lookupForm, splitAffixes } from '../utils/tokenizer';
+import { buildSchedule, stepDelay } from '../utils/pacing';
+import { rampWpm } from '../utils/speedRamp';
+import { SessionTracker } from '../utils/sessionTracker';
+import { Narrator } from '../utils/narration';
+import { WordEntry } from '../utils/vocabulary';
+import { SpeechEngine, browserSpeechEngine } from '../services/speechService';
+import { tokenTerms, findInDocument } from '../utils/searchIndex';
+import { HIGHLIGHT_COLORS, highlightClass, annotateTokens, createHighlight, createBookmark, listAnnotations } from '../utils/annotations';
+import QuizPanel from './QuizPanel';
+
+// Sessions survive short pauses (hovering for context, a definition lookup); a longer one closes them
+const PAUSE_TIMEOUT_MS = 2 * 60 * 1000;
 
 interface RSVPReaderProps {
-  text: string;
+  document: StructuredDocument;
   settings: ReadingSettings;
   onPositionChange?: (index: number) => void;
-  onSessionEnd?: (wpm: number, words: number, duration: number) => void;
-  onDefineWord?: (word: VocabularyWord) => void;
+  onSessionEnd?: (session: ReadingSession) => void;
+  onSaveWord?: (entry: WordEntry, wordIndex: number) => void; // The definition showing, and the token it was looked up from
   initialPosition?: number;
+  highlights?: Highlight[];
+  bookmarks?: Bookmark[];
+  onHighlightsChange?: (highlights: Highlight[]) => void;
+  onBookmarksChange?: (bookmarks: Bookmark[]) => void;
+  generateId: () => string; // For new highlights and bookmarks
+  summary?: DocumentSummary; // Of the text showing
+  summaryProgress?: { done: number; total: number } | null; // A summary is being made
+  onSummarize?: () => void;
+  onCancelSummary?: () => void;
+  speechEngine?: SpeechEngine; // For narration; the browser's unless a test substitutes one
+}
+
+interface PendingQuiz {
+  from: number;
+  to: number;
+  title: string;
+  session: ReadingSession;
 }
 
 const RSVPReader: React.FC<RSVPReaderProps> = ({ 
-  text, settings, onPositionChange, onSessionEnd, onDefineWord, initialPosition = 0 
+  document: doc, settings, onPositionChange, onSessionEnd, onSaveWord, initialPosition = 0,
+  highlights = [], bookmarks = [], onHighlightsChange, onBookmarksChange, generateId,
+  summary, summaryProgress, onSummarize, onCancelSummary, speechEngine = browserSpeechEngine
 }) => {
   const [wordIndex, setWordIndex] = useState(initialPosition);
   const [isPlaying, setIsPlaying] = useState(false);
   const [showContext, setShowContext] = useState(false);
-  const [startTime, setStartTime] = useState<number | null>(null);
+  // A finished section's session, held back until its quiz is taken or skipped
+  const [pendingQuiz, setPendingQuiz] = useState<PendingQuiz | null>(null);
   
   // Dictionary State - Using Extended DefinitionResult
-  const [definition, setDefinition] = useState<{word: string} & DefinitionResult | null>(null);
+  const [definition, setDefinition] = useState<{word: string; index: number} & DefinitionResult | null>(null);
   const [isLoadingDef, setIsLoadingDef] = useState(false);
+  // Set when no provider in the chain knew the word
+  const [notFoundWord, setNotFoundWord] = useState<string | null>(null);
+
+  // Annotation State - the token range under the text selection, waiting to be saved
+  const [selection, setSelection] = useState<{ from: number; to: number } | null>(null);
+  const [highlightColor, setHighlightColor] = useState<HighlightColor>('yellow');
+  const [highlightNote, setHighlightNote] = useState('');
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  // The overview is most useful before starting, so it opens on documents not yet begun
+  const [showSummary, setShowSummary] = useState(initialPosition === 0 && !!summary);
+
+  // Find State
+  const [showFind, setShowFind] = useState(false);
+  const [findQuery, setFindQuery] = useState('');
+  const [findCursor, setFindCursor] = useState(0);
   
-  const words = useMemo(() => text.split(/\s+/).filter(w => w.length > 0), [text]);
+  const tokens = useMemo(() => documentTokens(doc), [doc]);
+  const words = useMemo(() => tokens.map(t => t.text), [tokens]);
+  const sections = doc.sections;
+  const hasNamedSections = sections.some(s => s.title);
+  const { highlightByToken, bookmarked } = useMemo(() => annotateTokens(tokens, highlights, bookmarks), [tokens, highlights, bookmarks]);
+  const annotations = useMemo(() => listAnnotations(doc, highlights, bookmarks), [doc, highlights, bookmarks]);
+  // Only normalised once the find bar is opened; long documents take a moment
+  const terms = useMemo(() => showFind ? tokenTerms(tokens) : [], [showFind, tokens]);
+  const findHits = useMemo(() => findInDocument(terms, findQuery), [terms, findQuery]);
+  const findHitTokens = useMemo(() => new Set(findHits.flatMap(h => Array.from({ length: h.length }, (_, i) => h.start + i))), [findHits]);
   const timerRef = useRef<number | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const classicActiveRef = useRef<HTMLSpanElement | null>(null);
   const contextActiveRef = useRef<HTMLSpanElement | null>(null);
 
+  // Session tracking lives in refs so the unmount and visibility handlers see the latest state
+  const trackerRef = useRef<SessionTracker | null>(null);
+  const pauseTimerRef = useRef<number | null>(null);
+  const onSessionEndRef = useRef(onSessionEnd);
+  onSessionEndRef.current = onSessionEnd;
+  const pendingQuizRef = useRef(pendingQuiz);
+  pendingQuizRef.current = pendingQuiz;
+  const rampEnabledRef = useRef(settings.ramp.enabled);
+  rampEnabledRef.current = settings.ramp.enabled;
+
+  const running = isPlaying && !showContext && !pendingQuiz;
+  const ramp = settings.ramp;
+  const narration = settings.narration;
+
+  // Background definition prefetch for this document: words already queued, and a way to stop the queue
+  const prefetchRef = useRef<{ controller: AbortController; queued: Set<string> } | null>(null);
+  // Look ahead again every hundred words rather than on every tick
+  const prefetchBlock = Math.floor(wordIndex / 100);
+
+  const clearPauseTimer = () => {
+    if (pauseTimerRef.current !== null) clearTimeout(pauseTimerRef.current);
+    pauseTimerRef.current = null;
+  };
+
+  /**
+   * Closes the open session. With a quiz, the session waits for the score; without
+   * one (pause timeout, tab hidden, leaving the reader) it's logged straight away.
+   */
+  const closeSession = useCallback((quiz?: { title: string; to: number }) => {
+    const tracker = trackerRef.current;
+    if (!tracker) return;
+    trackerRef.current = null;
+    clearPauseTimer();
+    const session = tracker.close(Date.now(), ramp.enabled);
+    if (!session) return;
+    if (quiz && settings.offerQuizzes) {
+      setPendingQuiz({ from: session.startPosition!, to: quiz.to, title: quiz.title, session });
+    } else {
+      onSessionEndRef.current?.(session);
+    }
+  }, [ramp.enabled, settings.offerQuizzes]);
+
+  const finishQuiz = (result: QuizResult | null) => {
+    if (!pendingQuiz) return;
+    onSessionEnd?.(result ? { ...pendingQuiz.session, quiz: result } : pendingQuiz.session);
+    setPendingQuiz(null);
+  };
+
+  // Moves the position by hand; going backwards counts as a rewind
+  const seek = useCallback((index: number) => {
+    const target = Math.max(0, Math.min(words.length - 1, index));
+    trackerRef.current?.seek(target);
+    setWordIndex(target);
+  }, [words.length]);
+
+  // Drops a bookmark on the current word, or lifts the one already there
+  const toggleBookmark = useCallback(() => {
+    if (!onBookmarksChange) return;
+    const existing = bookmarks.find(b => tokens[wordIndex] && b.offset >= tokens[wordIndex].start && b.offset < tokens[wordIndex].end);
+    if (existing) {
+      onBookmarksChange(bookmarks.filter(b => b !== existing));
+      return;
+    }
+    const bookmark = createBookmark(tokens, wordIndex, generateId);
+    if (bookmark) onBookmarksChange([...bookmarks, bookmark]);
+  }, [bookmarks, tokens, wordIndex, onBookmarksChange, generateId]);
+
+  // Maps the browser's text selection onto the tokens it spans
+  const handleSelection = () => {
+    const sel = window.getSelection();
+    if (!sel || sel.isCollapsed || !sel.anchorNode || !sel.focusNode) return;
+    const tokenAt = (node: Node) => {
+      const element = node instanceof Element ? node : node.parentElement;
+      const index = element?.closest('[data-token]')?.getAttribute('data-token');
+      return index == null ? null : parseInt(index);
+    };
+    const from = tokenAt(sel.anchorNode);
+    const to = tokenAt(sel.focusNode);
+    if (from === null || to === null) return;
+    setSelection({ from: Math.min(from, to), to: Math.max(from, to) });
+    setHighlightNote('');
+  };
+
+  const saveHighlight = () => {
+    if (!selection || !onHighlightsChange) return;
+    const highlight = createHighlight(tokens, selection.from, selection.to, highlightColor, highlightNote, generateId);
+    if (highlight) onHighlightsChange([...highlights, highlight]);
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  // Starts at the first match from the current position whenever the query changes
+  useEffect(() => {
+    if (findHits.length === 0) return;
+    const next = Math.max(0, findHits.findIndex(h => h.start >= wordIndex));
+    setFindCursor(next);
+    seek(findHits[next].start);
+    setIsPlaying(false);
+  }, [findHits]);
+
+  const stepFind = (delta: number) => {
+    if (findHits.length === 0) return;
+    const next = (findCursor + delta + findHits.length) % findHits.length;
+    setFindCursor(next);
+    seek(findHits[next].start);
+    setIsPlaying(false);
+  };
+
+  const closeFind = () => {
+    setShowFind(false);
+    setFindQuery('');
+  };
+
+  const jumpToSummary = (offset: number) => {
+    seek(tokenIndexAtOffset(doc, offset));
+    setIsPlaying(false);
+    setShowSummary(false);
+  };
+
+  const jumpToAnnotation = (index: number) => {
+    seek(index);
+    setIsPlaying(false);
+    setShowAnnotations(false);
+  };
+
   // Keyboard Shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
         if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+        if (pendingQuiz) return;
 
         if (e.key.toLowerCase() === 'c') {
             e.preventDefault();
@@ -49,57 +234,193 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
              e.preventDefault();
              setIsPlaying(prev => !prev);
         }
+        if (e.key.toLowerCase() === 'f') {
+            e.preventDefault();
+            setShowFind(true);
+        }
+        if (e.key.toLowerCase() === 'b') {
+            e.preventDefault();
+            toggleBookmark();
+        }
         if (e.key === 'ArrowLeft') {
-            setWordIndex(i => Math.max(0, i - 10));
+            seek(wordIndex - 10);
         }
         if (e.key === 'ArrowRight') {
-            setWordIndex(i => Math.min(words.length - 1, i + 10));
+            seek(wordIndex + 10);
         }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [words.length]);
+  }, [pendingQuiz, seek, wordIndex, toggleBookmark]);
+
+  // Opens a session on play; pausing starts the timeout that closes it
+  useEffect(() => {
+    const now = Date.now();
+    if (running) {
+      clearPauseTimer();
+      if (!trackerRef.current) trackerRef.current = new SessionTracker(wordIndex, settings.mode, now);
+      trackerRef.current.play(now);
+    } else if (trackerRef.current) {
+      trackerRef.current.pause(now);
+      clearPauseTimer();
+      pauseTimerRef.current = window.setTimeout(() => closeSession(), PAUSE_TIMEOUT_MS);
+    }
+  }, [running, closeSession]);
+
+  // A session reads in one mode; switching starts a new one
+  useEffect(() => {
+    if (!trackerRef.current) return;
+    closeSession();
+    if (running) {
+      trackerRef.current = new SessionTracker(wordIndex, settings.mode, Date.now());
+      trackerRef.current.play(Date.now());
+    }
+  }, [settings.mode]);
 
+  useEffect(() => {
+    const handleHidden = () => {
+      if (window.document.visibilityState !== 'hidden') return;
+      setIsPlaying(false);
+      closeSession();
+    };
+    const handlePageHide = () => closeSession();
+    window.document.addEventListener('visibilitychange', handleHidden);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.document.removeEventListener('visibilitychange', handleHidden);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [closeSession]);
+
+  // Leaving the reader logs whatever is open, including a session still waiting on its quiz
+  useEffect(() => () => {
+    clearPauseTimer();
+    if (pendingQuizRef.current) onSessionEndRef.current?.(pendingQuizRef.current.session);
+    const session = trackerRef.current?.close(Date.now(), rampEnabledRef.current);
+    trackerRef.current = null;
+    if (session) onSessionEndRef.current?.(session);
+  }, []);
+
+  // Per-token delays, averaging out to the target speed over the whole document
+  const schedule = useMemo(() => buildSchedule(doc, settings.wpm, settings.pacing), [doc, settings.wpm, settings.pacing]);
+
+  const wordsThisSession = trackerRef.current?.words ?? 0;
+  const liveWpm = ramp.enabled ? rampWpm(ramp, wordsThisSession) : settings.wpm;
+
+  // The schedule is built at settings.wpm; a ramp rescales it to the live speed
   const getDelay = useCallback(() => {
-    const baseDelay = (60 / settings.wpm) * 1000 * (settings.mode === 'rsvp-chunk' ? settings.chunkSize : 1);
-    const currentWord = words[wordIndex] || "";
-    
-    let multiplier = 1;
-    if (currentWord.match(/[.!?]$/)) multiplier = 2.0;
-    else if (currentWord.match(/[,;:]$/)) multiplier = 1.5;
-    else if (currentWord.length > 10) multiplier = 1.2;
-    
-    return baseDelay * multiplier;
-  }, [settings.wpm, settings.chunkSize, settings.mode, wordIndex, words]);
+    const delay = stepDelay(schedule, wordIndex, settings.mode === 'rsvp-chunk' ? settings.chunkSize : 1);
+    return delay * settings.wpm / liveWpm;
+  }, [schedule, settings.chunkSize, settings.mode, settings.wpm, wordIndex, liveWpm]);
+
+  // Reads on to `next`, or to the end of the document when it's past the last word
+  const advance = useCallback((next: number) => {
+    const tracker = trackerRef.current;
+    if (next >= words.length) {
+      tracker?.read(words.length - 1, words.length - wordIndex, liveWpm);
+      setIsPlaying(false);
+      closeSession({ title: 'what you just read', to: words.length - 1 });
+      return;
+    }
+    tracker?.read(next, next - wordIndex, liveWpm);
+    // Crossing into a new chapter ends the session there, so it can be quizzed on its own
+    const section = sectionIndexAt(doc, wordIndex);
+    if (settings.offerQuizzes && hasNamedSections && sectionIndexAt(doc, next) !== section) {
+      setIsPlaying(false);
+      closeSession({ title: sections[section]?.title || 'this section', to: next - 1 });
+    }
+    setWordIndex(next);
+  }, [wordIndex, words.length, settings.offerQuizzes, liveWpm, closeSession, doc, sections, hasNamedSections]);
 
   const playNext = useCallback(() => {
-    setWordIndex((prev) => {
-      const step = settings.mode === 'rsvp-chunk' ? settings.chunkSize : 1;
-      const next = prev + step;
-      if (next >= words.length) {
+    advance(wordIndex + (settings.mode === 'rsvp-chunk' ? settings.chunkSize : 1));
+  }, [advance, wordIndex, settings.mode, settings.chunkSize]);
+
+  // Main playback loop; narration is paced by the voice instead
+  useEffect(() => {
+    if (running && !narration.enabled && wordIndex < words.length) {
+      timerRef.current = window.setTimeout(playNext, getDelay());
+    }
+    return () => { if (timerRef.current) clearTimeout(timerRef.current); };
+  }, [running, narration.enabled, wordIndex, getDelay, playNext]);
+
+  // Narration: the voice's word boundaries move the position. Callbacks go through a ref
+  // so the narrator, built once per document, always sees the current state.
+  const narratorRef = useRef<Narrator | null>(null);
+  // The position narration last moved to; any other position was set by hand
+  const narratedIndexRef = useRef(-1);
+  const onNarratedWordRef = useRef<(index: number) => void>(() => {});
+  onNarratedWordRef.current = (index: number) => {
+    // Chunks move on once the voice has passed the last word showing
+    if (index < wordIndex + (settings.mode === 'rsvp-chunk' ? settings.chunkSize : 1)) return;
+    narratedIndexRef.current = index;
+    advance(index);
+  };
+  const onNarrationEndRef = useRef(() => {});
+  onNarrationEndRef.current = () => advance(words.length);
+
+  useEffect(() => {
+    if (!narration.enabled) return;
+    const narrator = new Narrator(speechEngine, doc, narration, {
+      onWord: index => onNarratedWordRef.current(index),
+      onEnd: () => onNarrationEndRef.current(),
+      onError: error => {
+        console.warn("Narration stopped:", error);
         setIsPlaying(false);
-        if (startTime) {
-          onSessionEnd?.(settings.wpm, words.length, (Date.now() - startTime) / 1000);
-        }
-        return prev;
       }
-      return next;
     });
-  }, [words.length, settings.mode, settings.chunkSize, startTime, onSessionEnd, settings.wpm]);
+    narratorRef.current = narrator;
+    return () => {
+      narrator.stop();
+      narratorRef.current = null;
+    };
+  }, [narration.enabled, doc, speechEngine]);
 
-  // Main playback loop
+  // A new voice, rate or pitch is heard from the current word on
   useEffect(() => {
-    if (isPlaying && !showContext && wordIndex < words.length) {
-      if (!startTime) setStartTime(Date.now());
-      timerRef.current = window.setTimeout(playNext, getDelay());
+    const narrator = narratorRef.current;
+    if (!narrator) return;
+    narrator.setVoice(narration);
+    if (narrator.isSpeaking) narrator.play(narrator.currentIndex);
+  }, [narration.voiceId, narration.rate, narration.pitch]);
+
+  // Speaks while playing; pausing stops the voice, and a seek restarts it at the new word
+  useEffect(() => {
+    const narrator = narratorRef.current;
+    if (!narrator) return;
+    if (!running) {
+      narrator.stop();
+      return;
     }
-    return () => { if (timerRef.current) clearTimeout(timerRef.current); };
-  }, [isPlaying, showContext, wordIndex, getDelay, playNext]);
+    if (!narrator.isSpeaking || wordIndex !== narratedIndexRef.current) {
+      narratedIndexRef.current = wordIndex;
+      narrator.play(wordIndex);
+    }
+  }, [running, wordIndex, narration.enabled, doc, speechEngine]);
 
   useEffect(() => {
     onPositionChange?.(wordIndex);
   }, [wordIndex, onPositionChange]);
 
+  useEffect(() => {
+    if (!settings.prefetchDefinitions) return;
+    const state = { controller: new AbortController(), queued: new Set<string>() };
+    prefetchRef.current = state;
+    return () => {
+      state.controller.abort();
+      prefetchRef.current = null;
+    };
+  }, [settings.prefetchDefinitions, doc]);
+
+  useEffect(() => {
+    const state = prefetchRef.current;
+    if (!state) return;
+    const batch = rareWordsAhead(tokens, wordIndex).filter(word => !state.queued.has(word)).slice(0, PREFETCH_BATCH);
+    if (batch.length === 0) return;
+    batch.forEach(word => state.queued.add(word));
+    dictionaryService.prefetch(batch, state.controller.signal);
+  }, [settings.prefetchDefinitions, tokens, prefetchBlock]);
+
   // Auto-scroll for Classic Mode
   useEffect(() => {
     if (settings.mode === 'classic' && classicActiveRef.current) {
@@ -114,45 +435,66 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
             contextActiveRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
         });
     }
-  }, [showContext]);
+  }, [showContext, wordIndex]);
 
-  const handleDefine = async (wordToDefine: string) => {
-    const cleanWord = wordToDefine.replace(/[^\w]/g, '');
+  const handleDefine = async (wordToDefine: string, tokenIndex: number) => {
+    const cleanWord = lookupForm(wordToDefine);
     if (!cleanWord || isLoadingDef) return;
 
     setIsLoadingDef(true);
+    setNotFoundWord(null);
     try {
       const contextSlice = words.slice(Math.max(0, wordIndex - 15), Math.min(words.length, wordIndex + 15)).join(' ');
-      // Falls back to standard automatically if AI fails/no key
-      const result = await geminiService.defineWord(cleanWord, contextSlice, settings.dictionaryMode);
-      setDefinition({
-        word: cleanWord,
-        ...result
-      });
+      // Walks the provider chain for the chosen mode; a failing provider hands over to the next
+      const result = await dictionaryService.define(cleanWord, contextSlice, settings.dictionaryMode);
+      if (result) {
+        setDefinition({
+          word: cleanWord,
+          index: tokenIndex,
+          ...result
+        });
+      } else {
+        setDefinition(null);
+        setNotFoundWord(cleanWord);
+      }
     } catch (e) { console.error(e); }
     finally { setIsLoadingDef(false); }
   };
 
   const saveToVocab = () => {
-    if (definition && onDefineWord) {
-      onDefineWord({
-        id: Date.now().toString(),
-        word: definition.word,
-        definition: definition.definition,
-        examples: definition.examples,
-        date: Date.now(),
-        proficiency: 0,
-        nextReview: Date.now()
-      });
+    if (definition && onSaveWord) {
+      onSaveWord({ word: definition.word, definition: definition.definition, examples: definition.examples }, definition.index);
       setDefinition(null);
     }
   };
 
+  const currentSectionIndex = useMemo(() => sectionIndexAt(doc, wordIndex), [doc, wordIndex]);
+  // The summary line for the part being read: the last one starting at or before the current word
+  const currentSummaryIndex = useMemo(() => {
+    const offset = tokens[wordIndex]?.start ?? 0;
+    let current = -1;
+    summary?.sections.forEach((s, i) => { if (s.offset <= offset) current = i; });
+    return current;
+  }, [summary, tokens, wordIndex]);
+
+  const jumpToSection = (index: number) => {
+    const section = sections[index];
+    if (!section) return;
+    seek(section.startWord);
+  };
+
   const timeRemaining = useMemo(() => {
-    const left = words.length - wordIndex;
-    const sec = (left / settings.wpm) * 60;
+    let ms = schedule.remaining[Math.min(wordIndex, words.length)] || 0;
+    if (ramp.enabled) {
+      // Walk the rest of the ramp token by token, since the speed keeps changing
+      ms = 0;
+      for (let i = wordIndex; i < schedule.delays.length; i++) {
+        ms += schedule.delays[i] * settings.wpm / rampWpm(ramp, wordsThisSession + i - wordIndex);
+      }
+    }
+    const sec = ms / 1000;
     return `${Math.floor(sec / 60)}m ${Math.floor(sec % 60)}s`;
-  }, [words.length, wordIndex, settings.wpm]);
+  }, [schedule, words.length, wordIndex, ramp, settings.wpm, wordsThisSession]);
 
   // Dynamic Font Scaling for Single Mode
   const singleModeFontSize = useMemo(() => {
@@ -177,13 +519,21 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
      return 4;
   };
 
-  const renderSingleWord = (word: string) => {
-    const len = word.length;
-    const orp = getORPIndex(len);
+  // Splits a unit at its optimal recognition point, measured on the word itself so
+  // quotes and punctuation don't shift the focus letter
+  const splitAtORP = (word: string) => {
+    const { prefix, core, suffix } = splitAffixes(word);
+    const chars = Array.from(core);
+    const orp = getORPIndex(chars.length);
+    return {
+      left: prefix + chars.slice(0, orp).join(''),
+      center: chars[orp] || '',
+      right: chars.slice(orp + 1).join('') + suffix
+    };
+  };
 
-    const left = word.substring(0, orp);
-    const center = word.substring(orp, orp + 1);
-    const right = word.substring(orp + 1);
+  const renderSingleWord = (word: string) => {
+    const { left, center, right } = splitAtORP(word);
 
     return (
       <div className="grid grid-cols-[1fr_auto_1fr] items-baseline w-full px-2 sm:px-4">
@@ -194,13 +544,52 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
     );
   };
 
-  const renderInlineORP = (word: string) => {
-    const len = word.length;
-    const orp = getORPIndex(len);
+  // Lays the document out as real headings and paragraphs for the classic and context views
+  const renderDocument = (paragraphClass: string, renderToken: (token: DocumentToken) => React.ReactNode) => (
+    sections.map((section, si) => (
+      <section key={si}>
+        {section.title && section.paragraphs[0]?.kind !== 'heading' && (
+          <h2 className="text-[10px] font-black uppercase tracking-[0.3em] text-indigo-400 mt-6 mb-4">{section.title}</h2>
+        )}
+        {section.paragraphs.map((p: DocumentParagraph) => (
+          <div 
+            key={p.index} 
+            className={p.kind === 'heading' ? `${paragraphClass} font-black italic text-[1.25em] text-white mt-4` : paragraphClass}
+          >
+            {paragraphTokens(p).map(renderToken)}
+          </div>
+        ))}
+      </section>
+    ))
+  );
 
-    const left = word.substring(0, orp);
-    const center = word.substring(orp, orp + 1);
-    const right = word.substring(orp + 1);
+  // Colour, note and save for the current selection; shown at the foot of the context and classic views
+  const renderHighlightToolbar = () => selection && onHighlightsChange && (
+    <div className="sticky bottom-4 mt-8 bg-slate-950 border border-white/10 rounded-3xl p-5 shadow-2xl max-w-xl mx-auto animate-in slide-in-from-bottom-4 z-50 flex flex-wrap items-center gap-3">
+        <div className="flex gap-2">
+            {HIGHLIGHT_COLORS.map(c => (
+                <button 
+                    key={c.id} 
+                    onClick={() => setHighlightColor(c.id)} 
+                    className={`w-6 h-6 rounded-full ${c.swatch} ${highlightColor === c.id ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-950' : 'opacity-60 hover:opacity-100'}`}
+                    title={c.label}
+                />
+            ))}
+        </div>
+        <input 
+            value={highlightNote}
+            onChange={e => setHighlightNote(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && saveHighlight()}
+            placeholder="Add a note (optional)"
+            className="flex-1 min-w-[10rem] bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+        />
+        <button onClick={saveHighlight} className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2"><Highlighter className="w-3 h-3" /> Highlight</button>
+        <button onClick={() => setSelection(null)} className="p-2 hover:bg-white/10 rounded-xl text-slate-400 transition-colors"><X className="w-4 h-4" /></button>
+    </div>
+  );
+
+  const renderInlineORP = (word: string) => {
+    const { left, center, right } = splitAtORP(word);
 
     return (
       <span className="inline-block">
@@ -219,19 +608,95 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
       <div 
         className="relative w-full max-w-6xl h-[40dvh] sm:h-[60vh] flex-shrink-0 my-auto bg-slate-900/40 backdrop-blur-2xl border border-white/10 rounded-[2rem] sm:rounded-[3rem] shadow-2xl overflow-hidden group transition-all duration-300 hover:border-white/20 hover:shadow-indigo-500/10 flex flex-col"
         onMouseEnter={() => { setIsPlaying(false); setShowContext(true); }}
-        onMouseLeave={() => { setShowContext(false); setDefinition(null); }}
+        onMouseLeave={() => { setShowContext(false); setDefinition(null); setNotFoundWord(null); setSelection(null); }}
       >
          {/* -- STAGE HEADER (HUD) -- */}
          <div className="w-full flex justify-between items-center px-6 sm:px-10 py-4 sm:py-6 border-b border-white/5 bg-black/10 z-20">
             <div className="flex items-center gap-4 sm:gap-6 text-[8px] sm:text-[10px] font-black uppercase tracking-[0.2em] opacity-60">
                <div className="flex items-center gap-2"><Clock className="w-3 h-3 sm:w-4 sm:h-4" /> {timeRemaining}</div>
-               <div className="flex items-center gap-2"><Target className="w-3 h-3 sm:w-4 sm:h-4 text-indigo-500" /> {settings.wpm} WPM</div>
+               {narration.enabled ? (
+                  <div className="flex items-center gap-2" title="Narration sets the pace">
+                     <Volume2 className="w-3 h-3 sm:w-4 sm:h-4 text-indigo-500" />
+                     {narration.rate.toFixed(1)}× Voice
+                  </div>
+               ) : (
+                  <div className="flex items-center gap-2">
+                     {ramp.enabled ? <TrendingUp className="w-3 h-3 sm:w-4 sm:h-4 text-indigo-500" /> : <Target className="w-3 h-3 sm:w-4 sm:h-4 text-indigo-500" />}
+                     {liveWpm} WPM
+                     {ramp.enabled && <span className="text-slate-500">→ {ramp.targetWpm}</span>}
+                  </div>
+               )}
             </div>
-            <div className="text-[8px] sm:text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 opacity-60">
-               Mode: <span className="text-white">{settings.mode.split('-').pop()}</span>
+            {hasNamedSections && currentSectionIndex >= 0 && (
+               <div className="flex items-center gap-2 min-w-0 flex-1 justify-center px-4 text-[8px] sm:text-[10px] font-black uppercase tracking-[0.2em] opacity-60 hover:opacity-100 transition-opacity">
+                  <ListTree className="w-3 h-3 sm:w-4 sm:h-4 shrink-0 text-indigo-500" />
+                  <select 
+                     value={currentSectionIndex}
+                     onChange={(e) => jumpToSection(parseInt(e.target.value))}
+                     className="bg-transparent text-white truncate max-w-[40vw] focus:outline-none cursor-pointer uppercase tracking-[0.2em]"
+                     title="Jump to chapter"
+                  >
+                     {sections.map((s, i) => <option key={i} value={i} className="bg-slate-900 normal-case">{s.title || 'Introduction'}</option>)}
+                  </select>
+               </div>
+            )}
+            <div className="flex items-center gap-4 text-[8px] sm:text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">
+               <button 
+                  onClick={() => showFind ? closeFind() : setShowFind(true)} 
+                  className={`opacity-60 hover:opacity-100 transition-opacity ${showFind ? 'text-white' : ''}`}
+                  title="Find in document (F)"
+               >
+                  <Search className="w-3 h-3 sm:w-4 sm:h-4" />
+               </button>
+               <button 
+                  onClick={toggleBookmark} 
+                  className={`opacity-60 hover:opacity-100 transition-opacity ${bookmarked.has(wordIndex) ? 'text-indigo-400' : ''}`}
+                  title="Bookmark this word (B)"
+               >
+                  <BookmarkIcon className={`w-3 h-3 sm:w-4 sm:h-4 ${bookmarked.has(wordIndex) ? 'fill-current' : ''}`} />
+               </button>
+               <button 
+                  onClick={() => { setShowSummary(prev => !prev); setShowAnnotations(false); }} 
+                  className={`opacity-60 hover:opacity-100 transition-opacity ${showSummary ? 'text-white' : ''}`}
+                  title="Summary"
+               >
+                  <ScrollText className="w-3 h-3 sm:w-4 sm:h-4" />
+               </button>
+               <button 
+                  onClick={() => { setShowAnnotations(prev => !prev); setShowSummary(false); }} 
+                  className={`flex items-center gap-1 opacity-60 hover:opacity-100 transition-opacity ${showAnnotations ? 'text-white' : ''}`}
+                  title="Highlights & bookmarks"
+               >
+                  <Highlighter className="w-3 h-3 sm:w-4 sm:h-4" /> {annotations.length}
+               </button>
+               <span className="opacity-60">Mode: <span className="text-white">{settings.mode.split('-').pop()}</span></span>
             </div>
          </div>
 
+         {/* -- FIND BAR -- */}
+         {showFind && (
+            <div className="w-full flex items-center gap-3 px-6 sm:px-10 py-3 border-b border-white/5 bg-black/20 z-20">
+               <Search className="w-4 h-4 text-indigo-500 shrink-0" />
+               <input 
+                  value={findQuery}
+                  onChange={e => setFindQuery(e.target.value)}
+                  onKeyDown={e => {
+                     if (e.key === 'Enter') stepFind(e.shiftKey ? -1 : 1);
+                     if (e.key === 'Escape') closeFind();
+                  }}
+                  autoFocus
+                  placeholder="Find in document..."
+                  className="flex-1 min-w-0 bg-transparent text-sm font-medium text-white placeholder:text-slate-600 focus:outline-none"
+               />
+               <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 shrink-0">
+                  {findQuery.trim() ? (findHits.length > 0 ? `${findCursor + 1} / ${findHits.length}` : 'No matches') : ''}
+               </span>
+               <button onClick={() => stepFind(-1)} disabled={findHits.length === 0} className="p-1 hover:bg-white/10 rounded-lg text-slate-400 disabled:opacity-30" title="Previous (Shift+Enter)"><ChevronUp className="w-4 h-4" /></button>
+               <button onClick={() => stepFind(1)} disabled={findHits.length === 0} className="p-1 hover:bg-white/10 rounded-lg text-slate-400 disabled:opacity-30" title="Next (Enter)"><ChevronDown className="w-4 h-4" /></button>
+               <button onClick={closeFind} className="p-1 hover:bg-white/10 rounded-lg text-slate-400"><X className="w-4 h-4" /></button>
+            </div>
+         )}
+
          {/* -- MAIN CONTENT AREA -- */}
          <div className="flex-1 relative flex items-center justify-center p-4 sm:p-8 overflow-hidden w-full">
 
@@ -248,25 +713,31 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
              {/* 1. CONTEXT VIEW OVERLAY */}
              {showContext && (
                 <div className="absolute inset-0 w-full h-full overflow-y-auto custom-scrollbar p-6 sm:p-12 animate-in fade-in duration-200 z-30 bg-black/60 backdrop-blur-md">
-                    <div className="flex flex-wrap justify-center gap-x-2 gap-y-3 text-lg sm:text-xl leading-relaxed text-center text-slate-300 font-medium font-lexend">
-                        {words.map((w, i) => {
-                        const isCurrent = i === wordIndex;
+                    <div className="text-lg sm:text-xl leading-relaxed text-slate-300 font-medium font-lexend max-w-4xl mx-auto select-text" onMouseUp={handleSelection}>
+                        {renderDocument('flex flex-wrap gap-x-2 gap-y-3 mb-6', (token) => {
+                        const isCurrent = token.index === wordIndex;
+                        const highlight = highlightByToken.get(token.index);
                         return (
                             <span 
-                                key={i} 
+                                key={token.index} 
+                                data-token={token.index}
                                 ref={isCurrent ? contextActiveRef : null}
-                                onClick={(e) => { e.stopPropagation(); handleDefine(w); }}
-                                className={`cursor-pointer transition-all duration-200 rounded-lg px-2 py-1 ${
+                                onClick={(e) => { e.stopPropagation(); if (window.getSelection()?.isCollapsed) handleDefine(token.text, token.index); }}
+                                title={highlight?.note}
+                                className={`relative cursor-pointer transition-all duration-200 rounded-lg px-2 py-1 ${
                                 isCurrent 
                                 ? 'bg-indigo-600 text-white font-bold scale-110 shadow-lg ring-2 ring-indigo-400 z-10' 
-                                : 'hover:text-white hover:bg-white/10'
-                                }`}
+                                : highlight ? highlightClass(highlight.color) : 'hover:text-white hover:bg-white/10'
+                                } ${findHitTokens.has(token.index) ? 'underline decoration-yellow-400 decoration-2 underline-offset-4' : ''}`}
                             >
-                                {processBionicText(w, settings.boldRatio)}
+                                {bookmarked.has(token.index) && <BookmarkIcon className="absolute -top-2 -left-1 w-3 h-3 text-indigo-400 fill-current" />}
+                                {processBionicText(token.text, settings.boldRatio)}
                             </span>
                         )
                         })}
                     </div>
+
+                    {renderHighlightToolbar()}
                     
                     {/* Definition Card */}
                     {isLoadingDef && (
@@ -279,6 +750,16 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
                             </div>
                         </div>
                     )}
+                    {notFoundWord && !definition && (
+                        <div className="sticky bottom-4 mt-8 flex justify-center z-50">
+                            <div className="bg-slate-900 text-white px-6 py-3 rounded-full flex items-center gap-3 shadow-xl border border-white/10 animate-in slide-in-from-bottom-2">
+                                <span className="text-sm font-bold">No definition found for "{notFoundWord}"</span>
+                                <button onClick={() => setNotFoundWord(null)} className="p-1 hover:bg-white/10 rounded-full text-slate-400 transition-colors">
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    )}
                     {definition && (
                         <div className="sticky bottom-4 mt-8 bg-slate-950 border border-white/10 rounded-3xl p-8 shadow-2xl max-w-xl mx-auto animate-in slide-in-from-bottom-4 z-50">
                             <div className="flex justify-between items-start mb-4">
@@ -295,10 +776,9 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
 
                             {/* Main Definition or Fallback */}
                             <div className="flex items-center gap-2 mb-2">
-                                {definition.source === 'ai' 
-                                   ? <div className="px-2 py-0.5 rounded bg-indigo-500/20 text-indigo-400 text-[10px] font-black uppercase tracking-widest flex items-center gap-1"><BrainCircuit className="w-3 h-3" /> AI Context</div>
-                                   : <div className="px-2 py-0.5 rounded bg-slate-500/20 text-slate-400 text-[10px] font-black uppercase tracking-widest flex items-center gap-1"><Globe className="w-3 h-3" /> Standard</div>
-                                }
+                                {definition.source === 'ai' && <div className="px-2 py-0.5 rounded bg-indigo-500/20 text-indigo-400 text-[10px] font-black uppercase tracking-widest flex items-center gap-1"><BrainCircuit className="w-3 h-3" /> AI Context</div>}
+                                {definition.source === 'offline' && <div className="px-2 py-0.5 rounded bg-emerald-500/20 text-emerald-400 text-[10px] font-black uppercase tracking-widest flex items-center gap-1"><BookOpen className="w-3 h-3" /> Offline Dictionary</div>}
+                                {definition.source === 'api' && <div className="px-2 py-0.5 rounded bg-slate-500/20 text-slate-400 text-[10px] font-black uppercase tracking-widest flex items-center gap-1"><Globe className="w-3 h-3" /> Free Dictionary</div>}
                             </div>
                             
                             <p className="text-slate-200 text-lg leading-relaxed mb-6 font-medium">{definition.definition}</p>
@@ -309,8 +789,8 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
                                 </div>
                             )}
 
-                            {/* ALTERNATIVES FOR CONTEXT DISAMBIGUATION (Standard Mode) */}
-                            {definition.source === 'standard' && definition.alternatives && definition.alternatives.length > 1 && (
+                            {/* ALTERNATIVES FOR CONTEXT DISAMBIGUATION (dictionary providers) */}
+                            {definition.alternatives && definition.alternatives.length > 1 && (
                                 <div className="mt-6 pt-6 border-t border-white/5 space-y-3">
                                     <p className="text-[10px] font-black uppercase text-slate-500 tracking-widest">Other Meanings (Select Context)</p>
                                     <div className="grid grid-cols-1 gap-2 max-h-40 overflow-y-auto custom-scrollbar pr-2">
@@ -331,21 +811,32 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
              {/* 2. CLASSIC MODE */}
              {!showContext && settings.mode === 'classic' && (
                 <div className="absolute inset-0 w-full h-full overflow-y-auto custom-scrollbar p-8 sm:p-14 text-xl sm:text-3xl leading-loose tracking-wide font-medium">
-                    {words.map((w, i) => (
-                        <span 
-                            key={i} 
-                            ref={i === wordIndex ? classicActiveRef : null}
-                            className={`inline-block mr-3 mb-3 px-2 py-1 rounded-xl transition-all duration-200 ${
-                            i === wordIndex 
-                                ? 'text-white bg-indigo-600 font-bold scale-110 shadow-lg' 
-                                : i > wordIndex 
-                                    ? 'text-white/90' 
-                                    : 'text-white/30'
-                            }`}
-                        >
-                            {i === wordIndex ? w : processBionicText(w, settings.boldRatio)}
-                        </span>
-                    ))}
+                    <div className="select-text" onMouseUp={handleSelection}>
+                    {renderDocument('mb-8', (token) => {
+                        const highlight = highlightByToken.get(token.index);
+                        return (
+                            <span 
+                                key={token.index} 
+                                data-token={token.index}
+                                ref={token.index === wordIndex ? classicActiveRef : null}
+                                title={highlight?.note}
+                                className={`relative inline-block mr-3 mb-3 px-2 py-1 rounded-xl transition-all duration-200 ${
+                                token.index === wordIndex 
+                                    ? 'text-white bg-indigo-600 font-bold scale-110 shadow-lg' 
+                                    : highlight
+                                        ? highlightClass(highlight.color)
+                                        : token.index > wordIndex 
+                                            ? 'text-white/90' 
+                                            : 'text-white/30'
+                                } ${findHitTokens.has(token.index) ? 'underline decoration-yellow-400 decoration-2 underline-offset-4' : ''}`}
+                            >
+                                {bookmarked.has(token.index) && <BookmarkIcon className="absolute -top-2 -left-1 w-4 h-4 text-indigo-400 fill-current" />}
+                                {token.index === wordIndex ? token.text : processBionicText(token.text, settings.boldRatio)}
+                            </span>
+                        );
+                    })}
+                    </div>
+                    {renderHighlightToolbar()}
                 </div>
              )}
 
@@ -405,14 +896,120 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
                     </div>
                  </div>
              )}
+
+             {/* Summary Side Panel */}
+             {showSummary && (
+                <div className="absolute top-0 right-0 bottom-0 w-full sm:w-96 z-40 bg-slate-950/95 backdrop-blur-xl border-l border-white/10 flex flex-col animate-in slide-in-from-right duration-200">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-white/5">
+                        <h3 className="text-[10px] font-black uppercase tracking-widest text-white flex items-center gap-2"><ScrollText className="w-4 h-4 text-indigo-500" /> Before You Read</h3>
+                        <button onClick={() => setShowSummary(false)} className="p-1 hover:bg-white/10 rounded-lg text-slate-500"><X className="w-4 h-4" /></button>
+                    </div>
+                    <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+                        {summary ? (
+                            <>
+                                <div className="bg-indigo-600/10 border border-indigo-500/20 rounded-2xl p-4">
+                                    <div className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-2">TL;DR</div>
+                                    <p className="text-sm text-slate-200 leading-relaxed">{summary.overview || 'This text is too short to summarize.'}</p>
+                                </div>
+                                {summary.sections.length > 1 && (
+                                    <div className="space-y-2">
+                                        {summary.sections.map((section, i) => (
+                                            <button 
+                                                key={i} 
+                                                onClick={() => jumpToSummary(section.offset)} 
+                                                className={`w-full text-left border rounded-2xl p-4 transition-colors ${i === currentSummaryIndex ? 'bg-white/10 border-indigo-500/30' : 'bg-white/5 hover:bg-white/10 border-white/5'}`}
+                                            >
+                                                <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1 truncate">{section.title}</div>
+                                                <p className="text-sm text-slate-300">{section.summary}</p>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </>
+                        ) : (
+                            <p className="text-sm text-slate-500 font-medium p-2">No summary of this text yet.</p>
+                        )}
+                    </div>
+                    {onSummarize && (
+                        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-white/5 text-[10px] font-black uppercase tracking-widest">
+                            {summaryProgress ? (
+                                <>
+                                    <span className="text-indigo-300 flex items-center gap-2"><Loader2 className="w-3 h-3 animate-spin" /> Summarizing {summaryProgress.done}/{summaryProgress.total}</span>
+                                    <button onClick={onCancelSummary} className="p-1 rounded-lg hover:bg-white/10 text-slate-500 hover:text-white transition-colors" title="Cancel summary"><X className="w-4 h-4" /></button>
+                                </>
+                            ) : (
+                                <>
+                                    <span className="text-slate-500 flex items-center gap-2">
+                                        {summary?.source === 'ai' ? <><BrainCircuit className="w-3 h-3 text-indigo-400" /> AI Summary</> : summary ? <><BookOpen className="w-3 h-3" /> Key Sentences</> : null}
+                                    </span>
+                                    <button onClick={onSummarize} className="px-3 py-1.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white transition-all flex items-center gap-1.5">
+                                        <Sparkles className="w-3 h-3" /> {summary ? 'Summarize Again' : 'Summarize'}
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )}
+                </div>
+             )}
+
+             {/* Annotations Side Panel */}
+             {showAnnotations && (
+                <div className="absolute top-0 right-0 bottom-0 w-full sm:w-96 z-40 bg-slate-950/95 backdrop-blur-xl border-l border-white/10 flex flex-col animate-in slide-in-from-right duration-200">
+                    <div className="flex justify-between items-center px-6 py-4 border-b border-white/5">
+                        <h3 className="text-[10px] font-black uppercase tracking-widest text-white flex items-center gap-2"><Highlighter className="w-4 h-4 text-indigo-500" /> Highlights & Bookmarks</h3>
+                        <button onClick={() => setShowAnnotations(false)} className="p-1 hover:bg-white/10 rounded-lg text-slate-500"><X className="w-4 h-4" /></button>
+                    </div>
+                    <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+                        {annotations.length === 0 && (
+                            <p className="text-sm text-slate-500 font-medium p-2">Select words in the context or classic view to highlight them, or press B to bookmark the current word.</p>
+                        )}
+                        {annotations.map(entry => {
+                            const id = entry.kind === 'highlight' ? entry.highlight.id : entry.bookmark.id;
+                            const remove = () => entry.kind === 'highlight'
+                                ? onHighlightsChange?.(highlights.filter(h => h.id !== id))
+                                : onBookmarksChange?.(bookmarks.filter(b => b.id !== id));
+                            return (
+                                <div key={`${entry.kind}-${id}`} className="group flex gap-3 items-start bg-white/5 hover:bg-white/10 border border-white/5 rounded-2xl p-4 transition-colors">
+                                    <button onClick={() => jumpToAnnotation(entry.wordIndex)} className="flex-1 min-w-0 text-left">
+                                        <div className="flex items-center gap-2 mb-1 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                                            {entry.kind === 'highlight'
+                                                ? <span className={`w-2 h-2 rounded-full ${HIGHLIGHT_COLORS.find(c => c.id === entry.highlight.color)?.swatch}`} />
+                                                : <BookmarkIcon className="w-3 h-3 text-indigo-400 fill-current" />}
+                                            {Math.round(entry.wordIndex / words.length * 100)}%
+                                        </div>
+                                        <p className="text-sm text-slate-200 line-clamp-3">{entry.kind === 'highlight' ? entry.highlight.text : `${entry.bookmark.text}…`}</p>
+                                        {entry.kind === 'highlight' && entry.highlight.note && (
+                                            <p className="text-xs text-slate-400 italic mt-2">{entry.highlight.note}</p>
+                                        )}
+                                    </button>
+                                    <button onClick={remove} className="p-1 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all" title="Delete"><Trash2 className="w-4 h-4" /></button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+             )}
          </div>
       </div>
 
+      {/* Comprehension quiz at the end of a section or the document */}
+      {pendingQuiz && (
+        <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center p-4 overflow-y-auto custom-scrollbar animate-in fade-in duration-200">
+          <QuizPanel 
+            document={doc}
+            from={pendingQuiz.from}
+            to={pendingQuiz.to}
+            title={pendingQuiz.title}
+            onComplete={finishQuiz}
+          />
+        </div>
+      )}
+
       {/* Footer Controls */}
       {/* Added safe-area padding for mobile home bar */}
       <div className="mt-auto flex flex-col items-center gap-8 w-full max-w-2xl px-10 pb-12 z-20 pb-[env(safe-area-inset-bottom)]">
         <div className="flex items-center gap-6 sm:gap-10">
-          <button onClick={() => setWordIndex(Math.max(0, wordIndex - 50))} className="p-4 text-slate-600 hover:text-white transition-all hover:scale-110"><Rewind className="w-6 h-6 sm:w-8 sm:h-8" /></button>
+          <button onClick={() => seek(wordIndex - 50)} className="p-4 text-slate-600 hover:text-white transition-all hover:scale-110"><Rewind className="w-6 h-6 sm:w-8 sm:h-8" /></button>
           
           <button 
             onClick={() => setIsPlaying(!isPlaying)}
@@ -421,13 +1018,13 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
             {isPlaying ? <Pause className="w-8 h-8 sm:w-10 sm:h-10 fill-current" /> : <Play className="w-8 h-8 sm:w-10 sm:h-10 fill-current ml-2" />}
           </button>
 
-          <button onClick={() => setWordIndex(Math.min(words.length - 1, wordIndex + 50))} className="p-4 text-slate-600 hover:text-white transition-all hover:scale-110"><FastForward className="w-6 h-6 sm:w-8 sm:h-8" /></button>
+          <button onClick={() => seek(wordIndex + 50)} className="p-4 text-slate-600 hover:text-white transition-all hover:scale-110"><FastForward className="w-6 h-6 sm:w-8 sm:h-8" /></button>
         </div>
 
         <div className="w-full space-y-4">
           <div className="flex justify-between items-end px-2">
              <div className="flex gap-4 sm:gap-6">
-               <button onClick={() => { setWordIndex(0); setIsPlaying(false); }} className="text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-white transition-colors flex items-center gap-2 hover:bg-white/10 px-3 py-1 rounded-full"><RotateCcw className="w-3 h-3" /> Reset</button>
+               <button onClick={() => { seek(0); setIsPlaying(false); }} className="text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-white transition-colors flex items-center gap-2 hover:bg-white/10 px-3 py-1 rounded-full"><RotateCcw className="w-3 h-3" /> Reset</button>
                <span className="hidden sm:flex text-[10px] font-black uppercase tracking-widest text-indigo-500 items-center gap-2"><span className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse" /> Hover to Pause & Context</span>
              </div>
              <div className="text-[10px] font-black text-slate-500 tracking-[0.2em]">
@@ -436,7 +1033,7 @@ const RSVPReader: React.FC<RSVPReaderProps> = ({
           </div>
           <div className="relative w-full h-2 bg-white/10 rounded-full overflow-hidden group cursor-pointer">
              <div className="h-full bg-indigo-600 transition-all duration-100 rounded-full shadow-[0_0_15px_rgba(79,70,229,0.6)]" style={{ width: `${(wordIndex / words.length) * 100}%` }} />
-             <input type="range" min="0" max={words.length - 1} value={wordIndex} onChange={(e) => setWordIndex(parseInt(e.target.value))} className="absolute inset-0 opacity-0 w-full h-full cursor-pointer z-10" />
+             <input type="range" min="0" max={words.length - 1} value={wordIndex} onChange={(e) => seek(parseInt(e.target.value))} className="absolute inset-0 opacity-0 w-full h-full cursor-pointer z-10" />
           </div>
         </div>
       </div>
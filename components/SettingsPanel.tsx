@@ -1,24 +1,88 @@
 
-import React from 'react';
-import { ReadingSettings, Theme, ReadingMode } from '../types';
+import React, { useState, useEffect } from 'react';
+import { ReadingSettings, Theme, ReadingMode, SettingsProfile, PacingSettings, SpeedRamp, RampCurve, LlmSettings, LlmProviderId, NarrationSettings } from '../types';
 import { 
   Type, Moon, Sun, Coffee, Zap, Sliders, 
   Layers, ArrowRightLeft, AlignLeft, Bold, Target,
-  BrainCircuit, BookOpen, Key
+  BrainCircuit, BookOpen, Key, Pin, Save, Trash2, User, Gauge, TrendingUp, ListChecks, Sparkles, Server, DownloadCloud, Volume2
 } from 'lucide-react';
+import { applyProfile, describeProfile, DEFAULT_SETTINGS } from '../utils/settingsProfiles';
+import { DEFAULT_MODELS } from '../services/llmProvider';
+import { browserSpeechEngine, SpeechVoice } from '../services/speechService';
 
 interface SettingsPanelProps {
   settings: ReadingSettings;
   setSettings: (settings: ReadingSettings) => void;
   hasApiKey: boolean;
   onConnectAi: () => void;
+  llmSettings: LlmSettings;
+  onLlmSettingsChange: (settings: LlmSettings) => void;
+  profiles: SettingsProfile[];
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (id: string) => void;
+  // Only provided while a document is open
+  pinnedProfileId?: string;
+  onPinProfile?: (profileId: string | undefined) => void;
 }
 
-const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, setSettings, hasApiKey, onConnectAi }) => {
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ 
+  settings, setSettings, hasApiKey, onConnectAi, llmSettings, onLlmSettingsChange,
+  profiles, onSaveProfile, onDeleteProfile, pinnedProfileId, onPinProfile 
+}) => {
+  const [profileName, setProfileName] = useState('');
+  const [voices, setVoices] = useState<SpeechVoice[]>(() => browserSpeechEngine.voices());
+
+  useEffect(() => browserSpeechEngine.onVoicesChanged(() => setVoices(browserSpeechEngine.voices())), []);
+
+  const handleSaveProfile = () => {
+    if (!profileName.trim()) return;
+    onSaveProfile(profileName.trim());
+    setProfileName('');
+  };
+
   const updateSetting = (key: keyof ReadingSettings, value: any) => {
     setSettings({ ...settings, [key]: value });
   };
 
+  const updatePacing = (key: keyof PacingSettings, value: number) => {
+    setSettings({ ...settings, pacing: { ...settings.pacing, [key]: value } });
+  };
+
+  const updateRamp = (updates: Partial<SpeedRamp>) => {
+    setSettings({ ...settings, ramp: { ...settings.ramp, ...updates } });
+  };
+
+  const updateNarration = (updates: Partial<NarrationSettings>) => {
+    setSettings({ ...settings, narration: { ...settings.narration, ...updates } });
+  };
+
+  const updateLlm = (updates: Partial<LlmSettings>) => {
+    onLlmSettingsChange({ ...llmSettings, ...updates });
+  };
+
+  const llmProviders: { id: LlmProviderId; label: string; icon: any }[] = [
+    { id: 'gemini', label: 'Gemini', icon: Sparkles },
+    { id: 'openai', label: 'OpenAI-Compatible', icon: Server },
+  ];
+
+  const rampCurves: { id: RampCurve; label: string }[] = [
+    { id: 'linear', label: 'Linear' },
+    { id: 'stepped', label: 'Stepped' },
+    { id: 'sprint', label: 'Sprints' },
+  ];
+
+  const pacingFactors: { key: keyof PacingSettings; label: string; max: number }[] = [
+    { key: 'sentenceEnd', label: 'Sentence End', max: 4 },
+    { key: 'clause', label: 'Clause Break', max: 3 },
+    { key: 'paragraph', label: 'Paragraph Break', max: 4 },
+    { key: 'heading', label: 'Heading', max: 4 },
+    { key: 'frequency', label: 'Rare Words', max: 3 },
+    { key: 'syllables', label: 'Per Extra Syllable', max: 1.5 },
+    { key: 'numbers', label: 'Numbers', max: 3 },
+    { key: 'properNouns', label: 'Proper Nouns', max: 2 },
+    { key: 'novelty', label: 'First Sighting', max: 2 },
+  ];
+
   const themes: { id: Theme; icon: any; label: string }[] = [
     { id: 'dark', icon: Moon, label: 'Dark' },
     { id: 'sepia', icon: Coffee, label: 'Sepia' },
@@ -32,12 +96,6 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, setSettings, ha
     { id: 'classic', label: 'Classic', icon: AlignLeft },
   ];
 
-  const drills = [
-      { label: 'Subvocalization Killer', config: { wpm: 900, mode: 'rsvp-single' } },
-      { label: 'Peripheral Expansion', config: { wpm: 500, mode: 'rsvp-chunk', chunkSize: 3 } },
-      { label: 'Anti-Regression Pacer', config: { wpm: 350, mode: 'classic' } },
-  ];
-
   return (
     <div className="bg-slate-900 border border-white/10 rounded-[3rem] p-10 shadow-3xl space-y-10 max-h-[85vh] overflow-y-auto custom-scrollbar">
       <div className="flex items-center justify-between border-b border-white/5 pb-6">
@@ -60,21 +118,105 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, setSettings, ha
         </button>
       </div>
 
-      {/* Drill Presets */}
+      {/* Profiles: built-in training drills plus user presets */}
       <div className="space-y-4">
-        <label className="text-[10px] font-black text-indigo-500 uppercase tracking-[0.3em]">Training Presets</label>
+        <label className="text-[10px] font-black text-indigo-500 uppercase tracking-[0.3em]">Profiles & Training Presets</label>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-          {drills.map((drill) => (
+          {profiles.map((profile) => (
+            <div key={profile.id} className={`relative group rounded-2xl border transition-all ${pinnedProfileId === profile.id ? 'border-indigo-500 bg-indigo-600/10' : 'border-white/5 bg-white/5 hover:bg-white/10 hover:border-white/20'}`}>
+              <button
+                onClick={() => setSettings(applyProfile(settings, profile))}
+                className="w-full py-4 px-4 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white flex flex-col items-center gap-2 text-center"
+              >
+                {profile.builtIn ? <Target className="w-4 h-4" /> : <User className="w-4 h-4" />}
+                {profile.name}
+                <span className="text-[8px] font-bold text-slate-600 normal-case tracking-normal">{describeProfile(profile)}</span>
+              </button>
+              <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {onPinProfile && (
+                  <button 
+                    onClick={() => onPinProfile(pinnedProfileId === profile.id ? undefined : profile.id)}
+                    className={`p-1.5 rounded-lg hover:bg-white/10 ${pinnedProfileId === profile.id ? 'text-indigo-400' : 'text-slate-500'}`}
+                    title={pinnedProfileId === profile.id ? 'Unpin from document' : 'Pin to this document'}
+                  >
+                    <Pin className="w-3 h-3" />
+                  </button>
+                )}
+                {!profile.builtIn && (
+                  <button onClick={() => onDeleteProfile(profile.id)} className="p-1.5 rounded-lg text-red-500 hover:bg-red-500/10" title="Delete profile">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              {pinnedProfileId === profile.id && <Pin className="absolute top-2 left-2 w-3 h-3 text-indigo-400 group-hover:opacity-0" />}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <input 
+            type="text"
+            placeholder="Save current settings as..."
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveProfile()}
+            className="flex-1 bg-black border border-white/5 rounded-2xl px-4 py-3 text-xs font-medium text-white placeholder:text-slate-600 focus:outline-none focus:border-indigo-500"
+          />
+          <button onClick={handleSaveProfile} disabled={!profileName.trim()} className="px-4 rounded-2xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-20 text-white text-[10px] font-black uppercase tracking-widest flex items-center gap-2 transition-all">
+            <Save className="w-3 h-3" /> Save
+          </button>
+        </div>
+      </div>
+
+      {/* AI Provider */}
+      <div className="space-y-4">
+        <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em]">AI Provider</label>
+        <div className="grid grid-cols-2 gap-3">
+          {llmProviders.map((provider) => (
             <button
-              key={drill.label}
-              onClick={() => setSettings({ ...settings, ...drill.config } as ReadingSettings)}
-              className="py-4 px-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all bg-white/5 border border-white/5 text-slate-400 hover:bg-white/10 hover:text-white hover:border-white/20 flex flex-col items-center gap-2 text-center"
+              key={provider.id}
+              onClick={() => updateLlm({ provider: provider.id })}
+              className={`py-4 px-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all flex flex-col items-center gap-2 border ${
+                llmSettings.provider === provider.id
+                ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg'
+                : 'bg-black border-white/5 text-slate-500'
+              }`}
             >
-              <Target className="w-4 h-4" />
-              {drill.label}
+              <provider.icon className="w-4 h-4" />
+              {provider.label}
             </button>
           ))}
         </div>
+        {llmSettings.provider === 'openai' && (
+          <input 
+            type="url"
+            placeholder="Base URL, e.g. http://localhost:11434/v1"
+            value={llmSettings.baseUrl}
+            onChange={(e) => updateLlm({ baseUrl: e.target.value })}
+            className="w-full bg-black border border-white/5 rounded-2xl px-4 py-3 text-xs font-medium text-white placeholder:text-slate-600 focus:outline-none focus:border-indigo-500"
+          />
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <input 
+            type="text"
+            placeholder={`Model (${DEFAULT_MODELS[llmSettings.provider]})`}
+            value={llmSettings.model}
+            onChange={(e) => updateLlm({ model: e.target.value })}
+            className="bg-black border border-white/5 rounded-2xl px-4 py-3 text-xs font-medium text-white placeholder:text-slate-600 focus:outline-none focus:border-indigo-500"
+          />
+          <input 
+            type="password"
+            placeholder={llmSettings.provider === 'gemini' ? 'API key (optional)' : 'API key (if required)'}
+            value={llmSettings.apiKey}
+            onChange={(e) => updateLlm({ apiKey: e.target.value })}
+            autoComplete="off"
+            className="bg-black border border-white/5 rounded-2xl px-4 py-3 text-xs font-medium text-white placeholder:text-slate-600 focus:outline-none focus:border-indigo-500"
+          />
+        </div>
+        <p className="text-[10px] text-slate-500 font-medium px-2">
+            * {llmSettings.provider === 'gemini' 
+              ? 'Leave the key empty to use the connected AI Studio key.' 
+              : 'Requests go straight to this server. The key is stored on this device only and is never included in backups.'}
+        </p>
       </div>
 
       {/* Dictionary Engine */}
@@ -105,10 +247,41 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, setSettings, ha
           </button>
         </div>
         <p className="text-[10px] text-slate-500 font-medium px-2">
-            * AI Mode requires API key. Standard mode automatically handles fallback.
+            * Standard checks the built-in offline dictionary, then the free online one, and asks AI only as a last resort. AI Context asks the model first and falls back to the dictionaries.
+        </p>
+      </div>
+
+      {/* Definition Prefetch */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] flex items-center gap-2"><DownloadCloud className="w-3 h-3" /> Prefetch Definitions</label>
+          <button 
+            onClick={() => updateSetting('prefetchDefinitions', !settings.prefetchDefinitions)}
+            className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${
+              settings.prefetchDefinitions ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-black border-white/5 text-slate-500'
+            }`}
+          >
+            {settings.prefetchDefinitions ? 'On' : 'Off'}
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-500 font-medium px-2">
+            * Looks up rare words ahead of you in the free dictionary, so they open instantly. AI definitions are fetched on demand.
         </p>
       </div>
 
+      {/* Comprehension Quizzes */}
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] flex items-center gap-2"><ListChecks className="w-3 h-3" /> Quiz After Sections</label>
+        <button 
+          onClick={() => updateSetting('offerQuizzes', !settings.offerQuizzes)}
+          className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${
+            settings.offerQuizzes ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-black border-white/5 text-slate-500'
+          }`}
+        >
+          {settings.offerQuizzes ? 'On' : 'Off'}
+        </button>
+      </div>
+
       {/* Reading Mode */}
       <div className="space-y-4">
         <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em]">Processing Mode</label>
@@ -147,6 +320,106 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, setSettings, ha
         </div>
       </div>
 
+      {/* Speed Ramp: training mode that changes speed while reading */}
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] flex items-center gap-2"><TrendingUp className="w-3 h-3" /> Speed Ramp</label>
+          <button 
+            onClick={() => updateRamp({ enabled: !settings.ramp.enabled })}
+            className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${
+              settings.ramp.enabled ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-black border-white/5 text-slate-500'
+            }`}
+          >
+            {settings.ramp.enabled ? 'On' : 'Off'}
+          </button>
+        </div>
+        {settings.ramp.enabled && (
+          <div className="space-y-4 p-6 bg-black border border-white/5 rounded-[2rem]">
+            <div className="grid grid-cols-3 gap-3">
+              {rampCurves.map((curve) => (
+                <button
+                  key={curve.id}
+                  onClick={() => updateRamp({ curve: curve.id })}
+                  className={`py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all border ${
+                    settings.ramp.curve === curve.id ? 'bg-white text-black border-white' : 'bg-black border-white/5 text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {curve.label}
+                </button>
+              ))}
+            </div>
+            {([
+              { key: 'startWpm', label: 'Start', unit: 'WPM', min: 100, max: 1500, step: 10 },
+              { key: 'targetWpm', label: 'Target', unit: 'WPM', min: 100, max: 1500, step: 10 },
+              { key: 'rampWords', label: 'Ramp Length', unit: 'words', min: 100, max: 10000, step: 100 },
+              ...(settings.ramp.curve !== 'linear' ? [{ key: 'intervalWords', label: settings.ramp.curve === 'sprint' ? 'Sprint Length' : 'Step Every', unit: 'words', min: 10, max: 1000, step: 10 }] : []),
+            ] as { key: 'startWpm' | 'targetWpm' | 'rampWords' | 'intervalWords'; label: string; unit: string; min: number; max: number; step: number }[]).map((field) => (
+              <div key={field.key} className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{field.label}</span>
+                  <span className="text-xs font-black text-white">{settings.ramp[field.key]} <span className="text-slate-600">{field.unit}</span></span>
+                </div>
+                <input 
+                  type="range" min={field.min} max={field.max} step={field.step} value={settings.ramp[field.key]} 
+                  onChange={(e) => updateRamp({ [field.key]: parseInt(e.target.value) })}
+                  className="w-full h-1.5 bg-slate-800 rounded-full appearance-none cursor-pointer accent-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Narration: reads aloud, with the voice setting the pace */}
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] flex items-center gap-2"><Volume2 className="w-3 h-3" /> Narration</label>
+          <button 
+            onClick={() => updateNarration({ enabled: !settings.narration.enabled })}
+            disabled={!browserSpeechEngine.available}
+            className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all disabled:opacity-40 ${
+              settings.narration.enabled ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-black border-white/5 text-slate-500'
+            }`}
+          >
+            {settings.narration.enabled ? 'On' : 'Off'}
+          </button>
+        </div>
+        {!browserSpeechEngine.available && (
+          <p className="text-[10px] text-slate-500 font-medium px-2">* This browser can't read aloud.</p>
+        )}
+        {settings.narration.enabled && (
+          <div className="space-y-4 p-6 bg-black border border-white/5 rounded-[2rem]">
+            <select 
+              value={settings.narration.voiceId}
+              onChange={(e) => updateNarration({ voiceId: e.target.value })}
+              className="w-full bg-black border border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-white focus:outline-none focus:border-indigo-500"
+            >
+              <option value="">Default Voice</option>
+              {voices.map(voice => <option key={voice.id} value={voice.id}>{voice.name} ({voice.lang})</option>)}
+            </select>
+            {([
+              { key: 'rate', label: 'Rate', min: 0.5, max: 2 },
+              { key: 'pitch', label: 'Pitch', min: 0, max: 2 },
+            ] as { key: 'rate' | 'pitch'; label: string; min: number; max: number }[]).map((field) => (
+              <div key={field.key} className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{field.label}</span>
+                  <span className="text-xs font-black text-white">{settings.narration[field.key].toFixed(1)}×</span>
+                </div>
+                <input 
+                  type="range" min={field.min} max={field.max} step="0.1" value={settings.narration[field.key]} 
+                  onChange={(e) => updateNarration({ [field.key]: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-slate-800 rounded-full appearance-none cursor-pointer accent-indigo-500"
+                />
+              </div>
+            ))}
+            <p className="text-[10px] text-slate-500 font-medium">
+                * The voice sets the pace instead of the speed above. Words follow along in every mode.
+            </p>
+          </div>
+        )}
+      </div>
+
       {settings.mode === 'rsvp-chunk' && (
         <div className="space-y-4">
           <div className="flex justify-between items-center">
@@ -161,6 +434,37 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, setSettings, ha
         </div>
       )}
 
+      {/* Adaptive Pacing: how much longer each kind of token stays on screen */}
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] flex items-center gap-2"><Gauge className="w-3 h-3" /> Adaptive Pacing</label>
+          <button 
+            onClick={() => updateSetting('pacing', DEFAULT_SETTINGS.pacing)}
+            className="text-[10px] font-black uppercase tracking-widest text-slate-600 hover:text-white transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+          {pacingFactors.map((factor) => (
+            <div key={factor.key} className="space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{factor.label}</span>
+                <span className="text-xs font-black text-white">{settings.pacing[factor.key] === 1 ? 'Off' : `×${settings.pacing[factor.key].toFixed(2)}`}</span>
+              </div>
+              <input 
+                type="range" min="1" max={factor.max} step="0.05" value={settings.pacing[factor.key]} 
+                onChange={(e) => updatePacing(factor.key, parseFloat(e.target.value))}
+                className="w-full h-1.5 bg-slate-800 rounded-full appearance-none cursor-pointer accent-indigo-500"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500 font-medium px-2">
+            * Time is shifted between words; the average speed stays at your target WPM.
+        </p>
+      </div>
+
       {/* Typography */}
       <div className="grid grid-cols-2 gap-8">
         <div className="space-y-4">
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Sparkles, X, Wand2 } from 'lucide-react';
+import { TransformOptions, TransformPresetId } from '../types';
+import { TRANSFORM_PRESETS, transformProblem } from '../utils/transformPresets';
+
+interface TransformMenuProps {
+  options: TransformOptions;
+  onOptionsChange: (options: TransformOptions) => void;
+  onRun: (presetId: TransformPresetId) => void;
+  onClose: () => void;
+}
+
+const TransformMenu: React.FC<TransformMenuProps> = ({ options, onOptionsChange, onRun, onClose }) => (
+  <div className="w-full max-w-xl max-h-[90vh] overflow-y-auto custom-scrollbar bg-slate-900 border border-white/10 rounded-[3rem] p-8 md:p-10 shadow-3xl space-y-6">
+    <div className="flex justify-between items-start">
+      <div>
+        <h3 className="font-black text-white text-xl tracking-tighter uppercase italic flex items-center gap-3"><Wand2 className="w-5 h-5 text-indigo-400" /> Transform</h3>
+        <p className="text-slate-500 text-sm font-medium mt-2">The result is saved as a new version; the original is always kept.</p>
+      </div>
+      <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl text-slate-400"><X className="w-5 h-5" /></button>
+    </div>
+
+    <ul className="space-y-2">
+      {TRANSFORM_PRESETS.map(preset => {
+        const problem = transformProblem(preset, options);
+        return (
+          <li key={preset.id} className="px-4 py-3 rounded-2xl border bg-white/5 border-white/5 space-y-3">
+            <div className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-bold text-white">{preset.label}</div>
+                <div className="text-xs text-slate-500 mt-0.5">{preset.description}</div>
+              </div>
+              <button
+                onClick={() => onRun(preset.id)}
+                disabled={!!problem}
+                title={problem || undefined}
+                className="px-3 py-1.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-[10px] font-black uppercase tracking-widest text-white transition-all disabled:opacity-40 flex items-center gap-1.5 shrink-0"
+              >
+                <Sparkles className="w-3 h-3" /> Run
+              </button>
+            </div>
+            {preset.id === 'grade-level' && (
+              <label className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                Grade
+                <input
+                  type="range"
+                  min={1}
+                  max={12}
+                  value={options.gradeLevel}
+                  onChange={e => onOptionsChange({ ...options, gradeLevel: parseInt(e.target.value) })}
+                  className="flex-1 accent-indigo-500"
+                />
+                <span className="w-6 text-right text-white">{options.gradeLevel}</span>
+              </label>
+            )}
+            {preset.id === 'custom' && (
+              <textarea
+                value={options.customPrompt}
+                onChange={e => onOptionsChange({ ...options, customPrompt: e.target.value })}
+                placeholder="e.g. Rewrite as a dialogue between a teacher and a student"
+                rows={3}
+                className="w-full bg-black border border-white/10 focus:border-indigo-500 rounded-xl px-3 py-2 text-sm text-white outline-none resize-none"
+              />
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+export default TransformMenu;
@@ -0,0 +1,175 @@
+import React, { useState, useMemo } from 'react';
+import { History, X, Edit2, Check, Trash2, BookOpen } from 'lucide-react';
+import { LibraryItem, DocumentVersion } from '../types';
+import { versionDocument } from '../utils/versions';
+import { diffVersions, DiffKind } from '../utils/versionDiff';
+
+interface VersionHistoryProps {
+  item: LibraryItem;
+  busy: boolean; // A transformation is writing a new version, so switching would race it
+  onSwitch: (versionId: string) => void;
+  onRename: (versionId: string, label: string) => void;
+  onDelete: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const ROW_STYLES: Record<DiffKind, { left: string; right: string }> = {
+  same: { left: 'border-transparent text-slate-500', right: 'border-transparent text-slate-500' },
+  changed: { left: 'bg-amber-500/5 border-amber-500/20 text-slate-300', right: 'bg-amber-500/5 border-amber-500/20 text-slate-200' },
+  removed: { left: 'bg-red-500/10 border-red-500/20 text-red-200', right: '' },
+  added: { left: '', right: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-200' }
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ item, busy, onSwitch, onRename, onDelete, onClose }) => {
+  const versions = item.versions || [];
+  const original = versions.find(v => v.kind === 'original') || versions[0];
+  const [leftId, setLeftId] = useState(original?.id);
+  const [rightId, setRightId] = useState(item.activeVersionId !== original?.id ? item.activeVersionId : versions[versions.length - 1]?.id);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(true);
+
+  const left = versions.find(v => v.id === leftId);
+  const right = versions.find(v => v.id === rightId);
+
+  // The showing version is already parsed; the others are parsed on demand
+  const documentOf = (version: DocumentVersion) => version.id === item.activeVersionId ? item.document : versionDocument(version);
+
+  const diff = useMemo(() => {
+    if (!left || !right) return null;
+    return diffVersions(
+      { content: left.content, document: documentOf(left) },
+      { content: right.content, document: documentOf(right) }
+    );
+  }, [left, right, item.activeVersionId, item.document]);
+
+  const counts = useMemo(() => {
+    const result: Record<DiffKind, number> = { same: 0, changed: 0, added: 0, removed: 0 };
+    diff?.rows.forEach(row => { result[row.kind]++; });
+    return result;
+  }, [diff]);
+
+  const saveLabel = (id: string) => {
+    if (labelDraft.trim()) onRename(id, labelDraft.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-full max-w-6xl max-h-[90vh] flex flex-col bg-slate-900 border border-white/10 rounded-[3rem] p-8 md:p-10 shadow-3xl gap-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="font-black text-white text-xl tracking-tighter uppercase italic flex items-center gap-3"><History className="w-5 h-5 text-indigo-400" /> Version History</h3>
+          <p className="text-slate-500 text-sm font-medium mt-2 truncate">{item.title}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl text-slate-400"><X className="w-5 h-5" /></button>
+      </div>
+
+      <ul className="space-y-2 max-h-56 overflow-y-auto custom-scrollbar pr-2 shrink-0">
+        {[...versions].sort((a, b) => b.date - a.date).map(version => {
+          const active = version.id === item.activeVersionId;
+          return (
+            <li key={version.id} className={`flex items-center gap-3 px-4 py-3 rounded-2xl border ${active ? 'bg-indigo-600/10 border-indigo-500/30' : 'bg-white/5 border-white/5'}`}>
+              <div className="flex gap-1 shrink-0">
+                {([['A', leftId, setLeftId], ['B', rightId, setRightId]] as const).map(([side, selected, select]) => (
+                  <button
+                    key={side}
+                    onClick={() => select(version.id)}
+                    className={`w-7 h-7 rounded-lg text-[10px] font-black transition-all ${selected === version.id ? 'bg-indigo-600 text-white' : 'bg-black text-slate-500 hover:text-white'}`}
+                    title={`Compare as ${side}`}
+                  >
+                    {side}
+                  </button>
+                ))}
+              </div>
+              <div className="flex-1 min-w-0">
+                {editingId === version.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={labelDraft}
+                      onChange={e => setLabelDraft(e.target.value)}
+                      onKeyDown={e => { if (e.key === 'Enter') saveLabel(version.id); if (e.key === 'Escape') setEditingId(null); }}
+                      className="flex-1 bg-black border border-indigo-500 rounded-xl px-3 py-1 text-sm font-bold text-white outline-none"
+                      autoFocus
+                    />
+                    <button onClick={() => saveLabel(version.id)} className="p-1.5 bg-indigo-600 rounded-lg text-white"><Check className="w-3.5 h-3.5" /></button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-bold text-white truncate">{version.label}</span>
+                    <button onClick={() => { setEditingId(version.id); setLabelDraft(version.label); }} className="p-1 text-slate-600 hover:text-indigo-400 transition-colors" title="Rename">
+                      <Edit2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+                <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mt-1">
+                  {version.kind === 'original' ? 'Original' : 'AI'} · {new Date(version.date).toLocaleString()} · {version.wordCount.toLocaleString()} words
+                </div>
+              </div>
+              {active ? (
+                <span className="px-3 py-1 rounded-full bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest">Reading</span>
+              ) : (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onSwitch(version.id)}
+                    disabled={busy}
+                    className="px-3 py-1.5 rounded-xl bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-40 flex items-center gap-1.5"
+                  >
+                    <BookOpen className="w-3 h-3" /> Read
+                  </button>
+                  {version.kind !== 'original' && (
+                    <button onClick={() => onDelete(version.id)} disabled={busy} className="p-2 text-slate-600 hover:text-red-400 transition-colors disabled:opacity-40" title="Delete version">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {diff && left && right && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 shrink-0">
+            <div className="flex gap-4 text-[10px] font-black uppercase tracking-widest">
+              <span className="text-amber-400">{counts.changed} changed</span>
+              <span className="text-emerald-400">{counts.added} added</span>
+              <span className="text-red-400">{counts.removed} removed</span>
+              <span className="text-slate-500">{counts.same} unchanged</span>
+            </div>
+            <button
+              onClick={() => setShowUnchanged(!showUnchanged)}
+              className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${showUnchanged ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-black border-white/5 text-slate-500'}`}
+            >
+              Unchanged {showUnchanged ? 'Shown' : 'Hidden'}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 shrink-0 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <div className="truncate">A · {left.label}</div>
+            <div className="truncate">B · {right.label}</div>
+          </div>
+
+          <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar pr-2 space-y-2">
+            {leftId === rightId ? (
+              <p className="text-center text-slate-500 text-sm py-10">Pick two different versions to compare.</p>
+            ) : diff.rows.filter(row => showUnchanged || row.kind !== 'same').map((row, i) => (
+              <div key={i} className="grid grid-cols-2 gap-4">
+                {(['left', 'right'] as const).map(side => {
+                  const index = row[side];
+                  return (
+                    <div key={side} className={`text-xs leading-relaxed whitespace-pre-wrap rounded-xl p-3 ${index !== undefined ? `border ${ROW_STYLES[row.kind][side]}` : ''}`}>
+                      {index !== undefined ? diff[side][index] : null}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
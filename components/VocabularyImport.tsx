@@ -0,0 +1,151 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Upload, X, FileText, Loader2 } from 'lucide-react';
+import { VocabularyWord, DictionaryMode } from '../types';
+import {
+  ImportColumn, ImportedWord, IMPORT_COLUMNS,
+  parseWordList, guessColumns, mapWordList, dedupeWords, lookupMissingDefinitions
+} from '../utils/vocabularyImport';
+
+interface VocabularyImportProps {
+  vocabulary: VocabularyWord[];
+  dictionaryMode: DictionaryMode;
+  onImport: (words: ImportedWord[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const VocabularyImport: React.FC<VocabularyImportProps> = ({ vocabulary, dictionaryMode, onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [columns, setColumns] = useState<ImportColumn[]>([]);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [lookup, setLookup] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const result = useMemo(
+    () => dedupeWords(mapWordList(rows, columns, hasHeader), vocabulary),
+    [rows, columns, hasHeader, vocabulary]
+  );
+  const undefinedCount = result.words.filter(w => !w.definition).length;
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const parsed = parseWordList(await file.text());
+    const guess = guessColumns(parsed);
+    setFileName(file.name);
+    setRows(parsed);
+    setColumns(guess.columns);
+    setHasHeader(guess.hasHeader);
+  };
+
+  const runImport = async () => {
+    if (result.words.length === 0 || progress) return;
+    let words = result.words;
+    if (lookup && undefinedCount > 0) {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      words = await lookupMissingDefinitions(words, dictionaryMode, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      controllerRef.current = null;
+      setProgress(null);
+    }
+    onImport(words);
+    onClose();
+  };
+
+  const preview = rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS);
+
+  return (
+    <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto custom-scrollbar bg-slate-900 border border-white/10 rounded-[3rem] p-8 md:p-10 shadow-3xl space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="font-black text-white text-xl tracking-tighter uppercase italic flex items-center gap-3"><Upload className="w-5 h-5 text-indigo-400" /> Import Words</h3>
+          <p className="text-slate-500 text-sm font-medium mt-2">A CSV or TSV word list, such as a deck exported from Anki as plain text.</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl text-slate-400"><X className="w-5 h-5" /></button>
+      </div>
+
+      <label className="flex items-center justify-center gap-3 px-6 py-5 rounded-2xl border-2 border-dashed border-white/10 hover:border-indigo-500 text-slate-400 hover:text-white cursor-pointer transition-all">
+        <FileText className="w-5 h-5" />
+        <span className="text-sm font-bold truncate">{fileName || 'Choose a .csv, .tsv or .txt file'}</span>
+        <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" className="hidden" onChange={loadFile} />
+      </label>
+
+      {rows.length > 0 && (
+        <>
+          <div className="overflow-x-auto custom-scrollbar rounded-2xl border border-white/5">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="bg-white/5">
+                  {columns.map((column, i) => (
+                    <th key={i} className="p-2 min-w-[8rem]">
+                      <select
+                        value={column}
+                        onChange={e => setColumns(prev => prev.map((c, j) => j === i ? e.target.value as ImportColumn : c))}
+                        className="w-full bg-black border border-white/10 rounded-lg px-2 py-1 text-[10px] font-black uppercase tracking-widest text-white outline-none"
+                      >
+                        {IMPORT_COLUMNS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                      </select>
+                      {hasHeader && <div className="mt-1 text-[10px] text-slate-500 truncate">{rows[0][i]}</div>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((row, r) => (
+                  <tr key={r} className="border-t border-white/5">
+                    {columns.map((column, i) => (
+                      <td key={i} className={`p-2 align-top max-w-[16rem] truncate ${column === 'ignore' ? 'text-slate-600' : 'text-slate-300'}`}>{row[i]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <label className="flex items-center gap-3 text-xs font-bold text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} className="accent-indigo-500" />
+              First row is a header
+            </label>
+            <label className="flex items-center gap-3 text-xs font-bold text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={lookup} onChange={e => setLookup(e.target.checked)} className="accent-indigo-500" />
+              Look up missing definitions ({undefinedCount})
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 pt-2">
+            <span className="text-xs text-slate-500 font-medium">
+              {result.words.length} new word{result.words.length === 1 ? '' : 's'}
+              {result.duplicates > 0 && `, ${result.duplicates} duplicate${result.duplicates === 1 ? '' : 's'} skipped`}
+            </span>
+            {progress ? (
+              <div className="flex items-center gap-3">
+                <span className="text-[10px] font-black uppercase tracking-widest text-indigo-300 flex items-center gap-2">
+                  <Loader2 className="w-3 h-3 animate-spin" /> Defining {progress.done}/{progress.total}
+                </span>
+                <button onClick={() => controllerRef.current?.abort()} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white">Skip</button>
+              </div>
+            ) : (
+              <button
+                onClick={runImport}
+                disabled={result.words.length === 0}
+                className="px-5 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-[10px] font-black uppercase tracking-widest text-white transition-all disabled:opacity-40"
+              >
+                Import
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VocabularyImport;
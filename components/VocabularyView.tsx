@@ -1,68 +1,154 @@
 
 import React, { useState, useMemo } from 'react';
-import { VocabularyWord, LibraryItem } from '../types';
-import { Search, BrainCircuit, Check, X, RotateCcw, Dumbbell, Star } from 'lucide-react';
+import { VocabularyWord, VocabularySighting, LibraryItem, ReviewRating, DictionaryMode, DrillKind } from '../types';
+import { buildReviewQueue, reviewCard, previewIntervals, formatInterval } from '../utils/scheduler';
+import { buildAnkiTsv, buildApkg } from '../utils/ankiExport';
+import { ImportedWord } from '../utils/vocabularyImport';
+import { Drill, DrillResult, DRILL_KINDS, buildDrill, gradeTyped, gradeChoice } from '../utils/drills';
+import VocabularyImport from './VocabularyImport';
+import { Search, BrainCircuit, Check, X, RotateCcw, Dumbbell, Star, Upload, FileDown, Package, Loader2, CornerDownRight } from 'lucide-react';
 
 interface VocabularyViewProps {
-  library: LibraryItem[];
+  vocabulary: VocabularyWord[];
+  library: LibraryItem[]; // To tell which sightings can still be opened
+  dictionaryMode: DictionaryMode; // For looking up definitions of imported words
+  drillKinds: DrillKind[];
+  onDrillKindsChange: (kinds: DrillKind[]) => void;
   onUpdateWord: (wordId: string, updates: Partial<VocabularyWord>) => void;
+  onImportWords: (words: ImportedWord[]) => void;
+  onOpenSighting: (word: VocabularyWord, sighting: VocabularySighting) => void;
 }
 
-const VocabularyView: React.FC<VocabularyViewProps> = ({ library, onUpdateWord }) => {
+// Sightings listed on a word's card, most recent first
+const SIGHTINGS_SHOWN = 3;
+
+// Learning steps due within this long come back in the same sitting
+const LEARN_AHEAD_MS = 20 * 60 * 1000;
+
+const PROFICIENCY_LABELS = ['New', 'Learning', 'Reviewing', 'Mastered'];
+
+const RATING_BUTTONS: { rating: ReviewRating; label: string; className: string }[] = [
+  { rating: 'again', label: 'Again', className: 'bg-red-500/10 text-red-400 border-red-500/20 hover:bg-red-500' },
+  { rating: 'hard', label: 'Hard', className: 'bg-amber-500/10 text-amber-400 border-amber-500/20 hover:bg-amber-500' },
+  { rating: 'good', label: 'Good', className: 'bg-blue-500/10 text-blue-400 border-blue-500/20 hover:bg-blue-500' },
+  { rating: 'easy', label: 'Easy', className: 'bg-green-500/10 text-green-400 border-green-500/20 hover:bg-green-500' },
+];
+
+const DRILL_PROMPTS: Record<Exclude<DrillKind, 'flip'>, string> = {
+  choice: 'Choose the meaning',
+  reverse: 'Which word means',
+  cloze: 'Fill the gap',
+  typed: 'Type the word that means',
+};
+
+const VERDICTS: Record<DrillResult['verdict'], { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'text-green-400' },
+  close: { label: 'Nearly — check the spelling', className: 'text-amber-400' },
+  wrong: { label: 'Not quite', className: 'text-red-400' },
+};
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/** The latest sighting with its sentence, shown on the back of the card. */
+const metIn = (word: VocabularyWord) => [...word.sightings].reverse().find(s => s.sentence);
+
+const exportName = (extension: string) => `breezereader-vocabulary-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+const VocabularyView: React.FC<VocabularyViewProps> = ({ vocabulary, library, dictionaryMode, drillKinds, onDrillKindsChange, onUpdateWord, onImportWords, onOpenSighting }) => {
   const [search, setSearch] = useState('');
-  const [reviewMode, setReviewMode] = useState(false);
-  const [currentCardIndex, setCurrentCardIndex] = useState(0);
+  const [showImport, setShowImport] = useState(false);
+  const [isPackaging, setIsPackaging] = useState(false);
+  // Card ids left in the current review; fixed when it starts, so answering a card doesn't reshuffle the rest
+  const [session, setSession] = useState<string[] | null>(null);
   const [isFlipped, setIsFlipped] = useState(false);
+  // The exercise for the card showing, and how it was answered
+  const [drill, setDrill] = useState<Drill>({ kind: 'flip' });
+  const [answer, setAnswer] = useState('');
+  const [picked, setPicked] = useState<number | null>(null);
+  const [result, setResult] = useState<DrillResult | null>(null);
 
-  // Flatten all vocab from all library items
-  const allVocab = useMemo(() => {
-    return library.flatMap(item => item.vocabulary).sort((a, b) => b.date - a.date);
-  }, [library]);
+  const allVocab = useMemo(() => [...vocabulary].sort((a, b) => b.date - a.date), [vocabulary]);
+  const openable = useMemo(() => new Set(library.filter(item => !item.deletedAt).map(item => item.id)), [library]);
 
   const filteredVocab = useMemo(() => {
     return allVocab.filter(v => v.word.toLowerCase().includes(search.toLowerCase()));
   }, [allVocab, search]);
 
-  const reviewQueue = useMemo(() => {
-    const now = Date.now();
-    return allVocab.filter(v => !v.nextReview || v.nextReview <= now);
-  }, [allVocab]);
-
-  const handleReview = (rating: 'hard' | 'good' | 'easy') => {
-    const word = reviewQueue[currentCardIndex];
-    if (!word) return;
-
-    let nextInterval = 0; // minutes
-    let newProficiency = word.proficiency || 0;
-
-    // Simple SRS Logic
-    if (rating === 'hard') {
-      nextInterval = 10; // 10 mins
-      newProficiency = Math.max(0, newProficiency - 1);
-    } else if (rating === 'good') {
-      nextInterval = 24 * 60; // 1 day
-      newProficiency = Math.min(5, newProficiency + 1);
-    } else if (rating === 'easy') {
-      nextInterval = 3 * 24 * 60; // 3 days
-      newProficiency = Math.min(5, newProficiency + 2);
-    }
+  const reviewQueue = useMemo(() => buildReviewQueue(allVocab, Date.now()), [allVocab]);
 
-    onUpdateWord(word.id, {
-      proficiency: newProficiency,
-      nextReview: Date.now() + (nextInterval * 60 * 1000)
-    });
+  // Oldest first, so Anki introduces new cards in the order they were saved
+  const ankiWords = () => [...vocabulary].sort((a, b) => a.date - b.date);
 
-    setIsFlipped(false);
-    if (currentCardIndex < reviewQueue.length - 1) {
-      setCurrentCardIndex(prev => prev + 1);
-    } else {
-      setReviewMode(false);
-      setCurrentCardIndex(0);
+  const exportTsv = () => {
+    download(new Blob([buildAnkiTsv(ankiWords())], { type: 'text/tab-separated-values' }), exportName('txt'));
+  };
+
+  const exportApkg = async () => {
+    setIsPackaging(true);
+    try {
+      download(await buildApkg(ankiWords()), exportName('apkg'));
+    } catch (err) {
+      console.error(err);
+      alert("Failed to build the Anki package. Export as TSV instead, or try again once online.");
+    } finally {
+      setIsPackaging(false);
     }
   };
 
-  if (reviewMode && reviewQueue.length > 0) {
-    const card = reviewQueue[currentCardIndex];
+  const showCard = (next: VocabularyWord | undefined) => {
+    setIsFlipped(false);
+    setAnswer('');
+    setPicked(null);
+    setResult(null);
+    if (next) setDrill(buildDrill(next, allVocab, drillKinds));
+  };
+
+  const startReview = () => {
+    showCard(reviewQueue[0]);
+    setSession(reviewQueue.map(v => v.id));
+  };
+
+  const toggleDrillKind = (kind: DrillKind) => {
+    const next = drillKinds.includes(kind) ? drillKinds.filter(k => k !== kind) : [...drillKinds, kind];
+    if (next.length > 0) onDrillKindsChange(next);
+  };
+
+  const card = session ? allVocab.find(v => v.id === session[0]) : undefined;
+
+  const handleReview = (rating: ReviewRating) => {
+    if (!session || !card) return;
+    const now = Date.now();
+    const updates = reviewCard(card, rating, now);
+    onUpdateWord(card.id, updates);
+
+    const rest = session.slice(1);
+    const again = updates.state !== 'review' && updates.nextReview! - now <= LEARN_AHEAD_MS;
+    const next = again ? [...rest, card.id] : rest;
+    // The list hasn't caught up with this answer yet, so a card coming straight back is built from the update
+    showCard(next[0] === card.id ? { ...card, ...updates } : allVocab.find(v => v.id === next[0]));
+    setSession(next.length > 0 ? next : null);
+  };
+
+  const submitTyped = () => {
+    if (result || (drill.kind !== 'typed' && drill.kind !== 'cloze') || !answer.trim()) return;
+    setResult(gradeTyped(answer, drill.answers));
+  };
+
+  const pickOption = (index: number) => {
+    if (result || (drill.kind !== 'choice' && drill.kind !== 'reverse')) return;
+    setPicked(index);
+    setResult(gradeChoice(drill, index));
+  };
+
+  if (session && card) {
+    const intervals = previewIntervals(card, Date.now());
     return (
       <div className="flex-1 flex flex-col items-center justify-center p-10 animate-in fade-in slide-in-from-bottom-10">
          <div className="w-full max-w-2xl text-center mb-8">
@@ -70,9 +156,11 @@ const VocabularyView: React.FC<VocabularyViewProps> = ({ library, onUpdateWord }
                <Dumbbell className="w-8 h-8 text-indigo-500" />
                Brain Training
             </h2>
-            <p className="text-slate-500 font-bold uppercase tracking-widest text-xs mt-2">{reviewQueue.length - currentCardIndex} cards remaining</p>
+            <p className="text-slate-500 font-bold uppercase tracking-widest text-xs mt-2">{session.length} cards remaining</p>
          </div>
 
+         {drill.kind === 'flip' ? (
+         <>
          <div className="relative w-full max-w-xl aspect-[3/2] perspective-1000 group cursor-pointer" onClick={() => setIsFlipped(!isFlipped)}>
             <div className={`w-full h-full relative preserve-3d transition-transform duration-500 ${isFlipped ? 'rotate-y-180' : ''}`}>
                {/* Front */}
@@ -84,20 +172,114 @@ const VocabularyView: React.FC<VocabularyViewProps> = ({ library, onUpdateWord }
                {/* Back */}
                <div className="absolute inset-0 backface-hidden rotate-y-180 bg-indigo-900/20 border border-indigo-500/30 rounded-[3rem] flex flex-col items-center justify-center p-12 shadow-3xl backdrop-blur-3xl">
                   <p className="text-2xl text-white font-medium mb-6 leading-relaxed">{card.definition}</p>
-                  <p className="text-indigo-300 italic text-sm">"{card.examples[0]}"</p>
+                  {metIn(card) ? (
+                    <>
+                      <p className="text-indigo-300 italic text-sm">"{metIn(card)!.sentence}"</p>
+                      <p className="text-[10px] uppercase tracking-widest text-slate-500 mt-3">{metIn(card)!.title}</p>
+                    </>
+                  ) : card.examples[0] && <p className="text-indigo-300 italic text-sm">"{card.examples[0]}"</p>}
                </div>
             </div>
          </div>
 
          {isFlipped && (
-           <div className="flex gap-4 mt-12 animate-in fade-in slide-in-from-bottom-4">
-             <button onClick={(e) => { e.stopPropagation(); handleReview('hard'); }} className="px-8 py-4 rounded-2xl bg-red-500/10 text-red-400 border border-red-500/20 hover:bg-red-500 hover:text-white font-black uppercase tracking-widest text-xs transition-all">Hard</button>
-             <button onClick={(e) => { e.stopPropagation(); handleReview('good'); }} className="px-8 py-4 rounded-2xl bg-blue-500/10 text-blue-400 border border-blue-500/20 hover:bg-blue-500 hover:text-white font-black uppercase tracking-widest text-xs transition-all">Good</button>
-             <button onClick={(e) => { e.stopPropagation(); handleReview('easy'); }} className="px-8 py-4 rounded-2xl bg-green-500/10 text-green-400 border border-green-500/20 hover:bg-green-500 hover:text-white font-black uppercase tracking-widest text-xs transition-all">Easy</button>
+           <div className="flex flex-wrap justify-center gap-4 mt-12 animate-in fade-in slide-in-from-bottom-4">
+             {RATING_BUTTONS.map(({ rating, label, className }) => (
+               <button 
+                 key={rating} 
+                 onClick={(e) => { e.stopPropagation(); handleReview(rating); }} 
+                 className={`px-8 py-4 rounded-2xl border hover:text-white font-black uppercase tracking-widest text-xs transition-all flex flex-col items-center gap-1 ${className}`}
+               >
+                 {label}
+                 <span className="text-[10px] font-bold normal-case tracking-normal opacity-70">{formatInterval(intervals[rating])}</span>
+               </button>
+             ))}
+           </div>
+         )}
+         </>
+         ) : (
+           <div className="w-full max-w-xl bg-slate-900 border border-white/10 rounded-[3rem] p-10 md:p-12 shadow-3xl space-y-8">
+              <div className="text-center space-y-4">
+                 <div className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500">{DRILL_PROMPTS[drill.kind]}</div>
+                 {drill.kind === 'choice' && <h3 className="text-5xl font-black text-white italic">{card.word}</h3>}
+                 {(drill.kind === 'reverse' || drill.kind === 'typed') && <p className="text-2xl text-white font-medium leading-relaxed">{card.definition}</p>}
+                 {drill.kind === 'cloze' && (
+                   <p className="text-xl text-white font-medium leading-relaxed">
+                     {drill.before}
+                     <span className={`inline-block min-w-[5rem] border-b-2 px-1 ${result ? VERDICTS[result.verdict].className + ' border-current' : 'border-indigo-500'}`}>{result ? drill.answers[0] : '\u00a0'}</span>
+                     {drill.after}
+                   </p>
+                 )}
+              </div>
+
+              {(drill.kind === 'choice' || drill.kind === 'reverse') && (
+                <div className="grid gap-3">
+                  {drill.options.map((option, i) => {
+                    const state = !result ? 'border-white/10 hover:border-indigo-500 hover:bg-white/5 text-slate-200'
+                      : i === drill.answer ? 'border-green-500/50 bg-green-500/10 text-green-300'
+                      : i === picked ? 'border-red-500/50 bg-red-500/10 text-red-300'
+                      : 'border-white/5 text-slate-600';
+                    return (
+                      <button
+                        key={i}
+                        onClick={() => pickOption(i)}
+                        disabled={!!result}
+                        className={`w-full text-left px-5 py-4 rounded-2xl border text-sm font-medium transition-all ${drill.kind === 'reverse' ? 'font-black italic text-lg' : ''} ${state}`}
+                      >
+                        {option}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {(drill.kind === 'typed' || drill.kind === 'cloze') && (
+                <form onSubmit={e => { e.preventDefault(); submitTyped(); }} className="flex gap-3">
+                  <input
+                    autoFocus
+                    type="text"
+                    value={answer}
+                    onChange={e => setAnswer(e.target.value)}
+                    disabled={!!result}
+                    autoComplete="off"
+                    autoCapitalize="off"
+                    spellCheck={false}
+                    placeholder="Your answer"
+                    className="flex-1 bg-white/5 border border-white/10 rounded-2xl px-5 py-4 text-white font-medium placeholder:text-slate-600 focus:outline-none focus:border-indigo-500 disabled:opacity-60"
+                  />
+                  {!result && (
+                    <button type="submit" disabled={!answer.trim()} className="px-6 py-4 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-black uppercase tracking-widest transition-all disabled:opacity-40">
+                      Check
+                    </button>
+                  )}
+                </form>
+              )}
+
+              {result && (
+                <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4">
+                  <div className="text-center space-y-2">
+                    <div className={`text-sm font-black uppercase tracking-widest flex items-center justify-center gap-2 ${VERDICTS[result.verdict].className}`}>
+                      {result.verdict === 'wrong' ? <X className="w-4 h-4" /> : <Check className="w-4 h-4" />} {VERDICTS[result.verdict].label}
+                    </div>
+                    {result.verdict !== 'correct' && (drill.kind === 'typed' || drill.kind === 'cloze') && (
+                      <p className="text-slate-300 text-sm">The answer was <span className="font-black text-white italic">{result.expected}</span></p>
+                    )}
+                    {drill.kind !== 'choice' && <p className="text-slate-400 text-sm"><span className="font-black text-white italic">{card.word}</span>: {card.definition}</p>}
+                  </div>
+                  <button
+                    autoFocus
+                    onClick={() => handleReview(result.rating)}
+                    className="w-full px-8 py-4 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white font-black uppercase tracking-widest text-xs transition-all flex flex-col items-center gap-1"
+                  >
+                    Continue
+                    <span className="text-[10px] font-bold normal-case tracking-normal opacity-70">Graded {RATING_BUTTONS.find(b => b.rating === result.rating)!.label.toLowerCase()} · next in {formatInterval(intervals[result.rating])}</span>
+                  </button>
+                </div>
+              )}
            </div>
          )}
          
-         <button onClick={() => setReviewMode(false)} className="mt-12 text-slate-500 hover:text-white text-xs font-black uppercase tracking-widest">Exit Review</button>
+         <button onClick={() => setSession(null)} className="mt-12 text-slate-500 hover:text-white text-xs font-black uppercase tracking-widest">Exit Review</button>
       </div>
     );
   }
@@ -109,14 +291,45 @@ const VocabularyView: React.FC<VocabularyViewProps> = ({ library, onUpdateWord }
             <h2 className="text-5xl font-black tracking-tighter text-white uppercase italic mb-4">Vocabulary</h2>
             <p className="text-slate-500 font-medium">Build your lexicon. Master difficult terms.</p>
           </div>
-          {reviewQueue.length > 0 && (
-            <button onClick={() => setReviewMode(true)} className="px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-black uppercase tracking-widest shadow-xl shadow-indigo-600/20 flex items-center gap-3 active:scale-95 transition-all animate-pulse">
-               <BrainCircuit className="w-5 h-5" />
-               Review Due ({reviewQueue.length})
+          <div className="flex flex-wrap items-center justify-end gap-3">
+            <button onClick={() => setShowImport(true)} title="Import a CSV or TSV word list" className="px-4 py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-300 hover:text-white rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 transition-all">
+               <Upload className="w-4 h-4" /> Import
             </button>
-          )}
+            {allVocab.length > 0 && (
+              <>
+                <button onClick={exportTsv} title="Anki-importable text file" className="px-4 py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-300 hover:text-white rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 transition-all">
+                   <FileDown className="w-4 h-4" /> TSV
+                </button>
+                <button onClick={exportApkg} disabled={isPackaging} title="Anki deck package, with review progress" className="px-4 py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-300 hover:text-white rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 transition-all disabled:opacity-50">
+                   {isPackaging ? <Loader2 className="w-4 h-4 animate-spin" /> : <Package className="w-4 h-4" />} Anki Deck
+                </button>
+              </>
+            )}
+            {reviewQueue.length > 0 && (
+              <button onClick={startReview} className="px-8 py-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-black uppercase tracking-widest shadow-xl shadow-indigo-600/20 flex items-center gap-3 active:scale-95 transition-all animate-pulse">
+                 <BrainCircuit className="w-5 h-5" />
+                 Review Due ({reviewQueue.length})
+              </button>
+            )}
+          </div>
        </div>
 
+       {allVocab.length > 0 && (
+         <div className="flex flex-wrap items-center gap-2 mb-6">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-600 mr-2">Drills</span>
+            {DRILL_KINDS.map(kind => (
+              <button
+                key={kind.id}
+                onClick={() => toggleDrillKind(kind.id)}
+                title={kind.description}
+                className={`px-3 py-1.5 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${drillKinds.includes(kind.id) ? 'bg-indigo-600/20 border-indigo-500/40 text-indigo-300' : 'bg-white/5 border-white/10 text-slate-500 hover:text-slate-300'}`}
+              >
+                {kind.label}
+              </button>
+            ))}
+         </div>
+       )}
+
        <div className="relative mb-10 group">
           <Search className="absolute left-6 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500 group-focus-within:text-indigo-500 transition-colors" />
           <input 
@@ -134,12 +347,35 @@ const VocabularyView: React.FC<VocabularyViewProps> = ({ library, onUpdateWord }
                <div key={v.id} className="bg-white/5 border border-white/5 hover:border-white/10 p-8 rounded-[2.5rem] space-y-4 transition-all hover:-translate-y-1">
                   <div className="flex justify-between items-start">
                     <h3 className="text-2xl font-black text-white italic uppercase">{v.word}</h3>
-                    {v.proficiency > 3 && <Star className="w-4 h-4 text-yellow-500 fill-current" />}
+                    {v.proficiency >= 3 && <Star className="w-4 h-4 text-yellow-500 fill-current" />}
                   </div>
                   <p className="text-slate-400 text-sm font-medium leading-relaxed">{v.definition}</p>
                   {v.examples[0] && <div className="p-3 bg-black/20 rounded-xl text-xs text-indigo-300 italic border border-white/5">"{v.examples[0]}"</div>}
+                  {v.sightings.length > 0 && (
+                    <ul className="space-y-1">
+                      {[...v.sightings].reverse().slice(0, SIGHTINGS_SHOWN).map(sighting => (
+                        <li key={`${sighting.itemId}:${sighting.versionId || ''}:${sighting.wordIndex ?? ''}`}>
+                          <button
+                            onClick={() => onOpenSighting(v, sighting)}
+                            disabled={!openable.has(sighting.itemId)}
+                            title={openable.has(sighting.itemId) ? 'Open where you met it' : 'The document has been deleted'}
+                            className="w-full text-left flex items-start gap-2 px-2 py-1.5 rounded-lg text-xs text-slate-500 hover:bg-white/5 hover:text-slate-300 transition-all disabled:hover:bg-transparent disabled:hover:text-slate-500 disabled:cursor-default"
+                          >
+                            <CornerDownRight className="w-3 h-3 mt-0.5 shrink-0" />
+                            <span className="min-w-0">
+                              <span className="font-bold text-slate-400 block truncate">{sighting.title}</span>
+                              {sighting.sentence && <span className="italic line-clamp-2">{sighting.sentence}</span>}
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                      {v.sightings.length > SIGHTINGS_SHOWN && (
+                        <li className="px-2 text-[10px] font-bold text-slate-600">+{v.sightings.length - SIGHTINGS_SHOWN} more</li>
+                      )}
+                    </ul>
+                  )}
                   <div className="pt-4 flex items-center justify-between border-t border-white/5">
-                     <span className="text-[10px] font-black uppercase tracking-widest text-slate-600">Level {v.proficiency || 0}</span>
+                     <span className="text-[10px] font-black uppercase tracking-widest text-slate-600">{PROFICIENCY_LABELS[v.proficiency] || PROFICIENCY_LABELS[0]}{v.lapses > 0 ? ` · ${v.lapses} lapse${v.lapses === 1 ? '' : 's'}` : ''}</span>
                      <span className="text-[10px] font-bold text-slate-700">{new Date(v.date).toLocaleDateString()}</span>
                   </div>
                </div>
@@ -151,6 +387,14 @@ const VocabularyView: React.FC<VocabularyViewProps> = ({ library, onUpdateWord }
              <span className="text-xl font-black uppercase tracking-widest">No Matches Found</span>
          </div>
        )}
+
+       {showImport && (
+         <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={() => setShowImport(false)}>
+            <div className="w-full max-w-3xl flex justify-center" onClick={e => e.stopPropagation()}>
+               <VocabularyImport vocabulary={vocabulary} dictionaryMode={dictionaryMode} onImport={onImportWords} onClose={() => setShowImport(false)} />
+            </div>
+         </div>
+       )}
     </div>
   );
 };
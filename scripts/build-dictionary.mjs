@@ -0,0 +1,116 @@
+// Builds public/dictionary/en/, the offline dictionary, from the WordNet database in the
+// wordnet-db package: one file per initial letter, so a lookup only fetches its own.
+// Runs before `npm run dev` and `npm run build`; the output is not checked in.
+import { readFileSync, writeFileSync, mkdirSync, rmSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import wordnet from 'wordnet-db';
+
+const OUTPUT = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'dictionary', 'en');
+
+// Senses kept per headword, the most used first
+const MAX_SENSES = 2;
+// Plain words only: no capitalised names, multi-word phrases, digits or abbreviations
+const HEADWORD_RE = /^[a-z]{2,}(?:-[a-z]+)*$/;
+// Noun senses naming plants and animals are mostly taxonomy nobody meets in running text;
+// they're only kept when the tagged corpus has seen them
+const NICHE_NOUN_FILES = new Set([5, 20]); // noun.animal, noun.plant
+
+const POS_NAMES = { n: 'noun', v: 'verb', a: 'adjective', s: 'adjective', r: 'adverb' };
+const DATA_FILES = { n: 'data.noun', v: 'data.verb', a: 'data.adj', r: 'data.adv' };
+const SENSE_TYPES = { 1: 'n', 2: 'v', 3: 'a', 4: 'r', 5: 's' };
+
+const lines = file => readFileSync(join(wordnet.path, file), 'utf8').split('\n').filter(line => line && !line.startsWith('  '));
+
+/** Synsets by "pos:offset": the lexicographer file and the gloss split into definition and examples. */
+const readSynsets = () => {
+  const synsets = new Map();
+  Object.entries(DATA_FILES).forEach(([pos, file]) => {
+    lines(file).forEach(line => {
+      const [offset, lexFile, type] = line.split(' ');
+      const gloss = line.substring(line.indexOf(' | ') + 3).trim();
+      const [definition, ...rest] = gloss.split(/;\s*(?=")/);
+      const examples = rest.map(e => e.trim().replace(/^"|"$/g, '').replace(/"$/, '')).filter(Boolean);
+      synsets.set(`${type === 's' ? 'a' : pos}:${offset}`, { lexFile: Number(lexFile), definition: definition.trim(), examples });
+    });
+  });
+  return synsets;
+};
+
+/** Every sense of every headword, from index.sense: which synset, its rank and how often it was tagged. */
+const readSenses = () => {
+  const byWord = new Map();
+  lines('index.sense').forEach(line => {
+    const [key, offset, senseNumber, tagCount] = line.split(' ');
+    const [word, rest] = key.split('%');
+    if (!HEADWORD_RE.test(word)) return;
+    const type = SENSE_TYPES[rest.split(':')[0]];
+    const senses = byWord.get(word) || [];
+    senses.push({ type, synset: `${type === 's' ? 'a' : type}:${offset}`, rank: Number(senseNumber), tags: Number(tagCount) });
+    byWord.set(word, senses);
+  });
+  return byWord;
+};
+
+const sentence = text => {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  const capitalised = trimmed.replace(/^([^A-Za-z]*)([a-z])/, (_, lead, letter) => lead + letter.toUpperCase());
+  return /[.!?]$/.test(capitalised) ? capitalised : `${capitalised}.`;
+};
+
+/**
+ * Picks a headword's senses: the top sense of each part of speech first, parts of speech
+ * ordered by use in the tagged corpus, then the runners-up. Returns none for words
+ * whose only senses are untagged plants and animals.
+ */
+const pickSenses = (senses, synsets) => {
+  const kept = senses.filter(s => {
+    const synset = synsets.get(s.synset);
+    return synset && (s.tags > 0 || s.type !== 'n' || !NICHE_NOUN_FILES.has(synset.lexFile));
+  });
+  const byPos = new Map();
+  kept.sort((a, b) => a.rank - b.rank).forEach(s => {
+    const pos = POS_NAMES[s.type];
+    byPos.set(pos, [...(byPos.get(pos) || []), s]);
+  });
+  const groups = [...byPos.values()].sort((a, b) => b[0].tags - a[0].tags);
+  const picked = [];
+  for (let round = 0; picked.length < MAX_SENSES && groups.some(g => g[round]); round++) {
+    groups.forEach(g => { if (g[round] && picked.length < MAX_SENSES) picked.push(g[round]); });
+  }
+  return picked;
+};
+
+const build = () => {
+  const synsets = readSynsets();
+  const entries = {};
+  [...readSenses().entries()].sort(([a], [b]) => (a < b ? -1 : 1)).forEach(([word, senses]) => {
+    const picked = pickSenses(senses, synsets);
+    if (picked.length === 0) return;
+    // One example per headword is all a lookup shows, from the first sense that has one
+    let example = null;
+    entries[word] = picked.map(s => {
+      const synset = synsets.get(s.synset);
+      const sense = [POS_NAMES[s.type], sentence(synset.definition)];
+      if (example === null && synset.examples.length > 0) {
+        example = sentence(synset.examples.find(e => e.toLowerCase().includes(word)) || synset.examples[0]);
+        sense.push(example);
+      }
+      return sense;
+    });
+  });
+  return entries;
+};
+
+const entries = build();
+const shards = new Map();
+Object.entries(entries).forEach(([word, senses]) => {
+  const letter = word.charAt(0);
+  shards.set(letter, [...(shards.get(letter) || []), `${JSON.stringify(word)}:${JSON.stringify(senses)}`]);
+});
+rmSync(OUTPUT, { recursive: true, force: true });
+mkdirSync(OUTPUT, { recursive: true });
+shards.forEach((lines, letter) => {
+  writeFileSync(join(OUTPUT, `${letter}.json`), `{"version":2,"language":"en","source":"WordNet ${wordnet.version}","entries":{\n${lines.join(',\n')}\n}}\n`);
+});
+console.log(`Wrote ${Object.keys(entries).length} headwords in ${shards.size} files to ${OUTPUT}`);
@@ -0,0 +1,127 @@
+
+import { LlmSettings, TransformOptions } from '../types';
+import { LlmProvider, JsonSchema, DEFAULT_LLM_SETTINGS, DEFAULT_MODELS, generateStructured } from './llmProvider';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAiCompatibleProvider } from './openAiProvider';
+import { TransformPreset } from '../utils/transformPresets';
+
+/** A multiple-choice question as returned by the model; validated in utils/quiz before use. */
+export interface RawQuizQuestion {
+  question: string;
+  options: string[];
+  answerIndex: number;
+  passage: number; // Index into the passages the quiz was generated from
+}
+
+/** Options for a preset run; aborting the signal cancels the request in flight. */
+export type CancellableTransformOptions = TransformOptions & { signal?: AbortSignal };
+
+export const createLlmProvider = (settings: LlmSettings): LlmProvider => {
+  const model = settings.model.trim() || DEFAULT_MODELS[settings.provider];
+  return settings.provider === 'openai'
+    ? new OpenAiCompatibleProvider(settings.baseUrl, model, settings.apiKey)
+    : new GeminiProvider(model, settings.apiKey);
+};
+
+const QUIZ_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          answerIndex: { type: 'integer', description: "Index of the correct option" },
+          passage: { type: 'integer', description: "Number of the passage the answer comes from" }
+        },
+        required: ["question", "options", "answerIndex", "passage"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+const DEFINITION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    definition: { type: 'string', description: "The definition of the word in context" },
+    example: { type: 'string', description: "An example sentence using the word" }
+  },
+  required: ["definition", "example"]
+};
+
+/** The app's AI features, on whichever provider the user picked in settings. */
+export class AiService {
+  private provider: LlmProvider = createLlmProvider(DEFAULT_LLM_SETTINGS);
+
+  configure(settings: LlmSettings) {
+    this.provider = createLlmProvider(settings);
+  }
+  
+  /** Runs a transformation preset on one chunk of a document; see utils/documentChunks for whole ones. */
+  async transform(preset: TransformPreset, text: string, { signal, ...options }: CancellableTransformOptions): Promise<string> {
+    return this.provider.generateText({ prompt: preset.prompt(text, options), temperature: preset.temperature, signal });
+  }
+
+  /** Merges the per-chunk outputs of a preset that has to answer as one piece, like a summary. */
+  async combine(preset: TransformPreset, parts: string[], { signal, ...options }: CancellableTransformOptions): Promise<string> {
+    if (!preset.combine || parts.length < 2) return parts.join('\n\n');
+    return this.provider.generateText({ prompt: preset.combine(parts.join('\n\n---\n\n'), options), temperature: preset.temperature, signal });
+  }
+
+  /** One sentence on what a section of a document says; see utils/summary for whole documents. */
+  async summarizeSection(title: string, text: string, signal?: AbortSignal): Promise<string> {
+    return this.provider.generateText({
+      prompt: `Summarize the following section of a document in one sentence of at most 25 words.
+      Say what it tells the reader directly, without phrases like "This section...". Reply with the sentence only.
+      ${title ? `\nSection: ${title}\n` : ''}
+      Text:\n\n${text}`,
+      temperature: 0.2,
+      signal
+    });
+  }
+
+  /** A one-paragraph overview of a document, from one-line summaries of its sections in order. */
+  async summarizeDocument(sectionSummaries: string[], signal?: AbortSignal): Promise<string> {
+    return this.provider.generateText({
+      prompt: `Below are one-line summaries of the sections of a document, in order. Write a one-paragraph overview of the whole document in 3 to 5 sentences,
+      so a reader can decide whether to read it: what it is about, its main points and where it ends up. Reply with the paragraph only.
+      
+      Sections:\n\n${sectionSummaries.join('\n')}`,
+      temperature: 0.3,
+      signal
+    });
+  }
+
+  /**
+   * Writes multiple-choice comprehension questions about numbered passages.
+   * Throws when the model is unavailable, so callers can fall back to offline questions.
+   */
+  async generateQuiz(passages: string[], count: number): Promise<RawQuizQuestion[]> {
+    const numbered = passages.map((p, i) => `[${i}] ${p}`).join('\n\n');
+    const data = await generateStructured<{ questions: RawQuizQuestion[] }>(this.provider, {
+      prompt: `Write ${count} multiple-choice questions that check whether a reader understood the passages below.
+      
+      Rules:
+      1. Ask about meaning, causes and conclusions, not trivia like exact numbers or names of minor details.
+      2. Each question has exactly 4 options and one correct answer.
+      3. Wrong options must be plausible to someone who skimmed.
+      4. Set "passage" to the number of the passage that contains the answer.
+      
+      Passages:\n\n${numbered}`,
+      temperature: 0.4
+    }, QUIZ_SCHEMA);
+    return data.questions;
+  }
+
+  /** The sense a word has in the surrounding text. Throws when the model is unavailable; see dictionaryService for fallbacks. */
+  async defineInContext(word: string, context: string): Promise<{ definition: string; example: string }> {
+    return generateStructured<{ definition: string; example: string }>(this.provider, {
+      prompt: `Define the word "${word}" as it is used in the following context: "...${context}...". Provide a clear definition and a new example sentence.`
+    }, DEFINITION_SCHEMA);
+  }
+}
+
+export const aiService = new AiService();
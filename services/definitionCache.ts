@@ -0,0 +1,72 @@
+import { storageService } from './storageService';
+import { DefinitionResult, DefinitionSource } from './dictionaryService';
+
+// Dictionary entries rarely change; a month keeps the cache useful without pinning mistakes forever
+export const DEFINITION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Misses are remembered briefly, so a word the API lacks isn't re-fetched on every click
+export const NOT_FOUND_TTL_MS = 24 * 60 * 60 * 1000;
+export const MAX_CACHED_DEFINITIONS = 2000;
+// Pruning walks the whole store, so it runs once per this many writes rather than on each
+const PRUNE_EVERY = 50;
+
+export interface CachedDefinition {
+  key: string;
+  word: string;
+  source: DefinitionSource;
+  result: DefinitionResult | null; // null: the provider has no entry for the word
+  cachedAt: number;
+  usedAt: number;
+  expiresAt: number;
+}
+
+/** FNV-1a over the context with case and spacing normalised, so re-flowed text still hits. */
+export const hashContext = (context: string): string => {
+  const text = context.toLowerCase().replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Dictionary answers don't depend on where the word was clicked, AI answers do,
+ * so only AI keys include the context.
+ */
+export const definitionCacheKey = (source: DefinitionSource, word: string, context: string): string => {
+  const normalized = word.normalize('NFC').toLowerCase().trim();
+  return source === 'ai' ? `ai:${normalized}:${hashContext(context)}` : `${source}:${normalized}`;
+};
+
+/** Provider answers persisted in IndexedDB, with expiry and a size cap. */
+export class DefinitionCache {
+  private writes = 0;
+
+  constructor(private readonly maxEntries = MAX_CACHED_DEFINITIONS) {}
+
+  /** The cached answer, or undefined when there is none or it has expired. */
+  async get(key: string, now = Date.now()): Promise<CachedDefinition | undefined> {
+    const entry = await storageService.getDefinition(key).catch(() => undefined);
+    if (!entry || entry.expiresAt <= now) return undefined;
+    storageService.saveDefinition({ ...entry, usedAt: now }).catch(() => {});
+    return entry;
+  }
+
+  async put(key: string, word: string, source: DefinitionSource, result: DefinitionResult | null, now = Date.now()): Promise<void> {
+    try {
+      await storageService.saveDefinition({
+        key, word, source, result,
+        cachedAt: now,
+        usedAt: now,
+        expiresAt: now + (result ? DEFINITION_TTL_MS : NOT_FOUND_TTL_MS)
+      });
+      if (this.writes++ % PRUNE_EVERY === 0) await storageService.pruneDefinitions(this.maxEntries, now);
+    } catch (e) {
+      // A lookup that can't be cached still answered
+      console.warn("Failed to cache definition", e);
+    }
+  }
+}
+
+export const definitionCache = new DefinitionCache();
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OfflineDictionaryProvider } from './dictionaryService';
+
+const shard = (entries: Record<string, [string, string, string?][]>) =>
+  new Response(JSON.stringify({ version: 2, language: 'en', entries }), { status: 200 });
+
+/** A provider over stubbed letter files, recording which ones it fetched. */
+const provider = (respond: (letter: string) => Response) => {
+  const fetched: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const letter = url.match(/\/(\w)\.json$/)![1];
+    fetched.push(letter);
+    return respond(letter);
+  }));
+  return { dictionary: new OfflineDictionaryProvider('dictionary/en'), fetched };
+};
+
+describe('OfflineDictionaryProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches only the file for the word\'s first letter, once', async () => {
+    const { dictionary, fetched } = provider(() => shard({
+      run: [['verb', 'Move fast.', 'Run home.'], ['noun', 'A score in baseball.']],
+      ramp: [['noun', 'An inclined surface.']]
+    }));
+    expect(await dictionary.lookup('running')).toEqual({
+      definition: 'Move fast.',
+      examples: ['Run home.'],
+      alternatives: [{ pos: 'verb', def: 'Move fast.' }, { pos: 'noun', def: 'A score in baseball.' }],
+      source: 'offline'
+    });
+    expect(await dictionary.lookup('ramps')).toMatchObject({ definition: 'An inclined surface.' });
+    expect(await dictionary.lookup('rhubarb')).toBeNull();
+    expect(fetched).toEqual(['r']);
+  });
+
+  it('skips words that no file could hold', async () => {
+    const { dictionary, fetched } = provider(() => shard({}));
+    expect(await dictionary.lookup('42')).toBeNull();
+    expect(await dictionary.lookup('école')).toBeNull();
+    expect(fetched).toEqual([]);
+  });
+
+  it('retries a file that failed to load', async () => {
+    let failures = 1;
+    const { dictionary, fetched } = provider(() => failures-- > 0 ? new Response('', { status: 503 }) : shard({ ramp: [['noun', 'An inclined surface.']] }));
+    await expect(dictionary.lookup('ramp')).rejects.toThrow('Offline dictionary unavailable (503)');
+    expect(await dictionary.lookup('ramp')).toMatchObject({ definition: 'An inclined surface.' });
+    expect(fetched).toEqual(['r', 'r']);
+  });
+});
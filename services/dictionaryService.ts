@@ -0,0 +1,246 @@
+import { DictionaryMode, DocumentToken } from '../types';
+import { aiService } from './aiService';
+import { definitionCache, definitionCacheKey, DefinitionCache } from './definitionCache';
+import { lookupForm, splitAffixes } from '../utils/tokenizer';
+import { frequencyRank } from '../utils/wordFrequency';
+
+export type DefinitionSource = 'offline' | 'api' | 'ai';
+
+export interface DefinitionResult {
+  definition: string;
+  examples: string[];
+  alternatives?: { pos: string; def: string }[];
+  /** Which provider answered */
+  source: DefinitionSource;
+}
+
+/** One way of looking a word up. Resolves null when it has no entry, so the next provider gets a turn. */
+export interface DictionaryProvider {
+  readonly id: DefinitionSource;
+  /** Answers from data already in memory, so caching its results buys nothing */
+  readonly local?: boolean;
+  lookup(word: string, context: string): Promise<DefinitionResult | null>;
+}
+
+// Served from public/, relative so the app still works under a sub-path; one file per initial letter
+const OFFLINE_DICTIONARY_URL = 'dictionary/en';
+
+/** [part of speech, definition, example?] */
+type OfflineSense = [string, string, string?];
+
+interface OfflineDictionary {
+  version: number;
+  language: string;
+  entries: Record<string, OfflineSense[]>;
+}
+
+/**
+ * Forms the headword might be listed under, most likely first. Deliberately naive:
+ * a wrong guess just misses the lookup, it can't return the wrong word's entry
+ * unless that word exists, and then it's usually related.
+ */
+export const lemmaCandidates = (word: string): string[] => {
+  const candidates = [word];
+  const add = (stem: string, ...endings: string[]) => {
+    if (stem.length < 3) return;
+    endings.forEach(ending => candidates.push(stem + ending));
+  };
+  const strip = (suffix: string) => word.endsWith(suffix) ? word.slice(0, -suffix.length) : null;
+
+  let stem: string | null;
+  if ((stem = strip('ies')) !== null) add(stem, 'y');
+  if ((stem = strip('es')) !== null) add(stem, '');
+  if ((stem = strip('s')) !== null && !word.endsWith('ss')) add(stem, '');
+  if ((stem = strip('ied')) !== null) add(stem, 'y');
+  if ((stem = strip('ed')) !== null) {
+    add(stem, '', 'e');
+    // Doubled consonant: "abetted" -> "abet"
+    if (/(.)\1$/.test(stem)) add(stem.slice(0, -1), '');
+  }
+  if ((stem = strip('ing')) !== null) {
+    add(stem, '', 'e');
+    if (/(.)\1$/.test(stem)) add(stem.slice(0, -1), '');
+  }
+  if ((stem = strip('ily')) !== null) add(stem, 'y');
+  if ((stem = strip('ly')) !== null) add(stem, '', 'le');
+  if ((stem = strip('ness')) !== null) add(stem, '');
+  return Array.from(new Set(candidates));
+};
+
+/**
+ * A dictionary bundled with the app, split by initial letter. A letter's file is only
+ * fetched on the first lookup that needs it, and a failed fetch is retried on the next
+ * one rather than cached.
+ */
+export class OfflineDictionaryProvider implements DictionaryProvider {
+  readonly id = 'offline';
+  readonly local = true;
+  private shards = new Map<string, Promise<OfflineDictionary>>();
+
+  constructor(private readonly url = OFFLINE_DICTIONARY_URL) {}
+
+  private load(letter: string): Promise<OfflineDictionary> {
+    const cached = this.shards.get(letter);
+    if (cached) return cached;
+    const shard = fetch(`${this.url}/${letter}.json`).then(response => {
+      if (!response.ok) throw new Error(`Offline dictionary unavailable (${response.status})`);
+      return response.json();
+    });
+    this.shards.set(letter, shard);
+    shard.catch(() => { this.shards.delete(letter); });
+    return shard;
+  }
+
+  async lookup(word: string): Promise<DefinitionResult | null> {
+    const candidates = lemmaCandidates(word);
+    // Headwords are plain a-z words, and every candidate keeps the word's first letter
+    const letter = candidates[0]?.charAt(0);
+    if (!letter || !/[a-z]/.test(letter)) return null;
+    const { entries } = await this.load(letter);
+    const headword = candidates.find(candidate => Object.prototype.hasOwnProperty.call(entries, candidate));
+    if (!headword) return null;
+
+    const senses = entries[headword];
+    return {
+      definition: senses[0][1],
+      examples: senses.flatMap(([, , example]) => example ? [example] : []).slice(0, 1),
+      alternatives: senses.map(([pos, def]) => ({ pos, def })),
+      source: 'offline'
+    };
+  }
+}
+
+/** The free dictionaryapi.dev service. Broad coverage, but needs a connection. */
+export class FreeDictionaryApiProvider implements DictionaryProvider {
+  readonly id = 'api';
+
+  async lookup(word: string): Promise<DefinitionResult | null> {
+    const response = await fetch(`https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(word)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Dictionary API error ${response.status}`);
+
+    const data = await response.json();
+    const entry = data[0];
+    if (!entry?.meanings?.length) return null;
+
+    // Every part of speech, so the reader can pick the sense that fits
+    const alternatives: { pos: string; def: string }[] = entry.meanings
+      .filter((m: any) => m.definitions?.[0]?.definition)
+      .map((m: any) => ({ pos: m.partOfSpeech, def: m.definitions[0].definition }));
+    if (alternatives.length === 0) return null;
+
+    const example = entry.meanings[0]?.definitions[0]?.example;
+    return {
+      definition: alternatives[0].def,
+      examples: example ? [example] : [],
+      alternatives,
+      source: 'api'
+    };
+  }
+}
+
+/** Asks the configured model for the sense the word has in the surrounding text. */
+export class AiDictionaryProvider implements DictionaryProvider {
+  readonly id = 'ai';
+
+  async lookup(word: string, context: string): Promise<DefinitionResult | null> {
+    const { definition, example } = await aiService.defineInContext(word, context);
+    return { definition, examples: example ? [example] : [], source: 'ai' };
+  }
+}
+
+// How far ahead of the reader prefetching looks, and how many words it fetches per pass
+export const PREFETCH_LOOKAHEAD = 400;
+export const PREFETCH_BATCH = 12;
+
+/**
+ * Lookup forms of the rare words in the next `lookahead` tokens, in reading order.
+ * Capitalised words are skipped: mid-sentence they're mostly names, which no dictionary has.
+ */
+export const rareWordsAhead = (tokens: DocumentToken[], from: number, lookahead = PREFETCH_LOOKAHEAD): string[] => {
+  const words = new Set<string>();
+  tokens.slice(from, from + lookahead).forEach(token => {
+    if (token.kind !== 'word' || /^\p{Lu}/u.test(splitAffixes(token.text).core)) return;
+    const form = lookupForm(token.text);
+    if (form.length > 3 && frequencyRank(form) === undefined) words.add(form);
+  });
+  return Array.from(words);
+};
+
+export class DictionaryService {
+  private readonly providers: Record<DefinitionSource, DictionaryProvider>;
+  // Lookups in flight, so a click on a word being prefetched waits for that request instead of repeating it
+  private readonly pending = new Map<string, Promise<DefinitionResult | null>>();
+
+  constructor(
+    providers: DictionaryProvider[] = [new OfflineDictionaryProvider(), new FreeDictionaryApiProvider(), new AiDictionaryProvider()],
+    private readonly cache: DefinitionCache = definitionCache
+  ) {
+    this.providers = Object.fromEntries(providers.map(p => [p.id, p])) as Record<DefinitionSource, DictionaryProvider>;
+  }
+
+  /**
+   * Standard mode tries the cheap providers first and only spends a model call on
+   * words neither dictionary knows. AI mode wants the contextual sense, so it asks
+   * the model first and falls back to the dictionaries when that fails.
+   */
+  chain(mode: DictionaryMode): DictionaryProvider[] {
+    const order: DefinitionSource[] = mode === 'ai' ? ['ai', 'offline', 'api'] : ['offline', 'api', 'ai'];
+    return order.map(id => this.providers[id]).filter(Boolean);
+  }
+
+  /** One provider's answer, from the cache when possible. Errors aren't cached, so they're retried next time. */
+  private lookup(provider: DictionaryProvider, word: string, context: string): Promise<DefinitionResult | null> {
+    if (provider.local) return provider.lookup(word, context);
+
+    const key = definitionCacheKey(provider.id, word, context);
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = (async () => {
+      const cached = await this.cache.get(key);
+      if (cached) return cached.result;
+      const result = await provider.lookup(word, context);
+      await this.cache.put(key, word, provider.id, result);
+      return result;
+    })();
+    this.pending.set(key, promise);
+    promise.catch(() => {}).finally(() => this.pending.delete(key));
+    return promise;
+  }
+
+  /** The first provider's answer, or null when none of them know the word. */
+  async define(word: string, context: string, mode: DictionaryMode): Promise<DefinitionResult | null> {
+    for (const provider of this.chain(mode)) {
+      try {
+        const result = await this.lookup(provider, word, context);
+        if (result) return result;
+      } catch (e) {
+        console.warn(`Dictionary provider "${provider.id}" failed for "${word}":`, e);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Warms the cache with dictionary definitions, one word at a time so reading
+   * never competes with a burst of requests. Skips AI: its answers depend on
+   * context, and prefetching them would spend model calls on words never clicked.
+   */
+  async prefetch(words: string[], signal?: AbortSignal): Promise<void> {
+    const dictionaries = this.chain('standard').filter(p => p.id !== 'ai');
+    for (const word of words) {
+      if (signal?.aborted) return;
+      for (const provider of dictionaries) {
+        try {
+          if (await this.lookup(provider, word, '')) break;
+        } catch {
+          // Offline or rate limited; the next pass will try again
+          return;
+        }
+      }
+    }
+  }
+}
+
+export const dictionaryService = new DictionaryService();
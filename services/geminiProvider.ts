@@ -0,0 +1,57 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { LlmProvider, LlmRequest, JsonSchema, LlmRequestError, LlmResponseError } from './llmProvider';
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => {
+  const base: Schema = { type: GEMINI_TYPES[schema.type], description: schema.description };
+  if (schema.type === 'array') return { ...base, items: toGeminiSchema(schema.items) };
+  if (schema.type === 'object') {
+    return {
+      ...base,
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([key, p]) => [key, toGeminiSchema(p)])),
+      required: schema.required
+    };
+  }
+  return base;
+};
+
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini';
+
+  constructor(private readonly model: string, private readonly apiKey: string) {}
+
+  // A fresh client per call picks up a key chosen after startup
+  private async generate(request: LlmRequest, config: Record<string, unknown>): Promise<string> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey || process.env.API_KEY || '' });
+    let text: string | undefined;
+    try {
+      const response = await ai.models.generateContent({
+        model: this.model,
+        contents: request.prompt,
+        config: { temperature: request.temperature, abortSignal: request.signal, ...config }
+      });
+      text = response.text;
+    } catch (e) {
+      if (request.signal?.aborted) throw e;
+      throw new LlmRequestError(e instanceof Error ? e.message : String(e));
+    }
+    if (!text) throw new LlmResponseError("No response from AI");
+    return text;
+  }
+
+  generateText(request: LlmRequest): Promise<string> {
+    return this.generate(request, {});
+  }
+
+  generateJson(request: LlmRequest, schema: JsonSchema): Promise<string> {
+    return this.generate(request, { responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) });
+  }
+}
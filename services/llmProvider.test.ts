@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { JsonSchema, LlmResponseError, validateStructured, parseStructured } from './llmProvider';
+
+const QUIZ: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { question: { type: 'string' }, options: { type: 'array', items: { type: 'string' } }, answerIndex: { type: 'integer' } },
+        required: ['question', 'options', 'answerIndex']
+      }
+    },
+    score: { type: 'number' },
+    done: { type: 'boolean' }
+  },
+  required: ['questions']
+};
+
+const question = { question: 'Why?', options: ['a', 'b'], answerIndex: 1 };
+
+describe('validateStructured', () => {
+  it('returns a matching value as it is', () => {
+    const value = { questions: [question], score: 0.5, done: true };
+    expect(validateStructured(value, QUIZ)).toBe(value);
+  });
+
+  it('ignores optional fields that are missing and extra fields', () => {
+    expect(() => validateStructured({ questions: [], extra: 'x' }, QUIZ)).not.toThrow();
+  });
+
+  it.each([
+    [[], 'response must be an object'],
+    [null, 'response must be an object'],
+    [{}, 'response.questions is missing'],
+    [{ questions: {} }, 'response.questions must be an array'],
+    [{ questions: [question, 'b'] }, 'response.questions[1] must be an object'],
+    [{ questions: [{ ...question, answerIndex: 1.5 }] }, 'response.questions[0].answerIndex must be an integer'],
+    [{ questions: [{ ...question, options: ['a', 2] }] }, 'response.questions[0].options[1] must be a string'],
+    [{ questions: [], score: Infinity }, 'response.score must be a number'],
+    [{ questions: [], done: 'yes' }, 'response.done must be a boolean']
+  ])('names the first field that does not match in %j', (value, message) => {
+    expect(() => validateStructured(value, QUIZ)).toThrow(LlmResponseError);
+    expect(() => validateStructured(value, QUIZ)).toThrow(message);
+  });
+});
+
+describe('parseStructured', () => {
+  it.each([
+    ['{"a": 1}'],
+    ['  {"a": 1}\n'],
+    ['```json\n{"a": 1}\n```'],
+    ['```\n{"a": 1}\n```']
+  ])('reads %j', text => {
+    expect(parseStructured(text)).toEqual({ a: 1 });
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseStructured('Here you go: {"a": 1}')).toThrow(new LlmResponseError('Response is not valid JSON'));
+  });
+});
@@ -0,0 +1,106 @@
+import { LlmProviderId, LlmSettings } from '../types';
+
+/**
+ * The subset of JSON Schema the app uses for structured output. Both providers accept
+ * it (Gemini after translation), and `validateStructured` checks responses against it.
+ */
+export type JsonSchema =
+  | { type: 'string' | 'integer' | 'number' | 'boolean'; description?: string }
+  | { type: 'array'; items: JsonSchema; description?: string }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required: string[]; description?: string };
+
+export interface LlmRequest {
+  prompt: string;
+  temperature?: number;
+  signal?: AbortSignal; // Cancels the request; it then rejects with the signal's AbortError
+}
+
+/** A text-generation backend. Implementations only move text; validation happens here, once. */
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  generateText(request: LlmRequest): Promise<string>;
+  /** Asks for JSON matching `schema` and returns the raw text, unvalidated. */
+  generateJson(request: LlmRequest, schema: JsonSchema): Promise<string>;
+}
+
+export const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'llama3.1'
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  baseUrl: 'http://localhost:11434/v1',
+  model: '',
+  apiKey: ''
+};
+
+/** The provider couldn't be reached or refused the request. */
+export class LlmRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'LlmRequestError';
+  }
+}
+
+/** The provider answered, but not with what was asked for. */
+export class LlmResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmResponseError';
+  }
+}
+
+const describe = (schema: JsonSchema) => schema.type === 'integer' ? 'an integer' : schema.type === 'array' || schema.type === 'object' ? `an ${schema.type}` : `a ${schema.type}`;
+
+/**
+ * Checks a parsed response against the schema and returns it typed. Throws
+ * LlmResponseError naming the first field that doesn't match.
+ */
+export const validateStructured = <T>(value: unknown, schema: JsonSchema, path = 'response'): T => {
+  const fail = () => { throw new LlmResponseError(`${path} must be ${describe(schema)}`); };
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') fail();
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail();
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail();
+      break;
+    case 'integer':
+      if (!Number.isInteger(value)) fail();
+      break;
+    case 'array':
+      if (!Array.isArray(value)) fail();
+      (value as unknown[]).forEach((item, i) => validateStructured(item, schema.items, `${path}[${i}]`));
+      break;
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) fail();
+      const record = value as Record<string, unknown>;
+      schema.required.forEach(key => {
+        if (record[key] === undefined) throw new LlmResponseError(`${path}.${key} is missing`);
+      });
+      Object.entries(schema.properties).forEach(([key, property]) => {
+        if (record[key] !== undefined) validateStructured(record[key], property, `${path}.${key}`);
+      });
+      break;
+    }
+  }
+  return value as T;
+};
+
+/** Parses model output as JSON. Local models often wrap it in a Markdown code fence. */
+export const parseStructured = (text: string): unknown => {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    throw new LlmResponseError('Response is not valid JSON');
+  }
+};
+
+/** Requests structured output from any provider and validates it the same way for all of them. */
+export const generateStructured = async <T>(provider: LlmProvider, request: LlmRequest, schema: JsonSchema): Promise<T> =>
+  validateStructured<T>(parseStructured(await provider.generateJson(request, schema)), schema);
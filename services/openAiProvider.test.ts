@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, Server, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAiCompatibleProvider } from './openAiProvider';
+import { GeminiProvider } from './geminiProvider';
+import { AiService, createLlmProvider } from './aiService';
+import { JsonSchema, LlmRequestError, LlmResponseError, generateStructured } from './llmProvider';
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { definition: { type: 'string' }, example: { type: 'string' } },
+  required: ['definition', 'example']
+};
+
+const completion = (content: string) => ({ choices: [{ message: { role: 'assistant', content } }] });
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/** A provider whose fetch answers with `respond`, recording each request it's given. */
+const stubbed = (respond: (init: RequestInit) => Response | Promise<Response>) => {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fetchImpl = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    calls.push({ url: String(input), init: init! });
+    return respond(init!);
+  }) as unknown as typeof fetch;
+  return { provider: new OpenAiCompatibleProvider('http://llm.test/v1/', 'test-model', '', fetchImpl), calls };
+};
+
+const readBody = (req: IncomingMessage) => new Promise<string>(resolve => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+});
+
+describe('against a local mock server', () => {
+  let server: Server;
+  let baseUrl: string;
+  const received: { url?: string; headers: IncomingMessage['headers']; body: any }[] = [];
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = JSON.parse(await readBody(req));
+      received.push({ url: req.url, headers: req.headers, body });
+      const prompt: string = body.messages[0].content;
+      res.setHeader('Content-Type', 'application/json');
+      if (prompt.includes('fail')) {
+        res.statusCode = 503;
+        res.end('{"error":"model is loading"}');
+      } else if (body.response_format) {
+        res.end(JSON.stringify(completion('```json\n{"definition": "short-lived", "example": "An ephemeral fame."}\n```')));
+      } else {
+        res.end(JSON.stringify(completion(`Echo: ${prompt}`)));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('sends a chat completion and returns the message', async () => {
+    const provider = new OpenAiCompatibleProvider(baseUrl, 'llama3.1', 'secret');
+    expect(await provider.generateText({ prompt: 'Hello', temperature: 0.2 })).toBe('Echo: Hello');
+    const request = received[received.length - 1];
+    expect(request.url).toBe('/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer secret');
+    expect(request.body).toEqual({ model: 'llama3.1', messages: [{ role: 'user', content: 'Hello' }], temperature: 0.2 });
+  });
+
+  it('returns validated structured output', async () => {
+    const provider = new OpenAiCompatibleProvider(baseUrl, 'llama3.1', '');
+    const result = await generateStructured(provider, { prompt: 'Define ephemeral' }, SCHEMA);
+    expect(result).toEqual({ definition: 'short-lived', example: 'An ephemeral fame.' });
+    const request = received[received.length - 1];
+    expect(request.headers.authorization).toBeUndefined();
+    expect(request.body.response_format).toEqual({ type: 'json_schema', json_schema: { name: 'response', schema: SCHEMA } });
+    expect(request.body.messages[0].content).toContain(JSON.stringify(SCHEMA));
+  });
+
+  it('reports an error status from the server', async () => {
+    const provider = new OpenAiCompatibleProvider(baseUrl, 'llama3.1', '');
+    const error = await provider.generateText({ prompt: 'please fail' }).catch(e => e);
+    expect(error).toBeInstanceOf(LlmRequestError);
+    expect(error.status).toBe(503);
+    expect(error.message).toContain('model is loading');
+  });
+});
+
+describe('OpenAiCompatibleProvider', () => {
+  it('joins the base URL without doubling slashes', async () => {
+    const { provider, calls } = stubbed(() => jsonResponse(completion('ok')));
+    await provider.generateText({ prompt: 'hi' });
+    expect(calls[0].url).toBe('http://llm.test/v1/chat/completions');
+  });
+
+  it('turns a non-2xx answer into LlmRequestError with its status', async () => {
+    const { provider } = stubbed(() => new Response('Invalid API key', { status: 401, statusText: 'Unauthorized' }));
+    await expect(provider.generateText({ prompt: 'hi' })).rejects.toMatchObject({
+      name: 'LlmRequestError', status: 401, message: '401 Unauthorized Invalid API key'
+    });
+  });
+
+  it('turns a network failure into LlmRequestError', async () => {
+    const { provider } = stubbed(() => { throw new TypeError('fetch failed'); });
+    const error = await provider.generateText({ prompt: 'hi' }).catch(e => e);
+    expect(error).toBeInstanceOf(LlmRequestError);
+    expect(error.message).toBe('Could not reach http://llm.test/v1/: fetch failed');
+  });
+
+  it('rejects a body that is not a completion', async () => {
+    const { provider } = stubbed(() => new Response('<html>proxy error</html>', { status: 200 }));
+    await expect(provider.generateText({ prompt: 'hi' })).rejects.toThrow(LlmResponseError);
+    const { provider: empty } = stubbed(() => jsonResponse({ choices: [] }));
+    await expect(empty.generateText({ prompt: 'hi' })).rejects.toThrow('No response from AI');
+  });
+
+  it('rejects structured output that is not JSON', async () => {
+    const { provider } = stubbed(() => jsonResponse(completion('Sure! The definition is: short-lived.')));
+    await expect(generateStructured(provider, { prompt: 'Define' }, SCHEMA)).rejects.toThrow('Response is not valid JSON');
+  });
+
+  it('rejects structured output that does not match the schema', async () => {
+    const { provider } = stubbed(() => jsonResponse(completion('{"definition": 3, "example": "x"}')));
+    await expect(generateStructured(provider, { prompt: 'Define' }, SCHEMA)).rejects.toThrow('response.definition must be a string');
+    const { provider: partial } = stubbed(() => jsonResponse(completion('{"definition": "short-lived"}')));
+    await expect(generateStructured(partial, { prompt: 'Define' }, SCHEMA)).rejects.toThrow('response.example is missing');
+  });
+
+  it('passes the signal to fetch and rejects with its AbortError when cancelled', async () => {
+    const { provider, calls } = stubbed(init => new Promise<Response>((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    }));
+    const controller = new AbortController();
+    const pending = provider.generateText({ prompt: 'slow', signal: controller.signal });
+    controller.abort();
+    const error = await pending.catch(e => e);
+    expect(calls[0].init.signal).toBe(controller.signal);
+    expect(error.name).toBe('AbortError');
+    expect(error).not.toBeInstanceOf(LlmRequestError);
+  });
+});
+
+describe('provider switch', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('creates the provider the settings name', () => {
+    const gemini = createLlmProvider({ provider: 'gemini', baseUrl: '', model: '', apiKey: 'key' });
+    const openai = createLlmProvider({ provider: 'openai', baseUrl: 'http://localhost:11434/v1', model: ' ', apiKey: '' });
+    expect(gemini).toBeInstanceOf(GeminiProvider);
+    expect(gemini.id).toBe('gemini');
+    expect(openai).toBeInstanceOf(OpenAiCompatibleProvider);
+    expect(openai.id).toBe('openai');
+  });
+
+  it('sends the AI features to the configured OpenAI-compatible server', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse(completion('{"definition": "short-lived", "example": "An ephemeral fame."}')));
+    vi.stubGlobal('fetch', fetchMock);
+    const ai = new AiService();
+    ai.configure({ provider: 'openai', baseUrl: 'http://localhost:11434/v1', model: '', apiKey: '' });
+    expect(await ai.defineInContext('ephemeral', 'an ephemeral glow')).toEqual({ definition: 'short-lived', example: 'An ephemeral fame.' });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(init.body as string).model).toBe('llama3.1');
+  });
+});
@@ -0,0 +1,61 @@
+import { LlmProvider, LlmRequest, JsonSchema, LlmRequestError, LlmResponseError } from './llmProvider';
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API: OpenAI itself, or a
+ * local/in-house endpoint such as Ollama, llama.cpp or vLLM. `fetch` can be swapped out,
+ * and the base URL pointed at a mock server, for testing.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly apiKey: string,
+    private readonly fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+  ) {}
+
+  private async complete(request: LlmRequest, extra: Record<string, unknown>): Promise<string> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        signal: request.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: request.temperature,
+          ...extra
+        })
+      });
+    } catch (e) {
+      if (request.signal?.aborted) throw e;
+      throw new LlmRequestError(`Could not reach ${this.baseUrl}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LlmRequestError(`${response.status} ${response.statusText} ${detail}`.trim().substring(0, 300), response.status);
+    }
+
+    const data = await response.json().catch(() => null);
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content) throw new LlmResponseError("No response from AI");
+    return content;
+  }
+
+  generateText(request: LlmRequest): Promise<string> {
+    return this.complete(request, {});
+  }
+
+  generateJson(request: LlmRequest, schema: JsonSchema): Promise<string> {
+    // Servers that ignore response_format still see the schema in the prompt
+    const prompt = `${request.prompt}\n\nRespond with only a JSON value matching this JSON Schema:\n${JSON.stringify(schema)}`;
+    return this.complete({ ...request, prompt }, {
+      response_format: { type: 'json_schema', json_schema: { name: 'response', schema } }
+    });
+  }
+}
@@ -0,0 +1,95 @@
+/** A voice the speech engine can narrate with. */
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  lang: string;
+  isDefault: boolean;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceId: string; // Empty for the engine's default voice
+  rate: number;
+  pitch: number;
+}
+
+export interface SpeechHandlers {
+  onBoundary: (charIndex: number) => void; // A word starting at this offset into the text is being spoken
+  onEnd: () => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * Text-to-speech as narration needs it: one utterance at a time, reporting word
+ * boundaries. Once cancelled, an utterance's handlers are never called again.
+ * The browser's speech synthesis in the app; tests can stand in a fake.
+ */
+export interface SpeechEngine {
+  readonly available: boolean;
+  voices(): SpeechVoice[];
+  /** Browsers load their voices asynchronously; returns an unsubscribe function. */
+  onVoicesChanged(listener: () => void): () => void;
+  speak(request: SpeechRequest, handlers: SpeechHandlers): void;
+  cancel(): void;
+}
+
+/** The Web Speech API's speechSynthesis. */
+export class BrowserSpeechEngine implements SpeechEngine {
+  // Held so the utterance isn't garbage collected mid-sentence, which silently drops its end event in Chrome
+  private current: SpeechSynthesisUtterance | null = null;
+
+  get available(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  voices(): SpeechVoice[] {
+    if (!this.available) return [];
+    return window.speechSynthesis.getVoices().map(v => ({ id: v.voiceURI, name: v.name, lang: v.lang, isDefault: v.default }));
+  }
+
+  onVoicesChanged(listener: () => void): () => void {
+    if (!this.available) return () => {};
+    window.speechSynthesis.addEventListener('voiceschanged', listener);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', listener);
+  }
+
+  speak(request: SpeechRequest, handlers: SpeechHandlers) {
+    if (!this.available) {
+      handlers.onError('Speech synthesis is not supported in this browser');
+      return;
+    }
+    this.cancel();
+    const utterance = new SpeechSynthesisUtterance(request.text);
+    const voice = request.voiceId ? window.speechSynthesis.getVoices().find(v => v.voiceURI === request.voiceId) : undefined;
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    }
+    utterance.rate = request.rate;
+    utterance.pitch = request.pitch;
+    utterance.onboundary = e => { if (e.name === 'word') handlers.onBoundary(e.charIndex); };
+    utterance.onend = () => {
+      if (this.current !== utterance) return;
+      this.current = null;
+      handlers.onEnd();
+    };
+    utterance.onerror = e => {
+      if (this.current !== utterance) return;
+      this.current = null;
+      handlers.onError(e.error);
+    };
+    this.current = utterance;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  cancel() {
+    const utterance = this.current;
+    if (!this.available) return;
+    this.current = null;
+    // Chrome still delivers boundary and end events after cancel()
+    if (utterance) utterance.onboundary = utterance.onend = utterance.onerror = null;
+    window.speechSynthesis.cancel();
+  }
+}
+
+export const browserSpeechEngine = new BrowserSpeechEngine();
@@ -0,0 +1,363 @@
+import { LibraryItem, ReadingSession, VocabularyWord, StructuredDocument, DocumentVersion } from '../types';
+import { parseDocument, markersFromWordStarts, refreshDocument } from '../utils/documentModel';
+import { DocumentIndex } from '../utils/searchIndex';
+import { migrateCard } from '../utils/scheduler';
+import { liftVocabulary, LegacyWord } from '../utils/vocabulary';
+import { CachedDefinition } from './definitionCache';
+
+const DB_NAME = 'breezereader';
+const LEGACY_STORAGE_KEY = 'breezereader_lib';
+// Coalesce reading-position ticks so playback doesn't hit the disk on every word
+const POSITION_FLUSH_MS = 1000;
+
+type ItemRecord = Omit<LibraryItem, 'content' | 'document' | 'sessions' | 'versions'>;
+interface ContentRecord { id: string; content: string; document?: StructuredDocument; versions?: DocumentVersion[]; }
+type SessionRecord = ReadingSession & { itemId: string };
+// Before v6, cards were filed under the document they were saved from
+type LegacyVocabRecord = LegacyWord & { itemId: string };
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const toItemRecord = ({ content, document, sessions, versions, ...meta }: LibraryItem): ItemRecord => meta;
+
+const toContentRecord = (item: LibraryItem): ContentRecord =>
+  ({ id: item.id, content: item.content, document: item.document, versions: item.versions });
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const sessionRange = (itemId: string) => IDBKeyRange.bound([itemId, -Infinity], [itemId, Infinity]);
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+/**
+ * Writes a library item across the split stores.
+ * Sessions are replaced wholesale for that item.
+ */
+const writeItem = (tx: IDBTransaction, item: LibraryItem) => {
+  tx.objectStore('items').put(toItemRecord(item));
+  tx.objectStore('contents').put(toContentRecord(item));
+
+  const sessions = tx.objectStore('sessions');
+  sessions.delete(sessionRange(item.id));
+  item.sessions.forEach(s => sessions.put({ ...s, itemId: item.id } as SessionRecord));
+};
+
+/**
+ * Schema migrations keyed by the version they upgrade the database *to*.
+ * They run in order inside the versionchange transaction, so a fresh install
+ * replays all of them and an existing install only runs the missing ones.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v1: split stores, import the legacy single-blob localStorage library
+  1: (db, tx) => {
+    db.createObjectStore('items', { keyPath: 'id' });
+    db.createObjectStore('contents', { keyPath: 'id' });
+    // Sessions are keyed by (item, start time) so they can be rewritten in place
+    db.createObjectStore('sessions', { keyPath: ['itemId', 'date'] }).createIndex('itemId', 'itemId');
+    db.createObjectStore('vocabulary', { keyPath: 'id' }).createIndex('itemId', 'itemId');
+    db.createObjectStore('meta');
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!legacy) return;
+    try {
+      const items: (LibraryItem & { vocabulary?: LegacyWord[] })[] = JSON.parse(legacy);
+      const vocabulary = tx.objectStore('vocabulary');
+      items.forEach(({ vocabulary: words = [], ...item }) => {
+        writeItem(tx, { ...item, sessions: item.sessions || [] });
+        words.forEach(v => vocabulary.put({ ...v, itemId: item.id } as LegacyVocabRecord));
+      });
+    } catch (e) {
+      console.error("Failed to migrate legacy library", e);
+    }
+  },
+  // v2: chapter word offsets on the item become sections of a parsed document stored with the content
+  2: (_db, tx) => {
+    const contents = tx.objectStore('contents');
+    tx.objectStore('items').openCursor().onsuccess = function () {
+      const cursor = this.result;
+      if (!cursor) return;
+      const { sections, ...item } = cursor.value;
+      contents.get(item.id).onsuccess = function () {
+        const record: ContentRecord | undefined = this.result;
+        if (!record) return;
+        const document = parseDocument(record.content, sections && markersFromWordStarts(record.content, sections));
+        contents.put({ ...record, document });
+        tx.objectStore('items').put({ ...item, totalWords: document.wordCount });
+      };
+      cursor.continue();
+    };
+  },
+  // v3: per-document search postings, filled in by the app after load
+  3: (db) => {
+    db.createObjectStore('search', { keyPath: 'id' });
+  },
+  // v4: dictionary lookups, evicted least recently used first
+  4: (db) => {
+    db.createObjectStore('definitions', { keyPath: 'key' }).createIndex('usedAt', 'usedAt');
+  },
+  // v5: vocabulary cards gain spaced-repetition state in place of the fixed review intervals
+  5: (_db, tx) => {
+    // Read in one go, so the rewrites are queued ahead of anything a later migration writes
+    const vocabulary = tx.objectStore('vocabulary');
+    vocabulary.getAll().onsuccess = function () {
+      (this.result as LegacyVocabRecord[]).forEach(record => vocabulary.put(migrateCard(record)));
+    };
+  },
+  // v6: one library-wide entry per headword, with where it was met, in place of per-document cards
+  6: (_db, tx) => {
+    const vocabulary = tx.objectStore('vocabulary');
+    vocabulary.deleteIndex('itemId');
+    const titles = new Map<string, string>();
+    tx.objectStore('items').getAll().onsuccess = function () {
+      (this.result as ItemRecord[]).forEach(item => titles.set(item.id, item.title));
+    };
+    vocabulary.getAll().onsuccess = function () {
+      const records = this.result as LegacyVocabRecord[];
+      vocabulary.clear();
+      liftVocabulary(records.map(({ itemId, ...word }) => ({ word, itemId, title: titles.get(itemId) || '' })))
+        .forEach(word => vocabulary.put(word));
+    };
+  },
+  // v7: a summary per version in place of one per item, which a summary of another version overwrote
+  7: (_db, tx) => {
+    const items = tx.objectStore('items');
+    items.openCursor().onsuccess = function () {
+      const cursor = this.result;
+      if (!cursor) return;
+      const { summary, ...item } = cursor.value;
+      if (summary) cursor.update({ ...item, summaries: [summary] });
+      cursor.continue();
+    };
+  }
+};
+
+export const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+export class StorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private pendingPositions = new Map<string, number>();
+  private positionTimer: number | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (e) => {
+        const tx = req.transaction!;
+        for (let v = e.oldVersion + 1; v <= DB_VERSION; v++) {
+          MIGRATIONS[v]?.(req.result, tx);
+        }
+      };
+      req.onsuccess = () => {
+        // Legacy data is in IndexedDB now, free up the localStorage quota
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        resolve(req.result);
+      };
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => console.warn("Library database upgrade blocked by another open tab");
+    });
+    this.dbPromise.catch(() => { this.dbPromise = null; });
+    return this.dbPromise;
+  }
+
+  async loadLibrary(): Promise<LibraryItem[]> {
+    const db = await this.open();
+    const tx = db.transaction(['items', 'contents', 'sessions'], 'readonly');
+    const [items, contents, sessions] = await Promise.all([
+      request<ItemRecord[]>(tx.objectStore('items').getAll()),
+      request<ContentRecord[]>(tx.objectStore('contents').getAll()),
+      request<SessionRecord[]>(tx.objectStore('sessions').getAll())
+    ]);
+
+    const contentById = new Map(contents.map(c => [c.id, c]));
+    const group = <T extends { itemId: string }>(records: T[]) => {
+      const map = new Map<string, Omit<T, 'itemId'>[]>();
+      records.forEach(({ itemId, ...rest }) => {
+        if (!map.has(itemId)) map.set(itemId, []);
+        map.get(itemId)!.push(rest);
+      });
+      return map;
+    };
+    const sessionsById = group(sessions);
+
+    const stale: LibraryItem[] = [];
+    const library = items
+      .map(meta => {
+        const record = contentById.get(meta.id);
+        const content = record?.content || '';
+        const item: LibraryItem = {
+          ...meta,
+          content,
+          document: record?.document!,
+          versions: record?.versions,
+          sessions: (sessionsById.get(meta.id) || []) as ReadingSession[]
+        };
+        // Documents parsed by an older model version are rebuilt and written back once
+        const refreshed = refreshDocument(content, record?.document, meta.lastPosition);
+        if (!refreshed) return item;
+        const updated = { ...item, ...refreshed, totalWords: refreshed.document.wordCount };
+        stale.push(updated);
+        return updated;
+      })
+      .sort((a, b) => b.date - a.date);
+
+    if (stale.length > 0) {
+      const writeTx = db.transaction(['items', 'contents'], 'readwrite');
+      stale.forEach(item => {
+        writeTx.objectStore('items').put(toItemRecord(item));
+        writeTx.objectStore('contents').put(toContentRecord(item));
+      });
+      await transactionDone(writeTx);
+    }
+    return library;
+  }
+
+  /** Writes a whole item. Use for imports; prefer the targeted writers below for edits. */
+  async saveItem(item: LibraryItem): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(['items', 'contents', 'sessions'], 'readwrite');
+    writeItem(tx, item);
+    await transactionDone(tx);
+  }
+
+  /** Patches the metadata record only, leaving content and sessions untouched. */
+  async updateItem(id: string, updates: Partial<ItemRecord>): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('items', 'readwrite');
+    const store = tx.objectStore('items');
+    const existing = await request<ItemRecord | undefined>(store.get(id));
+    if (existing) store.put({ ...existing, ...updates, id });
+    await transactionDone(tx);
+  }
+
+  /** Replaces the text, its parsed document and the saved versions together. */
+  async saveContent(id: string, content: string, document: StructuredDocument, versions?: DocumentVersion[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('contents', 'readwrite');
+    tx.objectStore('contents').put({ id, content, document, versions } as ContentRecord);
+    await transactionDone(tx);
+  }
+
+  /** Queues a reading-position update; ticks within the flush window are merged. */
+  savePosition(id: string, position: number) {
+    this.pendingPositions.set(id, position);
+    if (this.positionTimer !== null) return;
+    this.positionTimer = window.setTimeout(() => this.flushPositions(), POSITION_FLUSH_MS);
+  }
+
+  async flushPositions(): Promise<void> {
+    if (this.positionTimer !== null) {
+      clearTimeout(this.positionTimer);
+      this.positionTimer = null;
+    }
+    const pending = Array.from(this.pendingPositions);
+    this.pendingPositions.clear();
+    await Promise.all(pending.map(([id, lastPosition]) => this.updateItem(id, { lastPosition })));
+  }
+
+  async addSession(itemId: string, session: ReadingSession): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('sessions', 'readwrite');
+    tx.objectStore('sessions').put({ ...session, itemId } as SessionRecord);
+    await transactionDone(tx);
+  }
+
+  /** The whole vocabulary, newest first. It outlives the documents its words were met in. */
+  async loadVocabulary(): Promise<VocabularyWord[]> {
+    const db = await this.open();
+    const words = await request<VocabularyWord[]>(db.transaction('vocabulary', 'readonly').objectStore('vocabulary').getAll());
+    return words.sort((a, b) => b.date - a.date);
+  }
+
+  async saveVocab(word: VocabularyWord): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('vocabulary', 'readwrite');
+    tx.objectStore('vocabulary').put(word);
+    await transactionDone(tx);
+  }
+
+  async saveVocabList(words: VocabularyWord[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('vocabulary', 'readwrite');
+    const store = tx.objectStore('vocabulary');
+    words.forEach(word => store.put(word));
+    await transactionDone(tx);
+  }
+
+  async loadSearchIndex(): Promise<DocumentIndex[]> {
+    const db = await this.open();
+    return request<DocumentIndex[]>(db.transaction('search', 'readonly').objectStore('search').getAll());
+  }
+
+  async saveSearchEntry(entry: DocumentIndex): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('search', 'readwrite');
+    tx.objectStore('search').put(entry);
+    await transactionDone(tx);
+  }
+
+  async getDefinition(key: string): Promise<CachedDefinition | undefined> {
+    const db = await this.open();
+    return request<CachedDefinition | undefined>(db.transaction('definitions', 'readonly').objectStore('definitions').get(key));
+  }
+
+  async saveDefinition(entry: CachedDefinition): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('definitions', 'readwrite');
+    tx.objectStore('definitions').put(entry);
+    await transactionDone(tx);
+  }
+
+  /** Drops expired definitions, then the least recently used ones until at most `maxEntries` remain. */
+  async pruneDefinitions(maxEntries: number, now = Date.now()): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('definitions', 'readwrite');
+    const store = tx.objectStore('definitions');
+    let excess = (await request(store.count())) - maxEntries;
+    store.index('usedAt').openCursor().onsuccess = function () {
+      const cursor = this.result;
+      if (!cursor) return;
+      const entry: CachedDefinition = cursor.value;
+      if (excess > 0 || entry.expiresAt <= now) {
+        cursor.delete();
+        excess--;
+      }
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    this.pendingPositions.delete(id);
+    const db = await this.open();
+    // Vocabulary stays: its sightings keep the document's title
+    const tx = db.transaction(['items', 'contents', 'sessions', 'search'], 'readwrite');
+    tx.objectStore('items').delete(id);
+    tx.objectStore('contents').delete(id);
+    tx.objectStore('search').delete(id);
+    tx.objectStore('sessions').delete(sessionRange(id));
+    await transactionDone(tx);
+  }
+
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    const db = await this.open();
+    return request<T | undefined>(db.transaction('meta', 'readonly').objectStore('meta').get(key));
+  }
+
+  async setMeta<T>(key: string, value: T): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction('meta', 'readwrite');
+    tx.objectStore('meta').put(value, key);
+    await transactionDone(tx);
+  }
+}
+
+export const storageService = new StorageService();
@@ -3,22 +3,190 @@ export type Theme = 'light' | 'dark' | 'sepia';
 export type ReadingMode = 'rsvp-single' | 'rsvp-chunk' | 'flow' | 'classic';
 export type DictionaryMode = 'ai' | 'standard';
 
-export interface ReadingSession {
-  date: number;
+export type RampCurve = 'linear' | 'stepped' | 'sprint';
+
+/** Speed at a point in a session; a new sample is recorded whenever the speed changes. */
+export interface SpeedSample {
+  word: number; // Words into the session
   wpm: number;
-  duration: number; // in seconds
+}
+
+/** Outcome of the comprehension quiz taken at the end of a session. */
+export interface QuizResult {
+  correct: number;
+  total: number;
+  source: 'ai' | 'offline';
+}
+
+export interface ReadingSession {
+  date: number; // When the session opened
+  wpm: number; // Effective speed: words read over active time
+  duration: number; // in seconds, from opening to closing, pauses included
   wordsRead: number;
+  // Sessions logged before session tracking only have the fields above
+  activeTime?: number; // in seconds, pauses excluded
+  startPosition?: number; // Token index where the session opened
+  endPosition?: number;
+  rewinds?: number;
+  mode?: ReadingMode;
+  speedProfile?: SpeedSample[]; // Only recorded for ramped sessions
+  quiz?: QuizResult;
+}
+
+/** Where a card is in spaced repetition; see utils/scheduler. */
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+/** An exercise a review can ask; see utils/drills. Every kind but flip grades itself. */
+export type DrillKind = 'flip' | 'choice' | 'reverse' | 'cloze' | 'typed';
+
+export interface ReviewLogEntry {
+  date: number;
+  rating: ReviewRating;
+  state: CardState; // Before the review
+  interval: number; // Milliseconds until the card was next due
+  ease: number; // After the review
+}
+
+/** A place a saved word was met while reading. */
+export interface VocabularySighting {
+  itemId: string;
+  title: string; // The document's title then, kept in case the document is deleted
+  wordIndex?: number; // Token index in that version's text; missing on words saved before sightings
+  versionId?: string; // Version of the text it was met in, as for highlights
+  sentence: string; // The sentence around it, empty when unknown
+  date: number;
 }
 
+/** One entry per headword, shared by the whole library. */
 export interface VocabularyWord {
   id: string;
   word: string;
+  headword: string; // Dictionary form, e.g. "took off"; unique across the vocabulary
   definition: string;
   examples: string[];
+  sightings: VocabularySighting[]; // Oldest first; none for imported words
   date: number;
   // SRS Fields
-  proficiency: number; // 0 = New, 1 = Hard, 2 = Good, 3 = Mastered
+  proficiency: number; // 0 = New, 1 = Learning, 2 = Reviewing, 3 = Mastered; follows the state below
   nextReview: number; // Timestamp
+  state: CardState;
+  ease: number; // Interval multiplier for a good answer, 1.3 and up
+  stability: number; // Current review interval in days: how long the word is expected to stick
+  step: number; // Position in the learning or relearning steps
+  reps: number;
+  lapses: number; // Times a review card was forgotten
+  reviewLog: ReviewLogEntry[];
+}
+
+/*
+ * Structured document model: sections > paragraphs > sentences > tokens.
+ * `start`/`end` are character offsets into LibraryItem.content, which stay stable when the
+ * model is rebuilt. Token `index` is the position in reading order, the unit lastPosition counts.
+ */
+export interface DocumentToken {
+  text: string; // Display text, with attached punctuation
+  kind: 'word' | 'number' | 'url';
+  index: number;
+  start: number;
+  end: number;
+}
+
+export interface DocumentSentence {
+  start: number;
+  end: number;
+  tokens: DocumentToken[];
+}
+
+export interface DocumentParagraph {
+  index: number; // Ordinal across the whole document
+  kind: 'paragraph' | 'heading';
+  level?: number; // Heading level, 1-6
+  start: number;
+  end: number;
+  sentences: DocumentSentence[];
+}
+
+export interface DocumentSection {
+  title: string;
+  startWord: number; // Index of the section's first token
+  start: number;
+  end: number;
+  paragraphs: DocumentParagraph[];
+}
+
+export interface StructuredDocument {
+  version: number;
+  wordCount: number;
+  sections: DocumentSection[];
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+/*
+ * Annotations anchor to character offsets into content, like the document model, so they
+ * survive the model being rebuilt. `text` is a snapshot for listing without the document.
+ */
+export interface Highlight {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+  color: HighlightColor;
+  note?: string;
+  date: number;
+  versionId?: string; // Version of the text the offsets refer to; unset for the original
+}
+
+export interface Bookmark {
+  id: string;
+  offset: number; // Start of the bookmarked token
+  text: string; // A few words from the bookmarked point
+  date: number;
+  versionId?: string; // As for highlights
+}
+
+export type DocumentVersionKind = 'original' | 'rewrite';
+
+export type TransformPresetId =
+  | 'rsvp' | 'grade-level' | 'plain-language' | 'executive-summary' | 'bullet-outline' | 'expand-jargon' | 'custom';
+
+/** The user's inputs to the presets that take any, remembered between runs. */
+export interface TransformOptions {
+  gradeLevel: number; // US school grade, 1-12
+  customPrompt: string;
+}
+
+/**
+ * A saved text of a document. Once an item has versions, its content and document
+ * are the active one's; versions only keep the text and re-parse when switched to.
+ */
+export interface DocumentVersion {
+  id: string;
+  label: string;
+  kind: DocumentVersionKind;
+  preset?: TransformPresetId; // The transformation that produced a rewrite
+  content: string;
+  sections?: { title: string; offset: number }[]; // Section markers, for importer-defined sections
+  date: number;
+  wordCount: number;
+}
+
+/** One line on a section, or on a stretch of text when the document has no sections. */
+export interface SectionSummary {
+  title: string;
+  offset: number; // Where it starts in the summarised text, for jumping there
+  summary: string;
+}
+
+/** A "before you read" overview of a document, made by the model or picked out of the text. */
+export interface DocumentSummary {
+  overview: string;
+  sections: SectionSummary[];
+  source: 'ai' | 'offline';
+  date: number;
+  versionId?: string; // Version of the text summarised, as for highlights
 }
 
 export interface LibraryItem {
@@ -29,7 +197,65 @@ export interface LibraryItem {
   date: number;
   totalWords: number;
   sessions: ReadingSession[];
-  vocabulary: VocabularyWord[];
+  profileId?: string; // Settings profile applied when the document is opened
+  document: StructuredDocument; // Parsed from content
+  highlights?: Highlight[];
+  bookmarks?: Bookmark[];
+  tags?: string[];
+  collectionIds?: string[];
+  lastOpened?: number; // When the reader last opened it, for "continue reading"
+  archived?: boolean;
+  deletedAt?: number; // Soft-deleted: hidden, and removed for good once the undo window passes
+  versions?: DocumentVersion[]; // Stored with the content; absent until the first rewrite
+  activeVersionId?: string;
+  summaries?: DocumentSummary[]; // At most one per version, told apart by versionId
+}
+
+/** A user-defined shelf of library items. */
+export interface Collection {
+  id: string;
+  name: string;
+  date: number;
+}
+
+/**
+ * Strength of each pacing factor, as the delay multiplier applied where the factor
+ * fully applies. 1 turns a factor off.
+ */
+export interface PacingSettings {
+  sentenceEnd: number;
+  clause: number; // Commas, semicolons, colons, dashes
+  paragraph: number;
+  heading: number;
+  frequency: number; // Rarest words, scaled down towards common ones
+  syllables: number; // Per syllable beyond the second
+  numbers: number;
+  properNouns: number;
+  novelty: number; // First occurrence of a rare word in the document
+}
+
+/**
+ * Training ramp from startWpm to targetWpm over rampWords.
+ * - linear: speeds up a little on every word
+ * - stepped: jumps up every intervalWords words
+ * - sprint: alternates intervalWords of recovery with intervalWords at the target; the
+ *   recovery speed starts at startWpm and creeps up as the ramp progresses
+ */
+export interface SpeedRamp {
+  enabled: boolean;
+  startWpm: number;
+  targetWpm: number;
+  curve: RampCurve;
+  rampWords: number;
+  intervalWords: number;
+}
+
+/** Reading aloud with the browser's speech synthesis. The voice sets the pace, not wpm. */
+export interface NarrationSettings {
+  enabled: boolean;
+  voiceId: string; // The voice's URI; empty for the browser's default voice
+  rate: number; // 0.5-2, where 1 is the voice's normal speed
+  pitch: number; // 0-2, where 1 is the voice's normal pitch
 }
 
 export interface ReadingSettings {
@@ -41,7 +267,32 @@ export interface ReadingSettings {
   theme: Theme;
   mode: ReadingMode;
   dictionaryMode: DictionaryMode;
+  prefetchDefinitions: boolean; // Fetch dictionary entries for rare words ahead of the reader
   wpm: number;
   chunkSize: number;
   showFocusGuide: boolean;
+  offerQuizzes: boolean; // Offer a comprehension quiz after each section and at the end
+  pacing: PacingSettings;
+  ramp: SpeedRamp;
+  narration: NarrationSettings;
+}
+
+export type LlmProviderId = 'gemini' | 'openai';
+
+/**
+ * Which model backs the AI features. Kept apart from ReadingSettings so the key
+ * never ends up in a profile or a backup file.
+ */
+export interface LlmSettings {
+  provider: LlmProviderId;
+  baseUrl: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  model: string; // Empty for the provider's default
+  apiKey: string; // Empty to use the built-in Gemini key, or for servers without auth
+}
+
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: Partial<ReadingSettings>;
+  builtIn?: boolean;
 }
@@ -0,0 +1,185 @@
+import { VocabularyWord } from '../types';
+import { DEFAULT_SCHEDULER } from './scheduler';
+
+declare const JSZip: any;
+declare const initSqlJs: any;
+
+const SQL_JS_CDN = 'https://cdnjs.cloudflare.com/ajax/libs/sql.js/1.10.3/';
+const DAY = 24 * 60 * 60 * 1000;
+
+// Fixed so a package imported twice updates the same note type and deck instead of adding copies
+const MODEL_ID = 1700000000001;
+const DECK_ID = 1700000000002;
+export const ANKI_DECK_NAME = 'BreezeReader';
+export const ANKI_FIELDS = ['Word', 'Definition', 'Examples', 'Source', 'Context'];
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Anki fields are HTML; line breaks and tabs would otherwise split the note in a TSV file
+const fieldHtml = (text: string) => escapeHtml(text.trim()).replace(/\r?\n/g, '<br>').replace(/\t/g, ' ');
+
+// Source and context come from where the word was last met
+const noteFields = (word: VocabularyWord): string[] => {
+  const sighting = word.sightings[word.sightings.length - 1];
+  return [
+    fieldHtml(word.word),
+    fieldHtml(word.definition),
+    word.examples.filter(e => e.trim()).map(fieldHtml).join('<br>'),
+    fieldHtml(sighting?.title || ''),
+    fieldHtml(sighting?.sentence || '')
+  ];
+};
+
+/**
+ * Anki's text import format: one note per line, fields in ANKI_FIELDS order. The header
+ * lines tell Anki 2.1.55+ the separator and column names; older versions map columns by hand.
+ */
+export const buildAnkiTsv = (words: VocabularyWord[]): string => [
+  '#separator:tab',
+  '#html:true',
+  `#deck:${ANKI_DECK_NAME}`,
+  `#columns:${ANKI_FIELDS.join('\t')}`,
+  ...words.map(word => noteFields(word).join('\t'))
+].join('\n') + '\n';
+
+let sqlJs: Promise<any> | null = null;
+const loadSqlJs = () => {
+  if (typeof initSqlJs === 'undefined') return Promise.reject(new Error('sql.js is not loaded'));
+  // The wasm binary is fetched once, on the first package export
+  sqlJs ??= initSqlJs({ locateFile: (file: string) => `${SQL_JS_CDN}${file}` });
+  return sqlJs;
+};
+
+/** Anki's duplicate check: the first 8 hex digits of the SHA-1 of the sort field, as a number. */
+const fieldChecksum = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex, 16);
+};
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = `.card { font-family: Arial, sans-serif; font-size: 20px; text-align: center; color: black; background-color: white; }
+.examples, .context { font-size: 16px; font-style: italic; color: #555; }
+.source { font-size: 12px; color: #999; margin-top: 1em; }`;
+
+const ANSWER_TEMPLATE = `{{FrontSide}}<hr id=answer>{{Definition}}
+{{#Examples}}<div class="examples">{{Examples}}</div>{{/Examples}}
+{{#Context}}<div class="context">{{Context}}</div>{{/Context}}
+{{#Source}}<div class="source">{{Source}}</div>{{/Source}}`;
+
+const deck = (id: number, name: string, mod: number) => ({
+  id, name, mod, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+  extendNew: 10, extendRev: 50, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0]
+});
+
+/** Collection-wide JSON columns: the note type, the decks and options matching our scheduler. */
+const collectionJson = (mod: number) => {
+  const config = DEFAULT_SCHEDULER;
+  const model = {
+    id: MODEL_ID, name: 'BreezeReader Vocabulary', type: 0, mod, usn: -1, sortf: 0, did: DECK_ID, tags: [], vers: [],
+    flds: ANKI_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    tmpls: [{ name: 'Recognition', ord: 0, qfmt: '{{Word}}', afmt: ANSWER_TEMPLATE, did: null, bqfmt: '', bafmt: '' }],
+    req: [[0, 'any', [0]]],
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}'
+  };
+  const options = {
+    id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+    new: {
+      delays: config.learningSteps, ints: [config.graduatingInterval, config.easyInterval, 7],
+      initialFactor: config.startingEase * 1000, order: 1, perDay: config.newPerDay, separate: true, bury: true
+    },
+    lapse: { delays: config.relearningSteps, mult: config.lapseMultiplier, minInt: 1, leechFails: 8, leechAction: 0 },
+    rev: {
+      perDay: config.reviewsPerDay, ease4: config.easyBonus, hardFactor: config.hardMultiplier,
+      ivlFct: 1, maxIvl: config.maximumInterval, fuzz: 0.05, minSpace: 1, bury: true
+    }
+  };
+  return {
+    conf: { nextPos: 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: DECK_ID, newSpread: 0, dueCounts: true, curModel: MODEL_ID, collapseTime: 1200 },
+    models: { [MODEL_ID]: model },
+    decks: { 1: deck(1, 'Default', mod), [DECK_ID]: deck(DECK_ID, ANKI_DECK_NAME, mod) },
+    dconf: { 1: options }
+  };
+};
+
+/**
+ * A card's Anki scheduling columns. Review and relearning cards carry their interval, ease
+ * and due day over; cards still in their first learning steps start again as new, since
+ * Anki's learning queue counts steps differently.
+ */
+const cardSchedule = (word: VocabularyWord, position: number, crt: number) => {
+  if (word.state === 'review' || word.state === 'relearning') {
+    return {
+      type: 2, queue: 2,
+      due: Math.max(0, Math.round((word.nextReview - crt) / DAY)),
+      ivl: Math.max(1, Math.round(word.stability)),
+      factor: Math.round(word.ease * 1000)
+    };
+  }
+  return { type: 0, queue: 0, due: position, ivl: 0, factor: 0 };
+};
+
+/**
+ * Builds an .apkg package: an Anki collection database holding one note per word in
+ * the "BreezeReader" deck, plus an empty media list, zipped. Words keep their review
+ * progress, and re-importing the same words updates their notes rather than duplicating them.
+ */
+export const buildApkg = async (words: VocabularyWord[]): Promise<Blob> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    const now = Date.now();
+    const mod = Math.floor(now / 1000);
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    const crt = today.getTime();
+    const json = collectionJson(mod);
+
+    db.run(SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      crt / 1000, now, now, JSON.stringify(json.conf), JSON.stringify(json.models),
+      JSON.stringify(json.decks), JSON.stringify(json.dconf), '{}'
+    ]);
+
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+      const fields = noteFields(word);
+      const sortField = word.word.trim();
+      const id = now + i;
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)', [
+        id, `breezereader-${word.id}`, MODEL_ID, mod, ' breezereader ', fields.join('\x1f'), sortField, await fieldChecksum(sortField), ''
+      ]);
+      const schedule = cardSchedule(word, i + 1, crt);
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, ?)', [
+        id, id, DECK_ID, mod, schedule.type, schedule.queue, schedule.due, schedule.ivl, schedule.factor, word.reps, word.lapses, ''
+      ]);
+    }
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'blob' });
+  } finally {
+    db.close();
+  }
+};
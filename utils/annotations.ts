@@ -0,0 +1,80 @@
+import { StructuredDocument, DocumentToken, Highlight, Bookmark, HighlightColor } from '../types';
+import { tokenIndexAtOffset } from './documentModel';
+
+export const HIGHLIGHT_COLORS: { id: HighlightColor; label: string; mark: string; swatch: string }[] = [
+  { id: 'yellow', label: 'Yellow', mark: 'bg-yellow-400/30 text-yellow-50', swatch: 'bg-yellow-400' },
+  { id: 'green', label: 'Green', mark: 'bg-green-400/30 text-green-50', swatch: 'bg-green-400' },
+  { id: 'blue', label: 'Blue', mark: 'bg-sky-400/30 text-sky-50', swatch: 'bg-sky-400' },
+  { id: 'pink', label: 'Pink', mark: 'bg-pink-400/30 text-pink-50', swatch: 'bg-pink-400' },
+];
+
+export const highlightClass = (color: HighlightColor) =>
+  HIGHLIGHT_COLORS.find(c => c.id === color)?.mark || '';
+
+// Binary search over tokens, which are in offset order
+const firstTokenEndingAfter = (tokens: DocumentToken[], offset: number) => {
+  let lo = 0;
+  let hi = tokens.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (tokens[mid].end > offset) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+};
+
+/** Indexes highlights and bookmarks by token, for rendering them inline. */
+export const annotateTokens = (tokens: DocumentToken[], highlights: Highlight[], bookmarks: Bookmark[]) => {
+  const highlightByToken = new Map<number, Highlight>();
+  const bookmarked = new Set<number>();
+  // Later highlights win where they overlap
+  [...highlights].sort((a, b) => a.date - b.date).forEach(h => {
+    for (let i = firstTokenEndingAfter(tokens, h.start); i < tokens.length && tokens[i].start < h.end; i++) {
+      highlightByToken.set(tokens[i].index, h);
+    }
+  });
+  bookmarks.forEach(b => {
+    const token = tokens[firstTokenEndingAfter(tokens, b.offset)];
+    if (token) bookmarked.add(token.index);
+  });
+  return { highlightByToken, bookmarked };
+};
+
+/** Builds a highlight over tokens [from, to], in either order. */
+export const createHighlight = (
+  tokens: DocumentToken[], from: number, to: number, color: HighlightColor, note: string, generateId: () => string
+): Highlight | null => {
+  const first = tokens[Math.min(from, to)];
+  const last = tokens[Math.max(from, to)];
+  if (!first || !last) return null;
+  return {
+    id: generateId(),
+    start: first.start,
+    end: last.end,
+    text: tokens.slice(first.index, last.index + 1).map(t => t.text).join(' '),
+    color,
+    ...(note.trim() ? { note: note.trim() } : {}),
+    date: Date.now()
+  };
+};
+
+export const createBookmark = (tokens: DocumentToken[], index: number, generateId: () => string): Bookmark | null => {
+  const token = tokens[index];
+  if (!token) return null;
+  return {
+    id: generateId(),
+    offset: token.start,
+    text: tokens.slice(index, index + 8).map(t => t.text).join(' '),
+    date: Date.now()
+  };
+};
+
+export type AnnotationEntry =
+  | { kind: 'highlight'; wordIndex: number; highlight: Highlight }
+  | { kind: 'bookmark'; wordIndex: number; bookmark: Bookmark };
+
+/** Every annotation with the token it points at, in reading order. */
+export const listAnnotations = (doc: StructuredDocument, highlights: Highlight[], bookmarks: Bookmark[]): AnnotationEntry[] => [
+  ...highlights.map(highlight => ({ kind: 'highlight' as const, wordIndex: tokenIndexAtOffset(doc, highlight.start), highlight })),
+  ...bookmarks.map(bookmark => ({ kind: 'bookmark' as const, wordIndex: tokenIndexAtOffset(doc, bookmark.offset), bookmark }))
+].sort((a, b) => a.wordIndex - b.wordIndex);
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runChunks, TextChunk, TransformCancelledError } from './documentChunks';
+import { createSummary } from './summary';
+import { parseDocument } from './documentModel';
+import { transformPreset, DEFAULT_TRANSFORM_OPTIONS } from './transformPresets';
+import { AiService, aiService } from '../services/aiService';
+import { DEFAULT_LLM_SETTINGS } from '../services/llmProvider';
+
+const OPENAI = { provider: 'openai' as const, baseUrl: 'http://llm.test/v1', model: 'test-model', apiKey: '' };
+
+const chunk = (text: string, startWord: number): TextChunk => ({ text, startWord, wordCount: 1 });
+
+/** A fetch whose requests only ever end by being aborted, like a slow model. */
+const hangingFetch = () => {
+  const signals: AbortSignal[] = [];
+  const fetchMock = vi.fn((_input: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_, reject) => {
+    signals.push(init!.signal!);
+    init!.signal!.addEventListener('abort', () => reject(init!.signal!.reason));
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return { fetchMock, signals };
+};
+
+// Lets the chunk requests get as far as fetch
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runChunks', () => {
+  it('returns the outputs in chunk order, trimmed', async () => {
+    const outputs = await runChunks([chunk('a', 0), chunk('b', 1), chunk('c', 2)], async text => ` ${text.toUpperCase()}\n`, { concurrency: 2 });
+    expect(outputs).toEqual(['A', 'B', 'C']);
+  });
+});
+
+describe('cancelling a transformation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    aiService.configure(DEFAULT_LLM_SETTINGS);
+  });
+
+  it('aborts the chunk requests in flight and rejects with TransformCancelledError', async () => {
+    const { fetchMock, signals } = hangingFetch();
+    const ai = new AiService();
+    ai.configure(OPENAI);
+    const preset = transformPreset('plain-language');
+    const controller = new AbortController();
+    const run = runChunks([chunk('One.', 0), chunk('Two.', 1), chunk('Three.', 2), chunk('Four.', 3)],
+      text => ai.transform(preset, text, { ...DEFAULT_TRANSFORM_OPTIONS, signal: controller.signal }),
+      { concurrency: 2, signal: controller.signal });
+    await settle();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    controller.abort();
+    await expect(run).rejects.toBeInstanceOf(TransformCancelledError);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+    // The chunks still queued are never sent
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts the combine request', async () => {
+    const { signals } = hangingFetch();
+    const ai = new AiService();
+    ai.configure(OPENAI);
+    const controller = new AbortController();
+    const combined = ai.combine(transformPreset('executive-summary'), ['One.', 'Two.'], { ...DEFAULT_TRANSFORM_OPTIONS, signal: controller.signal });
+    await settle();
+    controller.abort();
+    await expect(combined).rejects.toMatchObject({ name: 'AbortError' });
+    expect(signals).toHaveLength(1);
+  });
+
+  it('cancels a summary instead of falling back to the offline one', async () => {
+    const { fetchMock, signals } = hangingFetch();
+    const controller = new AbortController();
+    const content = '# One\n\nThe quick fox jumps over the lazy dog.\n\n# Two\n\nIt runs away into the dark woods.';
+    aiService.configure(OPENAI);
+    const summary = createSummary(content, parseDocument(content), { signal: controller.signal });
+    await settle();
+    expect(fetchMock).toHaveBeenCalled();
+    controller.abort();
+    await expect(summary).rejects.toBeInstanceOf(TransformCancelledError);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { StructuredDocument } from '../types';
+import { SectionMarker, paragraphTokens, tokenIndexAtOffset } from './documentModel';
+
+// Comfortably inside every provider's context window, with room for the prompt and the answer
+export const MAX_CHUNK_CHARS = 4000;
+export const DEFAULT_CONCURRENCY = 3;
+export const DEFAULT_RETRIES = 2;
+const RETRY_DELAY_MS = 1000;
+
+/** A run of paragraphs, or of sentences from an oversized one, sent to the model as one request. */
+export interface TextChunk {
+  text: string;
+  startWord: number;
+  wordCount: number;
+  section?: string; // Title of the section this chunk opens
+}
+
+export interface ChunkRunOptions {
+  concurrency?: number;
+  retries?: number; // Extra attempts per chunk before the whole run fails
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** The run was cancelled through its AbortSignal. */
+export class TransformCancelledError extends Error {
+  constructor() {
+    super('Transformation cancelled');
+    this.name = 'TransformCancelledError';
+  }
+}
+
+/**
+ * Splits a document into chunks of whole paragraphs, never crossing a section so
+ * section boundaries can be carried over to the output. A paragraph longer than
+ * `maxChars` is split between sentences, and only breaks into two paragraphs where
+ * it crosses a chunk boundary; a single longer sentence stays whole.
+ */
+export const chunkDocument = (content: string, doc: StructuredDocument, maxChars = MAX_CHUNK_CHARS): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+
+  doc.sections.forEach(section => {
+    let pieces: { text: string; startWord: number; wordCount: number; joiner: string }[] = [];
+    let length = 0;
+    let opensSection = !!section.title;
+
+    const flush = () => {
+      if (pieces.length === 0) return;
+      chunks.push({
+        text: pieces.map((p, i) => i === 0 ? p.text : p.joiner + p.text).join(''),
+        startWord: pieces[0].startWord,
+        wordCount: pieces.reduce((sum, p) => sum + p.wordCount, 0),
+        ...(opensSection ? { section: section.title } : {})
+      });
+      opensSection = false;
+      pieces = [];
+      length = 0;
+    };
+    const add = (text: string, startWord: number, wordCount: number, joiner = '\n\n') => {
+      if (length > 0 && length + text.length + joiner.length > maxChars) flush();
+      pieces.push({ text, startWord, wordCount, joiner });
+      length += text.length + joiner.length;
+    };
+
+    section.paragraphs.forEach(paragraph => {
+      const text = content.substring(paragraph.start, paragraph.end);
+      if (text.length <= maxChars) {
+        add(text, paragraphTokens(paragraph)[0].index, paragraphTokens(paragraph).length);
+        return;
+      }
+      paragraph.sentences.forEach((sentence, i) => {
+        add(content.substring(sentence.start, sentence.end), sentence.tokens[0].index, sentence.tokens.length, i === 0 ? '\n\n' : ' ');
+      });
+    });
+    flush();
+  });
+  return chunks;
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+/**
+ * Transforms every chunk, at most `concurrency` at a time, retrying each failed chunk
+ * with backoff. Resolves with the outputs in chunk order; rejects with the first chunk
+ * that runs out of retries, or with TransformCancelledError.
+ */
+export const runChunks = async (
+  chunks: TextChunk[],
+  transform: (text: string, index: number) => Promise<string>,
+  { concurrency = DEFAULT_CONCURRENCY, retries = DEFAULT_RETRIES, signal, onProgress }: ChunkRunOptions = {}
+): Promise<string[]> => {
+  const outputs: string[] = new Array(chunks.length);
+  let next = 0;
+  let done = 0;
+  let failed = false;
+
+  const attempt = async (index: number): Promise<string> => {
+    for (let tries = 0; ; tries++) {
+      if (signal?.aborted) throw new TransformCancelledError();
+      try {
+        return await transform(chunks[index].text, index);
+      } catch (e) {
+        // A request cut short by the signal rejects with its own AbortError
+        if (signal?.aborted) throw new TransformCancelledError();
+        if (tries >= retries) throw e;
+        await wait(RETRY_DELAY_MS * 2 ** tries, signal);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < chunks.length && !failed) {
+      const index = next++;
+      try {
+        outputs[index] = (await attempt(index)).trim();
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+      if (signal?.aborted) throw new TransformCancelledError();
+      onProgress?.(++done, chunks.length);
+    }
+  };
+
+  onProgress?.(0, chunks.length);
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  if (signal?.aborted) throw new TransformCancelledError();
+  return outputs;
+};
+
+export interface AssembledText {
+  content: string;
+  markers: SectionMarker[];
+  offsets: number[]; // Where each chunk's output starts in content
+}
+
+/** Joins chunk outputs back into one text, with section markers where the input's sections began. */
+export const assembleChunks = (chunks: TextChunk[], outputs: string[]): AssembledText => {
+  const offsets: number[] = [];
+  const markers: SectionMarker[] = [];
+  let content = '';
+  outputs.forEach((output, i) => {
+    if (content) content += '\n\n';
+    offsets.push(content.length);
+    const title = chunks[i].section;
+    if (title) markers.push({ title, offset: content.length });
+    content += output;
+  });
+  return { content, markers, offsets };
+};
+
+/**
+ * Carries a reading position across a chunked transformation: same chunk, same
+ * fraction of the way through it.
+ */
+export const mapChunkPosition = (
+  chunks: TextChunk[], offsets: number[], output: StructuredDocument, position: number
+): number => {
+  const index = chunks.findIndex(c => position < c.startWord + c.wordCount);
+  if (index === -1) return Math.max(0, output.wordCount - 1);
+  const chunk = chunks[index];
+  const start = tokenIndexAtOffset(output, offsets[index]);
+  const end = index + 1 < offsets.length ? tokenIndexAtOffset(output, offsets[index + 1]) : output.wordCount;
+  const fraction = Math.max(0, position - chunk.startWord) / Math.max(1, chunk.wordCount);
+  return Math.min(Math.max(start, end - 1), start + Math.floor(fraction * (end - start)));
+};
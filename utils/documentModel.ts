@@ -0,0 +1,211 @@
+import {
+  StructuredDocument, DocumentSection, DocumentParagraph, DocumentSentence, DocumentToken
+} from '../types';
+import { readingUnits } from './tokenizer';
+
+// Bump when parsing changes; stored documents with an older version are rebuilt on load
+export const DOCUMENT_MODEL_VERSION = 2;
+
+/** Marks where a named section begins, as a character offset into the content. */
+export interface SectionMarker {
+  title: string;
+  offset: number;
+}
+
+interface RawBlock {
+  start: number;
+  end: number;
+  level: number; // Markdown heading level, 0 for body text
+  textStart: number; // After the heading marker, if any
+}
+
+const HEADING_RE = /^(#{1,6})[ \t]+\S/;
+const SENTENCE_END_RE = /[.!?…]["'”’)\]]*$/;
+const ABBREVIATIONS = new Set(['mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'st.', 'vs.', 'etc.', 'e.g.', 'i.e.', 'jr.', 'sr.', 'no.', 'fig.']);
+
+/**
+ * Splits content into blocks on blank lines. A markdown heading line is always
+ * a block of its own, even without blank lines around it.
+ */
+const splitBlocks = (content: string): RawBlock[] => {
+  const blocks: RawBlock[] = [];
+  let blockStart = -1;
+  let blockEnd = -1;
+
+  const close = () => {
+    if (blockStart >= 0) blocks.push({ start: blockStart, end: blockEnd, level: 0, textStart: blockStart });
+    blockStart = -1;
+  };
+
+  let lineStart = 0;
+  while (lineStart <= content.length) {
+    let lineEnd = content.indexOf('\n', lineStart);
+    if (lineEnd === -1) lineEnd = content.length;
+    const line = content.substring(lineStart, lineEnd);
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      close();
+    } else {
+      const start = lineStart + line.indexOf(trimmed);
+      const end = start + trimmed.length;
+      const heading = trimmed.match(HEADING_RE);
+      if (heading) {
+        close();
+        blocks.push({ start, end, level: heading[1].length, textStart: start + heading[0].length - 1 });
+      } else {
+        if (blockStart < 0) blockStart = start;
+        blockEnd = end;
+      }
+    }
+    lineStart = lineEnd + 1;
+  }
+  close();
+  return blocks;
+};
+
+const isSentenceEnd = (word: string, next: string | undefined) => {
+  if (!SENTENCE_END_RE.test(word)) return false;
+  if (ABBREVIATIONS.has(word.toLowerCase())) return false;
+  // "3.5" or "U.S. economy": only break when the next word looks like a new sentence
+  return next === undefined || /^["'“‘(\[]*[\p{Lu}\p{N}]/u.test(next);
+};
+
+const parseBlock = (content: string, block: RawBlock, index: number, nextToken: { value: number }): DocumentParagraph => {
+  const tokens: DocumentToken[] = readingUnits(content.substring(block.textStart, block.end), block.textStart)
+    .map(unit => ({ text: unit.text, kind: unit.kind, index: nextToken.value++, start: unit.start, end: unit.end }));
+
+  const sentences: DocumentSentence[] = [];
+  let current: DocumentToken[] = [];
+  tokens.forEach((token, i) => {
+    current.push(token);
+    if (i === tokens.length - 1 || isSentenceEnd(token.text, tokens[i + 1]?.text)) {
+      sentences.push({ start: current[0].start, end: token.end, tokens: current });
+      current = [];
+    }
+  });
+
+  return {
+    index,
+    kind: block.level > 0 ? 'heading' : 'paragraph',
+    ...(block.level > 0 ? { level: block.level } : {}),
+    start: block.start,
+    end: block.end,
+    sentences
+  };
+};
+
+const paragraphText = (p: DocumentParagraph) =>
+  p.sentences.flatMap(s => s.tokens).map(t => t.text).join(' ');
+
+/**
+ * Parses plain text into the structured document model.
+ *
+ * Paragraphs are separated by blank lines; lines starting with `#` are headings.
+ * Sections come from the given markers when the importer knows them (EPUB chapters),
+ * otherwise from the top-level headings in the text.
+ */
+export const parseDocument = (content: string, markers?: SectionMarker[]): StructuredDocument => {
+  const nextToken = { value: 0 };
+  const paragraphs = splitBlocks(content)
+    .map((block, i) => parseBlock(content, block, i, nextToken))
+    .filter(p => p.sentences.length > 0)
+    .map((p, i) => ({ ...p, index: i }));
+
+  let boundaries: SectionMarker[];
+  if (markers && markers.length > 0) {
+    boundaries = [...markers].sort((a, b) => a.offset - b.offset);
+  } else {
+    const headings = paragraphs.filter(p => p.kind === 'heading');
+    const topLevel = Math.min(...headings.map(p => p.level!));
+    boundaries = headings
+      .filter(p => p.level === topLevel)
+      .map(p => ({ title: paragraphText(p), offset: p.start }));
+  }
+  if (boundaries.length === 0 || (paragraphs.length > 0 && paragraphs[0].start < boundaries[0].offset)) {
+    boundaries = [{ title: '', offset: 0 }, ...boundaries];
+  }
+
+  const sections: DocumentSection[] = boundaries.map((marker, i) => {
+    const end = i + 1 < boundaries.length ? boundaries[i + 1].offset : content.length;
+    const own = paragraphs.filter(p => p.start >= marker.offset && p.start < end);
+    const firstToken = own[0]?.sentences[0]?.tokens[0];
+    return {
+      title: marker.title,
+      startWord: firstToken ? firstToken.index : nextToken.value,
+      start: marker.offset,
+      end,
+      paragraphs: own
+    };
+  }).filter(s => s.paragraphs.length > 0 || s.title);
+
+  return { version: DOCUMENT_MODEL_VERSION, wordCount: nextToken.value, sections };
+};
+
+/** Section markers that reproduce an existing document's sections, for rebuilding it. */
+export const sectionMarkers = (doc: StructuredDocument): SectionMarker[] =>
+  doc.sections.filter(s => s.title).map(s => ({ title: s.title, offset: s.start }));
+
+/** Converts sections recorded as whitespace-word indices (pre-model format) into markers. */
+export const markersFromWordStarts = (content: string, sections: { title: string; startWord: number }[]): SectionMarker[] => {
+  const offsets: number[] = [];
+  const re = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(content))) offsets.push(match.index);
+  return sections.map(s => ({ title: s.title, offset: offsets[s.startWord] ?? content.length }));
+};
+
+export const documentParagraphs = (doc: StructuredDocument): DocumentParagraph[] =>
+  doc.sections.flatMap(s => s.paragraphs);
+
+export const documentTokens = (doc: StructuredDocument): DocumentToken[] =>
+  documentParagraphs(doc).flatMap(p => p.sentences.flatMap(s => s.tokens));
+
+export const paragraphTokens = (p: DocumentParagraph): DocumentToken[] =>
+  p.sentences.flatMap(s => s.tokens);
+
+/** Index of the section containing the given token, or -1 for an empty document. */
+export const sectionIndexAt = (doc: StructuredDocument, tokenIndex: number): number => {
+  let current = -1;
+  doc.sections.forEach((s, i) => { if (s.startWord <= tokenIndex || current === -1) current = i; });
+  return current;
+};
+
+/** Finds the paragraph and sentence containing a token, e.g. to address "paragraph 12". */
+export const locateToken = (doc: StructuredDocument, tokenIndex: number) => {
+  for (const paragraph of documentParagraphs(doc)) {
+    for (const sentence of paragraph.sentences) {
+      const last = sentence.tokens[sentence.tokens.length - 1];
+      if (last.index >= tokenIndex) return { paragraph, sentence };
+    }
+  }
+  return null;
+};
+
+/** Maps a character offset to the first token at or after it, clamped to the last token. */
+export const tokenIndexAtOffset = (doc: StructuredDocument, offset: number): number => {
+  const tokens = documentTokens(doc);
+  const found = tokens.find(t => t.end > offset);
+  return found ? found.index : Math.max(0, tokens.length - 1);
+};
+
+/**
+ * Rebuilds a document parsed by an older model version, carrying its sections over by
+ * character offset and mapping the reading position onto the new token indices.
+ * Returns null when the document is already current.
+ */
+export const refreshDocument = (
+  content: string,
+  previous: StructuredDocument | undefined,
+  lastPosition: number
+): { document: StructuredDocument; lastPosition: number } | null => {
+  if (previous && previous.version === DOCUMENT_MODEL_VERSION) return null;
+  if (!previous) return { document: parseDocument(content), lastPosition };
+
+  const document = parseDocument(content, sectionMarkers(previous));
+  const oldToken = documentTokens(previous)[lastPosition];
+  return {
+    document,
+    lastPosition: oldToken ? tokenIndexAtOffset(document, oldToken.start) : lastPosition
+  };
+};
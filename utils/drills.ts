@@ -0,0 +1,172 @@
+import { VocabularyWord, ReviewRating, DrillKind } from '../types';
+import { tokenize, lookupForm, headwordForm } from './tokenizer';
+
+export const DRILL_KINDS: { id: DrillKind; label: string; description: string }[] = [
+  { id: 'flip', label: 'Flip', description: 'See the word, recall the meaning, grade yourself' },
+  { id: 'choice', label: 'Choice', description: 'Pick the definition from four' },
+  { id: 'reverse', label: 'Reverse', description: 'See the definition, pick the word' },
+  { id: 'cloze', label: 'Cloze', description: 'Fill the word into the sentence you met it in' },
+  { id: 'typed', label: 'Typed', description: 'See the definition, type the word' },
+];
+
+export const DEFAULT_DRILL_KINDS: DrillKind[] = DRILL_KINDS.map(d => d.id);
+
+const CHOICES = 4;
+// Multiple choice needs at least this many wrong answers to be worth asking
+const MIN_DISTRACTORS = 2;
+// Inflected forms in a sentence ("lasts", "faded") still count as the headword
+const MAX_SUFFIX = 3;
+
+/** One exercise for a card. Every kind but flip is graded from the answer. */
+export type Drill =
+  | { kind: 'flip' }
+  | { kind: 'choice' | 'reverse'; options: string[]; answer: number }
+  | { kind: 'cloze'; before: string; after: string; answers: string[] }
+  | { kind: 'typed'; answers: string[] };
+
+export interface DrillResult {
+  rating: ReviewRating;
+  verdict: 'correct' | 'close' | 'wrong';
+  expected: string;
+}
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const matchesHeadword = (form: string, head: string) => {
+  if (form === head) return true;
+  const stem = head.length > 3 ? head.replace(/[ey]$/, '') : head;
+  return form.startsWith(stem) && form.length - head.length <= MAX_SUFFIX;
+};
+
+/**
+ * Blanks the word out of a sentence, in whatever form the sentence has it.
+ * Null when the sentence doesn't contain it.
+ */
+export const clozeSentence = (sentence: string, headword: string): { before: string; after: string; answer: string } | null => {
+  const heads = headword.split(' ');
+  const words = tokenize(sentence).filter(t => t.type === 'word');
+  for (let i = 0; i + heads.length <= words.length; i++) {
+    if (heads.every((head, j) => matchesHeadword(lookupForm(words[i + j].text), head))) {
+      const start = words[i].start;
+      const end = words[i + heads.length - 1].end;
+      return { before: sentence.substring(0, start), after: sentence.substring(end), answer: sentence.substring(start, end) };
+    }
+  }
+  return null;
+};
+
+// Sentences the word was met in come first, most recent first, then dictionary examples
+const clozeFor = (card: VocabularyWord) => {
+  const sentences = [...card.sightings].reverse().map(s => s.sentence).concat(card.examples);
+  for (const sentence of sentences) {
+    const cloze = sentence && clozeSentence(sentence, card.headword);
+    if (cloze) return cloze;
+  }
+  return null;
+};
+
+/**
+ * Wrong answers from the user's other cards, preferring definitions of a similar
+ * length so the right one doesn't stand out.
+ */
+const distractors = (card: VocabularyWord, vocabulary: VocabularyWord[], pick: (v: VocabularyWord) => string, random: () => number) => {
+  const target = pick(card).length;
+  const seen = new Set([pick(card).toLowerCase()]);
+  const pool = shuffle(vocabulary.filter(v => v.headword !== card.headword && v.definition.trim()), random)
+    .sort((a, b) => Math.abs(pick(a).length - target) - Math.abs(pick(b).length - target));
+  const chosen: string[] = [];
+  for (const v of pool) {
+    const text = pick(v);
+    if (seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    chosen.push(text);
+    if (chosen.length === CHOICES - 1) break;
+  }
+  return chosen;
+};
+
+const multipleChoice = (kind: 'choice' | 'reverse', right: string, wrong: string[], random: () => number): Drill => {
+  const options = shuffle([right, ...wrong], random);
+  return { kind, options, answer: options.indexOf(right) };
+};
+
+/**
+ * Picks an exercise for a card from the kinds enabled. Recall drills (cloze, typed) wait
+ * until the card has been answered once; drills the card can't support, such as cloze
+ * without a sentence or choice without enough other cards, are skipped. Falls back to flip.
+ */
+export const buildDrill = (
+  card: VocabularyWord, vocabulary: VocabularyWord[], kinds: DrillKind[], random: () => number = Math.random
+): Drill => {
+  const definition = (v: VocabularyWord) => v.definition.trim();
+  const word = (v: VocabularyWord) => v.word.trim();
+  const candidates: (() => Drill | null)[] = shuffle(kinds, random).map(kind => () => {
+    switch (kind) {
+      case 'flip':
+        return { kind: 'flip' };
+      case 'choice': {
+        const wrong = distractors(card, vocabulary, definition, random);
+        return definition(card) && wrong.length >= MIN_DISTRACTORS ? multipleChoice('choice', definition(card), wrong, random) : null;
+      }
+      case 'reverse': {
+        const wrong = distractors(card, vocabulary, word, random);
+        return definition(card) && wrong.length >= MIN_DISTRACTORS ? multipleChoice('reverse', word(card), wrong, random) : null;
+      }
+      case 'cloze': {
+        const cloze = card.reps > 0 ? clozeFor(card) : null;
+        return cloze && { kind: 'cloze', before: cloze.before, after: cloze.after, answers: [cloze.answer, card.word] };
+      }
+      case 'typed':
+        return card.reps > 0 && definition(card) ? { kind: 'typed', answers: [card.word] } : null;
+    }
+  });
+  for (const candidate of candidates) {
+    const drill = candidate();
+    if (drill) return drill;
+  }
+  return { kind: 'flip' };
+};
+
+/** Edit distance counting a swap of neighbouring letters as one typo. */
+const typoDistance = (a: string, b: string) => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Typos forgiven for an answer this long: none for short words, where one letter makes another word
+const allowedTypos = (length: number) => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+const normalize = (text: string) => headwordForm(text) || text.trim().toLocaleLowerCase();
+
+/**
+ * Grades a typed answer against any of the accepted spellings. Exact is good; within a
+ * typo or two is close, graded hard; anything else is again.
+ */
+export const gradeTyped = (answer: string, accepted: string[]): DrillResult => {
+  const given = normalize(answer);
+  const expected = accepted[0];
+  const forms = accepted.map(normalize);
+  if (given && forms.includes(given)) return { rating: 'good', verdict: 'correct', expected };
+  if (given && forms.some(form => typoDistance(given, form) <= allowedTypos(form.length))) return { rating: 'hard', verdict: 'close', expected };
+  return { rating: 'again', verdict: 'wrong', expected };
+};
+
+/** Grades a multiple-choice pick: right is good, wrong is again. */
+export const gradeChoice = (drill: Extract<Drill, { options: string[] }>, picked: number): DrillResult => {
+  const correct = picked === drill.answer;
+  return { rating: correct ? 'good' : 'again', verdict: correct ? 'correct' : 'wrong', expected: drill.options[drill.answer] };
+};
@@ -0,0 +1,161 @@
+import { SectionMarker } from './documentModel';
+import { htmlToText } from './htmlText';
+
+declare const JSZip: any;
+
+export interface EpubChapter {
+  title: string;
+  text: string;
+}
+
+export interface EpubBook {
+  title: string;
+  chapters: EpubChapter[];
+}
+
+const parseXml = (raw: string, type: DOMParserSupportedType = 'application/xml') => {
+  const doc = new DOMParser().parseFromString(raw, type);
+  // Plenty of EPUBs ship XHTML that isn't well-formed XML; the HTML parser is forgiving
+  if (type !== 'text/html' && doc.getElementsByTagName('parsererror').length > 0) {
+    return new DOMParser().parseFromString(raw, 'text/html');
+  }
+  return doc;
+};
+
+// Namespace-agnostic lookup, since OPF/NCX prefixes vary between publishers
+const byLocalName = (root: Document | Element, name: string): Element[] =>
+  Array.from(root.getElementsByTagName('*')).filter(el => el.localName === name);
+
+const resolvePath = (base: string, href: string) => {
+  const parts = (base ? base.split('/') : []).concat(decodeURIComponent(href.split('#')[0]).split('/'));
+  const resolved: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  });
+  return resolved.join('/');
+};
+
+const dirname = (path: string) => path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+
+/** Maps chapter file paths to titles from the EPUB 3 nav document. */
+const readNavTitles = (doc: Document, navDir: string): Map<string, string> => {
+  const titles = new Map<string, string>();
+  const navs = byLocalName(doc, 'nav');
+  const toc = navs.find(n => (n.getAttribute('epub:type') || n.getAttributeNS('http://www.idpf.org/2007/ops', 'type')) === 'toc') || navs[0];
+  if (!toc) return titles;
+  byLocalName(toc, 'a').forEach(a => {
+    const href = a.getAttribute('href');
+    const label = a.textContent?.replace(/\s+/g, ' ').trim();
+    if (!href || !label) return;
+    const path = resolvePath(navDir, href);
+    if (!titles.has(path)) titles.set(path, label);
+  });
+  return titles;
+};
+
+/** Maps chapter file paths to titles from the EPUB 2 NCX. */
+const readNcxTitles = (doc: Document, ncxDir: string): Map<string, string> => {
+  const titles = new Map<string, string>();
+  byLocalName(doc, 'navPoint').forEach(point => {
+    const label = byLocalName(point, 'text')[0]?.textContent?.replace(/\s+/g, ' ').trim();
+    const src = byLocalName(point, 'content')[0]?.getAttribute('src');
+    if (!label || !src) return;
+    const path = resolvePath(ncxDir, src);
+    if (!titles.has(path)) titles.set(path, label);
+  });
+  return titles;
+};
+
+/**
+ * Parses an EPUB (2 or 3) in the browser.
+ * Chapters follow the OPF spine order and take their titles from the nav document or NCX.
+ */
+export const parseEpub = async (data: ArrayBuffer): Promise<EpubBook> => {
+  const zip = await JSZip.loadAsync(data);
+  const readFile = async (path: string): Promise<string | null> => {
+    const file = zip.file(path);
+    return file ? file.async('string') : null;
+  };
+
+  const container = await readFile('META-INF/container.xml');
+  if (!container) throw new Error('Not an EPUB: missing META-INF/container.xml');
+  const opfPath = byLocalName(parseXml(container), 'rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error('EPUB container has no rootfile');
+
+  const opfRaw = await readFile(opfPath);
+  if (!opfRaw) throw new Error(`EPUB package document not found: ${opfPath}`);
+  const opf = parseXml(opfRaw);
+  const opfDir = dirname(opfPath);
+
+  const manifest = new Map<string, { path: string; mediaType: string; properties: string }>();
+  byLocalName(opf, 'item').forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) return;
+    manifest.set(id, {
+      path: resolvePath(opfDir, href),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || ''
+    });
+  });
+
+  let titles = new Map<string, string>();
+  const navItem = Array.from(manifest.values()).find(m => m.properties.split(/\s+/).includes('nav'));
+  const spine = byLocalName(opf, 'spine')[0];
+  const ncxItem = manifest.get(spine?.getAttribute('toc') || '')
+    || Array.from(manifest.values()).find(m => m.mediaType === 'application/x-dtbncx+xml');
+
+  if (navItem) {
+    const raw = await readFile(navItem.path);
+    if (raw) titles = readNavTitles(parseXml(raw, 'application/xhtml+xml'), dirname(navItem.path));
+  }
+  if (titles.size === 0 && ncxItem) {
+    const raw = await readFile(ncxItem.path);
+    if (raw) titles = readNcxTitles(parseXml(raw), dirname(ncxItem.path));
+  }
+
+  const chapters: EpubChapter[] = [];
+  const itemrefs = spine ? byLocalName(spine, 'itemref') : [];
+  for (const ref of itemrefs) {
+    // Non-linear items (footnote pages, answer keys) aren't part of the reading order
+    if (ref.getAttribute('linear') === 'no') continue;
+    const entry = manifest.get(ref.getAttribute('idref') || '');
+    if (!entry || !/html/.test(entry.mediaType)) continue;
+
+    const raw = await readFile(entry.path);
+    if (!raw) continue;
+    const doc = parseXml(raw, 'application/xhtml+xml');
+    const body = byLocalName(doc, 'body')[0] || doc.documentElement;
+    const text = htmlToText(body);
+    if (!text) continue;
+
+    const heading = byLocalName(body, 'h1')[0] || byLocalName(body, 'h2')[0];
+    chapters.push({
+      title: titles.get(entry.path) || heading?.textContent?.replace(/\s+/g, ' ').trim() || `Chapter ${chapters.length + 1}`,
+      text
+    });
+  }
+
+  if (chapters.length === 0) throw new Error('EPUB contains no readable chapters');
+
+  return {
+    title: byLocalName(opf, 'title')[0]?.textContent?.trim() || '',
+    chapters
+  };
+};
+
+/**
+ * Joins chapters into a single content string and marks where each one starts,
+ * so the document model can keep them as named sections.
+ */
+export const joinChapters = (chapters: EpubChapter[]): { content: string; markers: SectionMarker[] } => {
+  const markers: SectionMarker[] = [];
+  let content = '';
+  chapters.forEach((chapter, i) => {
+    if (i > 0) content += '\n\n';
+    markers.push({ title: chapter.title, offset: content.length });
+    content += chapter.text;
+  });
+  return { content, markers };
+};
@@ -0,0 +1,42 @@
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'BLOCKQUOTE', 'LI', 'TR', 'PRE',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'FOOTER', 'FIGCAPTION', 'DT', 'DD'
+]);
+
+/**
+ * Flattens an HTML/XHTML tree to plain text, keeping a blank line between block elements
+ * so paragraph boundaries survive. Headings become markdown `#` lines, which the
+ * document model picks up as headings.
+ */
+export const htmlToText = (root: Element): string => {
+  let out = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      out += (node.textContent || '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    const tag = el.tagName.toUpperCase();
+    if (tag === 'SCRIPT' || tag === 'STYLE') return;
+    if (tag === 'BR') { out += '\n'; return; }
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) out += '\n\n';
+    const heading = tag.match(/^H([1-6])$/);
+    if (heading) {
+      // Keep the heading on one line so it reads as a single markdown heading
+      const title = (el.textContent || '').replace(/\s+/g, ' ').trim();
+      if (title) out += `${'#'.repeat(Number(heading[1]))} ${title}\n\n`;
+      return;
+    }
+    el.childNodes.forEach(walk);
+    if (isBlock) out += '\n\n';
+  };
+  walk(root);
+  return out
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import { LibraryItem, VocabularyWord, SettingsProfile, Collection } from '../types';
+import { createBackup, parseBackup, resolveBackup, findConflicts, BackupValidationError, BACKUP_FORMAT, BACKUP_VERSION } from './libraryBackup';
+import { parseDocument } from './documentModel';
+import { DEFAULT_SETTINGS, BUILT_IN_PROFILES } from './settingsProfiles';
+import { recordWord, createSighting } from './vocabulary';
+
+const NOW = new Date(2024, 0, 15, 12).getTime();
+const CONTENT = '# One\n\nThe quick fox jumps. It runs away.\n\n# Two\n\nAn ephemeral glow faded slowly.';
+
+const idGenerator = () => {
+  let next = 0;
+  return () => `generated-${++next}`;
+};
+
+const makeItem = (overrides: Partial<LibraryItem> = {}): LibraryItem => {
+  const document = parseDocument(CONTENT);
+  return {
+    id: 'item-1',
+    title: 'Story',
+    content: CONTENT,
+    lastPosition: 4,
+    date: NOW - 1000,
+    totalWords: document.wordCount,
+    sessions: [{ date: NOW - 500, wpm: 300, duration: 60, wordsRead: 4, activeTime: 50, mode: 'rsvp-single' }],
+    document,
+    highlights: [{ id: 'h-1', start: 7, end: 16, text: 'The quick', color: 'yellow', note: 'A note', date: NOW - 400 }],
+    bookmarks: [{ id: 'b-1', offset: 24, text: 'jumps. It runs', date: NOW - 300 }],
+    tags: ['fiction'],
+    collectionIds: ['c-1'],
+    lastOpened: NOW - 200,
+    ...overrides
+  };
+};
+
+const makeVocabulary = (item: LibraryItem): VocabularyWord[] => {
+  const generateId = idGenerator();
+  const glow = recordWord([], { word: 'ephemeral', definition: 'short-lived', examples: ['An ephemeral fame.'] }, createSighting(item, 8, NOW), generateId, NOW);
+  return [{ ...glow, id: 'w-1' }];
+};
+
+const profiles: SettingsProfile[] = [...BUILT_IN_PROFILES, { id: 'p-1', name: 'Mine', settings: { wpm: 420 } }];
+const collections: Collection[] = [{ id: 'c-1', name: 'Shelf', date: NOW - 2000 }];
+const settings = { ...DEFAULT_SETTINGS, wpm: 410 };
+
+const roundTrip = (library: LibraryItem[], vocabulary: VocabularyWord[]) =>
+  parseBackup(JSON.stringify(createBackup(library, vocabulary, settings, profiles, collections)));
+
+describe('backup round trip', () => {
+  const item = makeItem();
+  const vocabulary = makeVocabulary(item);
+
+  it('parses an export back to exactly what was exported', () => {
+    const backup = roundTrip([item], vocabulary);
+    expect(backup.format).toBe(BACKUP_FORMAT);
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.items).toEqual([item]);
+    expect(backup.vocabulary).toEqual(vocabulary);
+    expect(backup.settings).toEqual(settings);
+    expect(backup.profiles).toEqual([profiles[profiles.length - 1]]);
+    expect(backup.collections).toEqual(collections);
+  });
+
+  it('leaves out soft-deleted items', () => {
+    const deleted = makeItem({ id: 'item-2', deletedAt: NOW });
+    expect(roundTrip([item, deleted], []).items.map(i => i.id)).toEqual(['item-1']);
+  });
+
+  it('restores everything into an empty library under any strategy', () => {
+    const backup = roundTrip([item], vocabulary);
+    (['merge', 'keep-both', 'overwrite'] as const).forEach(strategy => {
+      const restored = resolveBackup([], [], backup, strategy, idGenerator());
+      expect(restored.items).toEqual([item]);
+      expect(restored.vocabulary).toEqual(vocabulary);
+    });
+  });
+
+  it('merges sessions and annotations into the existing item', () => {
+    const backup = roundTrip([item], vocabulary);
+    const existing = makeItem({
+      lastPosition: 2,
+      sessions: [item.sessions[0], { date: NOW - 100, wpm: 350, duration: 30, wordsRead: 3 }],
+      highlights: [],
+      bookmarks: [{ id: 'b-2', offset: 0, text: 'One', date: NOW - 50 }],
+      tags: ['favourite']
+    });
+    expect(findConflicts([existing], backup)).toHaveLength(1);
+    const { items } = resolveBackup([existing], [], backup, 'merge', idGenerator());
+    expect(items).toHaveLength(1);
+    const merged = items[0];
+    expect(merged.id).toBe('item-1');
+    expect(merged.lastPosition).toBe(4);
+    expect(merged.sessions.map(s => s.date)).toEqual([NOW - 500, NOW - 100]);
+    expect(merged.highlights).toEqual(item.highlights);
+    expect(merged.bookmarks!.map(b => b.id)).toEqual(['b-2', 'b-1']);
+    expect(merged.tags).toEqual(['favourite', 'fiction']);
+  });
+
+  it('imports a copy with fresh ids under keep-both, its words pointing at the copy', () => {
+    const backup = roundTrip([item], vocabulary);
+    const { items, vocabulary: words } = resolveBackup([item], [], backup, 'keep-both', idGenerator());
+    expect(items).toEqual([{ ...item, id: 'generated-1', title: 'Story (Imported)' }]);
+    expect(words[0].sightings).toEqual([{ ...vocabulary[0].sightings[0], itemId: 'generated-1', title: 'Story (Imported)' }]);
+  });
+
+  it('replaces the existing item under overwrite', () => {
+    const backup = roundTrip([item], vocabulary);
+    const existing = makeItem({ title: 'Renamed', lastPosition: 9, sessions: [] });
+    expect(resolveBackup([existing], [], backup, 'overwrite', idGenerator()).items).toEqual([item]);
+  });
+
+  it('merges summaries per version, keeping the ones already made', () => {
+    const summary = (overview: string, versionId?: string) => ({ overview, sections: [], source: 'offline' as const, date: NOW, ...(versionId ? { versionId } : {}) });
+    const backup = roundTrip([makeItem({ summaries: [summary('Backup original'), summary('Backup rewrite', 'v-2')] })], []);
+    const existing = makeItem({ summaries: [summary('Mine')] });
+    const { items } = resolveBackup([existing], [], backup, 'merge', idGenerator());
+    expect(items[0].summaries!.map(s => s.overview)).toEqual(['Mine', 'Backup rewrite']);
+  });
+
+  it('merges vocabulary by headword whatever the strategy', () => {
+    const backup = roundTrip([item], vocabulary);
+    const current: VocabularyWord[] = [{ ...vocabulary[0], id: 'w-local', definition: '', sightings: [] }];
+    (['merge', 'keep-both', 'overwrite'] as const).forEach(strategy => {
+      const { vocabulary: words } = resolveBackup([], current, backup, strategy, idGenerator());
+      expect(words).toHaveLength(1);
+      expect(words[0].id).toBe('w-local');
+      expect(words[0].definition).toBe('short-lived');
+      expect(words[0].sightings).toEqual(vocabulary[0].sightings);
+    });
+  });
+});
+
+describe('older backups', () => {
+  it('parses v1 word-offset sections and per-item vocabulary', () => {
+    const { document, ...rest } = makeItem();
+    const legacyItem = {
+      ...rest,
+      sections: [{ title: 'One', startWord: 0 }, { title: 'Two', startWord: 9 }],
+      vocabulary: [{ id: 'w-1', word: 'Ephemeral', definition: 'short-lived', examples: [], date: NOW, proficiency: 2, nextReview: NOW, context: 'An ephemeral glow.' }]
+    };
+    const backup = parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: 1, settings, profiles: [], items: [legacyItem] }));
+    expect(backup.items[0].document.sections.map(s => s.title)).toEqual(['One', 'Two']);
+    expect(backup.items[0]).not.toHaveProperty('sections');
+    expect(backup.items[0]).not.toHaveProperty('vocabulary');
+    expect(backup.collections).toEqual([]);
+    expect(backup.vocabulary).toHaveLength(1);
+    expect(backup.vocabulary[0]).toMatchObject({ headword: 'ephemeral', state: 'review', stability: 3 });
+    expect(backup.vocabulary[0].sightings).toEqual([{ itemId: 'item-1', title: 'Story', sentence: 'An ephemeral glow.', date: NOW }]);
+  });
+
+  it('reads a v3 item\'s single summary as the summary of its text', () => {
+    const summary = { overview: 'A fox runs.', sections: [{ title: 'One', offset: 0, summary: 'A fox.' }], source: 'ai', date: NOW };
+    const legacyItem = { ...makeItem(), summary };
+    const backup = parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: 3, settings, profiles: [], items: [legacyItem] }));
+    expect(backup.items[0].summaries).toEqual([summary]);
+    expect(backup.items[0]).not.toHaveProperty('summary');
+  });
+});
+
+describe('rejecting backups', () => {
+  const valid = () => JSON.parse(JSON.stringify(createBackup([makeItem()], [], settings, profiles, collections)));
+  const rejects = (backup: unknown, message: string | RegExp) => {
+    const json = typeof backup === 'string' ? backup : JSON.stringify(backup);
+    expect(() => parseBackup(json)).toThrow(BackupValidationError);
+    expect(() => parseBackup(json)).toThrow(message);
+  };
+
+  it('rejects text that is not JSON', () => {
+    rejects('{"format": ', 'Backup is not valid JSON');
+  });
+
+  it('rejects files from other apps', () => {
+    rejects([], 'backup must be an object');
+    rejects({ ...valid(), format: 'something-else' }, 'backup.format must be "breezereader-backup"');
+  });
+
+  it('rejects backups from a newer version', () => {
+    rejects({ ...valid(), version: BACKUP_VERSION + 1 }, `Backup version ${BACKUP_VERSION + 1} is newer than this app supports`);
+  });
+
+  it('names the first field that does not match', () => {
+    const wrongTitle = valid();
+    wrongTitle.items[0].title = 42;
+    rejects(wrongTitle, 'backup.items[0].title must be a string');
+
+    const wrongSession = valid();
+    wrongSession.items[0].sessions[0].wpm = 'fast';
+    rejects(wrongSession, 'backup.items[0].sessions[0].wpm must be a number');
+
+    const wrongHighlight = valid();
+    delete wrongHighlight.items[0].highlights[0].start;
+    rejects(wrongHighlight, 'backup.items[0].highlights[0].start must be a number');
+
+    const wrongWord = { ...valid(), vocabulary: [{ id: 'w', word: 'x', definition: '', date: NOW, proficiency: 0, nextReview: NOW, examples: 'none' }] };
+    rejects(wrongWord, 'backup.vocabulary[0].examples must be a list of strings');
+
+    const noItems = valid();
+    delete noItems.items;
+    rejects(noItems, 'backup.items must be a list');
+  });
+
+  it('rejects document sections without a title and offset', () => {
+    const broken = valid();
+    broken.items[0].document.sections[0] = { paragraphs: [] };
+    rejects(broken, 'backup.items[0].document.sections[0].title must be a string');
+  });
+
+  it('rebuilds a corrupt document tree from the content', () => {
+    const item = makeItem();
+    const corrupt = valid();
+    corrupt.items[0].document.wordCount = 9999;
+    corrupt.items[0].document.sections.forEach((section: any) => {
+      section.paragraphs = [{ sentences: 'broken' }];
+      section.startWord = -3;
+    });
+    corrupt.items[0].totalWords = 9999;
+    const restored = parseBackup(JSON.stringify(corrupt)).items[0];
+    expect(restored.document).toEqual(item.document);
+    expect(restored.totalWords).toBe(item.totalWords);
+  });
+
+  it('clamps a position past the end of the rebuilt document', () => {
+    const past = valid();
+    past.items[0].lastPosition = 500;
+    const restored = parseBackup(JSON.stringify(past)).items[0];
+    expect(restored.lastPosition).toBe(restored.document.wordCount - 1);
+  });
+});
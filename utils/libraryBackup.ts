@@ -0,0 +1,393 @@
+import { LibraryItem, ReadingSession, ReadingSettings, SettingsProfile, VocabularyWord, Highlight, Bookmark, Collection, DocumentVersion, DocumentSummary, StructuredDocument } from '../types';
+import { normalizeSettings } from './settingsProfiles';
+import { parseDocument, markersFromWordStarts, sectionMarkers, documentTokens, tokenIndexAtOffset, DOCUMENT_MODEL_VERSION } from './documentModel';
+import { upgradeWord, liftVocabulary, dedupeVocabulary, mergeVocabulary, LegacyWord } from './vocabulary';
+
+export const BACKUP_FORMAT = 'breezereader-backup';
+// v2: items carry a parsed `document` instead of v1's `sections` word offsets
+// v3: vocabulary is one library-wide list with sightings, instead of a list on each item
+// v4: items keep a summary per version in `summaries`, instead of a single `summary`
+export const BACKUP_VERSION = 4;
+
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  settings: ReadingSettings;
+  profiles: SettingsProfile[];
+  collections: Collection[]; // Missing from older backups, read as empty
+  items: LibraryItem[];
+  vocabulary: VocabularyWord[]; // Older backups' per-item lists are gathered into it on parsing
+}
+
+/**
+ * How to handle an incoming item whose id already exists in the library.
+ * - merge: keep the existing item, add any sessions and annotations it doesn't have yet
+ * - keep-both: import the incoming item as a copy with fresh ids
+ * - overwrite: replace the existing item with the incoming one
+ *
+ * Vocabulary is always merged by headword, whatever the strategy.
+ */
+export type ConflictStrategy = 'merge' | 'keep-both' | 'overwrite';
+
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+export const createBackup = (
+  library: LibraryItem[], vocabulary: VocabularyWord[], settings: ReadingSettings, profiles: SettingsProfile[], collections: Collection[]
+): LibraryBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: Date.now(),
+  settings,
+  profiles: profiles.filter(p => !p.builtIn),
+  collections,
+  // Soft-deleted items are on their way out, don't resurrect them on restore
+  items: library.filter(item => !item.deletedAt),
+  vocabulary
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expect = (condition: boolean, path: string, what: string) => {
+  if (!condition) throw new BackupValidationError(`${path} must be ${what}`);
+};
+
+const expectFields = (value: Record<string, any>, path: string, fields: Record<string, 'string' | 'number' | 'boolean'>) => {
+  Object.entries(fields).forEach(([key, type]) => {
+    expect(typeof value[key] === type && (type !== 'number' || Number.isFinite(value[key])), `${path}.${key}`, `a ${type}`);
+  });
+};
+
+const validateSession = (value: unknown, path: string): ReadingSession => {
+  expect(isObject(value), path, 'an object');
+  const session = value as Record<string, any>;
+  expectFields(session, path, { date: 'number', wpm: 'number', duration: 'number', wordsRead: 'number' });
+  (['activeTime', 'startPosition', 'endPosition', 'rewinds'] as const).forEach(key => {
+    if (session[key] !== undefined) expectFields(session, path, { [key]: 'number' });
+  });
+  if (session.mode !== undefined) expect(typeof session.mode === 'string', `${path}.mode`, 'a string');
+  if (session.speedProfile !== undefined) {
+    expect(Array.isArray(session.speedProfile), `${path}.speedProfile`, 'a list');
+    session.speedProfile.forEach((sample: unknown, i: number) => {
+      expect(isObject(sample), `${path}.speedProfile[${i}]`, 'an object');
+      expectFields(sample as Record<string, any>, `${path}.speedProfile[${i}]`, { word: 'number', wpm: 'number' });
+    });
+  }
+  if (session.quiz !== undefined) {
+    expect(isObject(session.quiz), `${path}.quiz`, 'an object');
+    expectFields(session.quiz, `${path}.quiz`, { correct: 'number', total: 'number', source: 'string' });
+  }
+  return session as ReadingSession;
+};
+
+const validateWord = (value: unknown, path: string): VocabularyWord => {
+  expect(isObject(value), path, 'an object');
+  const word = value as Record<string, any>;
+  expectFields(word, path, { id: 'string', word: 'string', definition: 'string', date: 'number', proficiency: 'number', nextReview: 'number' });
+  expect(Array.isArray(word.examples) && word.examples.every((e: unknown) => typeof e === 'string'), `${path}.examples`, 'a list of strings');
+  // Words from before the shared vocabulary have no headword or sightings; they're upgraded after validation
+  if (word.headword !== undefined) expect(typeof word.headword === 'string', `${path}.headword`, 'a string');
+  if (word.sightings !== undefined) {
+    expect(Array.isArray(word.sightings), `${path}.sightings`, 'a list');
+    word.sightings.forEach((sighting: unknown, i: number) => {
+      const at = `${path}.sightings[${i}]`;
+      expect(isObject(sighting), at, 'an object');
+      const s = sighting as Record<string, any>;
+      expectFields(s, at, { itemId: 'string', title: 'string', sentence: 'string', date: 'number' });
+      if (s.wordIndex !== undefined) expectFields(s, at, { wordIndex: 'number' });
+      if (s.versionId !== undefined) expectFields(s, at, { versionId: 'string' });
+    });
+  }
+  // Cards from before spaced repetition have no state; they're upgraded after validation
+  if (word.state !== undefined) {
+    expectFields(word, path, { state: 'string', ease: 'number', stability: 'number', step: 'number', reps: 'number', lapses: 'number' });
+    expect(Array.isArray(word.reviewLog), `${path}.reviewLog`, 'a list');
+    word.reviewLog.forEach((entry: unknown, i: number) => {
+      expect(isObject(entry), `${path}.reviewLog[${i}]`, 'an object');
+      expectFields(entry as Record<string, any>, `${path}.reviewLog[${i}]`, { date: 'number', rating: 'string', state: 'string', interval: 'number', ease: 'number' });
+    });
+  }
+  return word as VocabularyWord;
+};
+
+const validateHighlight = (value: unknown, path: string): Highlight => {
+  expect(isObject(value), path, 'an object');
+  const highlight = value as Record<string, any>;
+  expectFields(highlight, path, { id: 'string', start: 'number', end: 'number', text: 'string', color: 'string', date: 'number' });
+  if (highlight.note !== undefined) expect(typeof highlight.note === 'string', `${path}.note`, 'a string');
+  if (highlight.versionId !== undefined) expect(typeof highlight.versionId === 'string', `${path}.versionId`, 'a string');
+  return highlight as Highlight;
+};
+
+const validateBookmark = (value: unknown, path: string): Bookmark => {
+  expect(isObject(value), path, 'an object');
+  const bookmark = value as Record<string, any>;
+  expectFields(bookmark, path, { id: 'string', offset: 'number', text: 'string', date: 'number' });
+  if (bookmark.versionId !== undefined) expect(typeof bookmark.versionId === 'string', `${path}.versionId`, 'a string');
+  return bookmark as Bookmark;
+};
+
+const validateVersion = (value: unknown, path: string): DocumentVersion => {
+  expect(isObject(value), path, 'an object');
+  const version = value as Record<string, any>;
+  expectFields(version, path, { id: 'string', label: 'string', kind: 'string', content: 'string', date: 'number', wordCount: 'number' });
+  if (version.sections !== undefined) {
+    expect(Array.isArray(version.sections), `${path}.sections`, 'a list');
+    version.sections.forEach((section: unknown, i: number) => {
+      expect(isObject(section), `${path}.sections[${i}]`, 'an object');
+      expectFields(section as Record<string, any>, `${path}.sections[${i}]`, { title: 'string', offset: 'number' });
+    });
+  }
+  return version as DocumentVersion;
+};
+
+const validateSummary = (value: unknown, path: string): DocumentSummary => {
+  expect(isObject(value), path, 'an object');
+  const summary = value as Record<string, any>;
+  expectFields(summary, path, { overview: 'string', source: 'string', date: 'number' });
+  expect(Array.isArray(summary.sections), `${path}.sections`, 'a list');
+  summary.sections.forEach((section: unknown, i: number) => {
+    expect(isObject(section), `${path}.sections[${i}]`, 'an object');
+    expectFields(section as Record<string, any>, `${path}.sections[${i}]`, { title: 'string', offset: 'number', summary: 'string' });
+  });
+  if (summary.versionId !== undefined) expect(typeof summary.versionId === 'string', `${path}.versionId`, 'a string');
+  return summary as DocumentSummary;
+};
+
+const validateItem = (value: unknown, path: string): LibraryItem => {
+  expect(isObject(value), path, 'an object');
+  const item = value as Record<string, any>;
+  expectFields(item, path, { id: 'string', title: 'string', content: 'string', lastPosition: 'number', date: 'number', totalWords: 'number' });
+  expect(Array.isArray(item.sessions), `${path}.sessions`, 'a list');
+  item.sessions.forEach((s: unknown, i: number) => validateSession(s, `${path}.sessions[${i}]`));
+  // Before v3 each item carried its own vocabulary
+  if (item.vocabulary !== undefined) {
+    expect(Array.isArray(item.vocabulary), `${path}.vocabulary`, 'a list');
+    item.vocabulary.forEach((v: unknown, i: number) => validateWord(v, `${path}.vocabulary[${i}]`));
+  }
+  if (item.profileId !== undefined) expect(typeof item.profileId === 'string', `${path}.profileId`, 'a string');
+  if (item.sections !== undefined) {
+    expect(Array.isArray(item.sections), `${path}.sections`, 'a list');
+    item.sections.forEach((section: unknown, i: number) => {
+      expect(isObject(section), `${path}.sections[${i}]`, 'an object');
+      expectFields(section as Record<string, any>, `${path}.sections[${i}]`, { title: 'string', startWord: 'number' });
+    });
+  }
+  (['tags', 'collectionIds'] as const).forEach(key => {
+    if (item[key] !== undefined) {
+      expect(Array.isArray(item[key]) && item[key].every((t: unknown) => typeof t === 'string'), `${path}.${key}`, 'a list of strings');
+    }
+  });
+  if (item.lastOpened !== undefined) expectFields(item, path, { lastOpened: 'number' });
+  if (item.archived !== undefined) expectFields(item, path, { archived: 'boolean' });
+  if (item.highlights !== undefined) {
+    expect(Array.isArray(item.highlights), `${path}.highlights`, 'a list');
+    item.highlights.forEach((h: unknown, i: number) => validateHighlight(h, `${path}.highlights[${i}]`));
+  }
+  if (item.bookmarks !== undefined) {
+    expect(Array.isArray(item.bookmarks), `${path}.bookmarks`, 'a list');
+    item.bookmarks.forEach((b: unknown, i: number) => validateBookmark(b, `${path}.bookmarks[${i}]`));
+  }
+  if (item.versions !== undefined) {
+    expect(Array.isArray(item.versions), `${path}.versions`, 'a list');
+    item.versions.forEach((v: unknown, i: number) => validateVersion(v, `${path}.versions[${i}]`));
+  }
+  if (item.activeVersionId !== undefined) expectFields(item, path, { activeVersionId: 'string' });
+  // Before v4 an item had a single summary
+  if (item.summary !== undefined) validateSummary(item.summary, `${path}.summary`);
+  if (item.summaries !== undefined) {
+    expect(Array.isArray(item.summaries), `${path}.summaries`, 'a list');
+    item.summaries.forEach((s: unknown, i: number) => validateSummary(s, `${path}.summaries[${i}]`));
+  }
+  // Only the section titles and offsets are read; the rest of the tree is rebuilt from the content
+  if (item.document !== undefined) {
+    expect(isObject(item.document), `${path}.document`, 'an object');
+    expectFields(item.document, `${path}.document`, { version: 'number' });
+    expect(Array.isArray(item.document.sections), `${path}.document.sections`, 'a list');
+    item.document.sections.forEach((section: unknown, i: number) => {
+      expect(isObject(section), `${path}.document.sections[${i}]`, 'an object');
+      expectFields(section as Record<string, any>, `${path}.document.sections[${i}]`, { title: 'string', start: 'number' });
+    });
+  }
+  return item as LibraryItem;
+};
+
+// Character offset of the token a document from an older model version was read up to.
+// That tree is from a backup, so one too broken to walk just loses the position.
+const storedOffset = (document: StructuredDocument, position: number): number | undefined => {
+  try {
+    const start = documentTokens(document)[position]?.start;
+    return typeof start === 'number' ? start : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Brings an item from a backup up to the current shape. The document is always parsed
+ * again from the content, keeping only the stored section markers, so a hand-edited or
+ * corrupt tree never reaches the reader.
+ */
+const upgradeItem = (raw: Record<string, any>): LibraryItem => {
+  // The item's vocabulary has been gathered into the backup's list already
+  const { sections, vocabulary, summary, ...item } = raw;
+  const stored: StructuredDocument | undefined = item.document;
+  const markers = stored ? sectionMarkers(stored) : sections ? markersFromWordStarts(item.content, sections) : undefined;
+  const document = parseDocument(item.content, markers);
+  // Token indices only carry over between documents parsed the same way
+  const offset = stored && stored.version !== DOCUMENT_MODEL_VERSION ? storedOffset(stored, item.lastPosition) : undefined;
+  const position = offset !== undefined ? tokenIndexAtOffset(document, offset) : item.lastPosition;
+  return {
+    ...item,
+    ...(summary && !item.summaries ? { summaries: [summary] } : {}),
+    document,
+    totalWords: document.wordCount,
+    lastPosition: Math.max(0, Math.min(position, document.wordCount - 1))
+  } as LibraryItem;
+};
+
+const validateCollection = (value: unknown, path: string): Collection => {
+  expect(isObject(value), path, 'an object');
+  expectFields(value as Record<string, any>, path, { id: 'string', name: 'string', date: 'number' });
+  return value as Collection;
+};
+
+const validateProfile = (value: unknown, path: string): SettingsProfile => {
+  expect(isObject(value), path, 'an object');
+  const profile = value as Record<string, any>;
+  expectFields(profile, path, { id: 'string', name: 'string' });
+  expect(isObject(profile.settings), `${path}.settings`, 'an object');
+  return profile as SettingsProfile;
+};
+
+/**
+ * Parses and validates a backup file. Throws BackupValidationError naming the
+ * first field that doesn't match the library types.
+ */
+export const parseBackup = (json: string): LibraryBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new BackupValidationError('Backup is not valid JSON');
+  }
+
+  expect(isObject(raw), 'backup', 'an object');
+  const backup = raw as Record<string, any>;
+  expect(backup.format === BACKUP_FORMAT, 'backup.format', `"${BACKUP_FORMAT}"`);
+  expect(typeof backup.version === 'number', 'backup.version', 'a number');
+  if (backup.version > BACKUP_VERSION) {
+    throw new BackupValidationError(`Backup version ${backup.version} is newer than this app supports (${BACKUP_VERSION})`);
+  }
+  expect(Array.isArray(backup.items), 'backup.items', 'a list');
+  expect(Array.isArray(backup.profiles), 'backup.profiles', 'a list');
+  expect(isObject(backup.settings), 'backup.settings', 'an object');
+  if (backup.collections !== undefined) expect(Array.isArray(backup.collections), 'backup.collections', 'a list');
+  if (backup.vocabulary !== undefined) expect(Array.isArray(backup.vocabulary), 'backup.vocabulary', 'a list');
+
+  const items: Record<string, any>[] = backup.items.map((item: unknown, i: number) => validateItem(item, `backup.items[${i}]`));
+  const words = (backup.vocabulary || []).map((word: unknown, i: number) => upgradeWord(validateWord(word, `backup.vocabulary[${i}]`)));
+  const legacyWords = liftVocabulary(items.flatMap(item =>
+    (item.vocabulary || []).map((word: LegacyWord) => ({ word, itemId: item.id, title: item.title }))
+  ));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: backup.version,
+    exportedAt: typeof backup.exportedAt === 'number' ? backup.exportedAt : Date.now(),
+    settings: normalizeSettings(backup.settings),
+    profiles: backup.profiles.map((p: unknown, i: number) => validateProfile(p, `backup.profiles[${i}]`)),
+    collections: (backup.collections || []).map((c: unknown, i: number) => validateCollection(c, `backup.collections[${i}]`)),
+    items: items.map(upgradeItem),
+    vocabulary: dedupeVocabulary([...words, ...legacyWords])
+  };
+};
+
+export const findConflicts = (library: LibraryItem[], backup: LibraryBackup): LibraryItem[] => {
+  const existingIds = new Set(library.map(item => item.id));
+  return backup.items.filter(item => existingIds.has(item.id));
+};
+
+// Union of two annotation lists by id, keeping the existing copy of any duplicate
+const mergeById = <T extends { id: string }>(existing: T[] = [], incoming: T[] = []): T[] => {
+  const ids = new Set(existing.map(a => a.id));
+  return [...existing, ...incoming.filter(a => !ids.has(a.id))];
+};
+
+const mergeSummaries = (existing: DocumentSummary[] = [], incoming: DocumentSummary[] = []): DocumentSummary[] | undefined => {
+  const merged = [...existing, ...incoming.filter(s => !existing.some(e => e.versionId === s.versionId))];
+  return merged.length > 0 ? merged : undefined;
+};
+
+const mergeItems = (existing: LibraryItem, incoming: LibraryItem): LibraryItem => {
+  const sessionDates = new Set(existing.sessions.map(s => s.date));
+  const versions = mergeById(existing.versions, incoming.versions);
+  return {
+    ...existing,
+    lastPosition: Math.max(existing.lastPosition, incoming.lastPosition),
+    sessions: [...existing.sessions, ...incoming.sessions.filter(s => !sessionDates.has(s.date))]
+      .sort((a, b) => a.date - b.date),
+    tags: Array.from(new Set([...(existing.tags || []), ...(incoming.tags || [])])),
+    collectionIds: Array.from(new Set([...(existing.collectionIds || []), ...(incoming.collectionIds || [])])),
+    lastOpened: Math.max(existing.lastOpened ?? 0, incoming.lastOpened ?? 0) || undefined,
+    highlights: mergeById(existing.highlights, incoming.highlights),
+    bookmarks: mergeById(existing.bookmarks, incoming.bookmarks),
+    // The text showing stays the same; if it had no versions yet, it's the matching incoming one
+    versions: versions.length > 0 ? versions : undefined,
+    activeVersionId: existing.activeVersionId ?? versions.find(v => v.content === existing.content)?.id,
+    // Each version keeps the summary it has, and gains the backup's if it has none
+    summaries: mergeSummaries(existing.summaries, incoming.summaries)
+  };
+};
+
+/**
+ * Resolves a backup against the current library.
+ * Returns only the items and words that need writing; untouched ones are not included.
+ */
+export const resolveBackup = (
+  library: LibraryItem[],
+  vocabulary: VocabularyWord[],
+  backup: LibraryBackup,
+  strategy: ConflictStrategy,
+  generateId: () => string
+): { items: LibraryItem[]; vocabulary: VocabularyWord[] } => {
+  const existingById = new Map(library.map(item => [item.id, item]));
+  // Copies made under keep-both, so their words' sightings point at the copy
+  const copies = new Map<string, LibraryItem>();
+
+  const items = backup.items.map(incoming => {
+    const existing = existingById.get(incoming.id);
+    if (!existing || strategy === 'overwrite') return incoming;
+    if (strategy === 'merge') return mergeItems(existing, incoming);
+    const copy = { ...incoming, id: generateId(), title: `${incoming.title} (Imported)` };
+    copies.set(incoming.id, copy);
+    return copy;
+  });
+
+  const incomingWords = backup.vocabulary.map(word => ({
+    ...word,
+    sightings: word.sightings.map(s => {
+      const copy = copies.get(s.itemId);
+      return copy ? { ...s, itemId: copy.id, title: copy.title } : s;
+    })
+  }));
+  return { items, vocabulary: mergeVocabulary(vocabulary, incomingWords, generateId) };
+};
+
+/** Profiles are merged by id, with the backup's version winning. */
+export const mergeProfiles = (current: SettingsProfile[], incoming: SettingsProfile[]): SettingsProfile[] => {
+  const incomingIds = new Set(incoming.map(p => p.id));
+  return [...current.filter(p => !incomingIds.has(p.id)), ...incoming];
+};
+
+/** Collections merge the same way as profiles. */
+export const mergeCollections = (current: Collection[], incoming: Collection[]): Collection[] => {
+  const incomingIds = new Set(incoming.map(c => c.id));
+  return [...current.filter(c => !incomingIds.has(c.id)), ...incoming];
+};
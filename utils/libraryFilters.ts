@@ -0,0 +1,76 @@
+import { LibraryItem, VocabularyWord } from '../types';
+
+export type LibrarySort = 'last-read' | 'added' | 'progress' | 'length' | 'title';
+export type LibraryStatus = 'all' | 'unfinished' | 'finished' | 'archived';
+
+export interface LibraryFilter {
+  status: LibraryStatus;
+  dueVocab: boolean;
+  tag?: string;
+  collectionId?: string;
+}
+
+export const DEFAULT_LIBRARY_FILTER: LibraryFilter = { status: 'all', dueVocab: false };
+
+export const LIBRARY_SORTS: { id: LibrarySort; label: string }[] = [
+  { id: 'last-read', label: 'Last Read' },
+  { id: 'added', label: 'Date Added' },
+  { id: 'progress', label: 'Progress' },
+  { id: 'length', label: 'Length' },
+  { id: 'title', label: 'Title' },
+];
+
+// How long a deleted item can be restored before it's removed for good
+export const UNDO_DELETE_MS = 10 * 1000;
+
+export const progressOf = (item: LibraryItem) => item.lastPosition / Math.max(1, item.totalWords);
+
+export const isFinished = (item: LibraryItem) => item.totalWords > 0 && item.lastPosition >= item.totalWords - 1;
+
+/** Whether any word met in the item is due for review. */
+export const hasDueVocab = (item: LibraryItem, vocabulary: VocabularyWord[], now: number) =>
+  vocabulary.some(v => (!v.nextReview || v.nextReview <= now) && v.sightings.some(s => s.itemId === item.id));
+
+/** Last time the item was read, falling back to its sessions for items opened before `lastOpened` existed. */
+export const lastReadAt = (item: LibraryItem): number | undefined =>
+  item.lastOpened ?? (item.sessions.length > 0 ? Math.max(...item.sessions.map(s => s.date)) : undefined);
+
+const compare: Record<LibrarySort, (a: LibraryItem, b: LibraryItem) => number> = {
+  // Never-read items go last, newest first among themselves
+  'last-read': (a, b) => (lastReadAt(b) ?? -Infinity) - (lastReadAt(a) ?? -Infinity) || b.date - a.date,
+  added: (a, b) => b.date - a.date,
+  progress: (a, b) => progressOf(b) - progressOf(a),
+  length: (a, b) => b.totalWords - a.totalWords,
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true })
+};
+
+/** Live items matching the filter, in sort order. Archived items only show under the archived status. */
+export const organizeLibrary = (
+  library: LibraryItem[], vocabulary: VocabularyWord[], filter: LibraryFilter, sort: LibrarySort, now = Date.now()
+): LibraryItem[] =>
+  library
+    .filter(item => {
+      if (item.deletedAt) return false;
+      if (filter.status === 'archived' ? !item.archived : item.archived) return false;
+      if (filter.status === 'unfinished' && isFinished(item)) return false;
+      if (filter.status === 'finished' && !isFinished(item)) return false;
+      if (filter.dueVocab && !hasDueVocab(item, vocabulary, now)) return false;
+      if (filter.tag && !item.tags?.includes(filter.tag)) return false;
+      if (filter.collectionId && !item.collectionIds?.includes(filter.collectionId)) return false;
+      return true;
+    })
+    .sort(compare[sort]);
+
+/** Every tag in use, alphabetically. */
+export const libraryTags = (library: LibraryItem[]): string[] =>
+  Array.from(new Set(library.filter(item => !item.deletedAt).flatMap(item => item.tags || [])))
+    .sort((a, b) => a.localeCompare(b));
+
+/** Tags are trimmed and lowercased so "Work" and "work " don't split the library. */
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ').toLocaleLowerCase();
+
+/** The most recently opened item that's still in progress. */
+export const continueReading = (library: LibraryItem[]): LibraryItem | undefined =>
+  library
+    .filter(item => item.lastOpened && !item.deletedAt && !item.archived && !isFinished(item))
+    .sort((a, b) => b.lastOpened! - a.lastOpened!)[0];
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Narrator } from './narration';
+import { parseDocument } from './documentModel';
+import { SpeechEngine, SpeechRequest, SpeechHandlers, SpeechVoice } from '../services/speechService';
+
+/** Records what it's asked to say; the test fires the events a real synthesiser would. */
+class FakeSpeechEngine implements SpeechEngine {
+  readonly available = true;
+  utterances: { request: SpeechRequest; handlers: SpeechHandlers }[] = [];
+  cancels = 0;
+
+  voices(): SpeechVoice[] {
+    return [];
+  }
+
+  onVoicesChanged() {
+    return () => {};
+  }
+
+  speak(request: SpeechRequest, handlers: SpeechHandlers) {
+    this.utterances.push({ request, handlers });
+  }
+
+  cancel() {
+    this.cancels++;
+  }
+
+  get last() {
+    return this.utterances[this.utterances.length - 1];
+  }
+
+  /** A boundary event at the start of the given word of the last utterance. */
+  reachWord(word: string) {
+    const { request, handlers } = this.last;
+    handlers.onBoundary(request.text.indexOf(word));
+  }
+}
+
+// Tokens 0-2, 3-4 and 5-6
+const DOC = parseDocument('One two three. Four five.\n\nSix seven.');
+const VOICE = { voiceId: 'en-GB', rate: 1, pitch: 1 };
+
+describe('Narrator', () => {
+  let engine: FakeSpeechEngine;
+  let words: number[];
+  let ended: number;
+  let errors: string[];
+  let narrator: Narrator;
+
+  beforeEach(() => {
+    engine = new FakeSpeechEngine();
+    words = [];
+    ended = 0;
+    errors = [];
+    narrator = new Narrator(engine, DOC, VOICE, {
+      onWord: index => words.push(index),
+      onEnd: () => ended++,
+      onError: error => errors.push(error)
+    });
+  });
+
+  it('speaks one sentence per utterance with the chosen voice', () => {
+    narrator.play(0);
+    expect(engine.last.request).toEqual({ text: 'One two three.', voiceId: 'en-GB', rate: 1, pitch: 1 });
+    expect(narrator.isSpeaking).toBe(true);
+  });
+
+  it('starts at the word asked for without reporting it back', () => {
+    narrator.play(3);
+    expect(engine.last.request.text).toBe('Four five.');
+    expect(narrator.currentIndex).toBe(3);
+    expect(words).toEqual([]);
+  });
+
+  it('moves the reading position on each boundary event', () => {
+    narrator.play(0);
+    engine.reachWord('two');
+    engine.reachWord('three.');
+    expect(words).toEqual([1, 2]);
+    expect(narrator.currentIndex).toBe(2);
+  });
+
+  it('reports each word once, whatever the engine repeats', () => {
+    narrator.play(0);
+    engine.reachWord('two');
+    engine.reachWord('two');
+    engine.last.handlers.onBoundary(5);
+    expect(words).toEqual([1]);
+  });
+
+  it('goes on to the next sentence and paragraph, then ends', () => {
+    narrator.play(0);
+    engine.last.handlers.onEnd();
+    expect(engine.last.request.text).toBe('Four five.');
+    expect(words).toEqual([3]);
+    engine.last.handlers.onEnd();
+    expect(engine.last.request.text).toBe('Six seven.');
+    engine.reachWord('seven.');
+    engine.last.handlers.onEnd();
+    expect(words).toEqual([3, 5, 6]);
+    expect(ended).toBe(1);
+    expect(narrator.isSpeaking).toBe(false);
+  });
+
+  it('moves a sentence at a time with an engine that reports no boundaries', () => {
+    narrator.play(0);
+    engine.last.handlers.onEnd();
+    engine.last.handlers.onEnd();
+    expect(words).toEqual([3, 5]);
+  });
+
+  it('pauses and resumes at the word it had reached', () => {
+    narrator.play(0);
+    engine.reachWord('two');
+    narrator.stop();
+    expect(narrator.isSpeaking).toBe(false);
+    expect(engine.cancels).toBe(2);
+
+    // A cancelled utterance may still report its end; it must not carry narration on
+    engine.last.handlers.onEnd();
+    expect(engine.utterances).toHaveLength(1);
+
+    narrator.play(narrator.currentIndex);
+    expect(engine.last.request.text).toBe('two three.');
+    expect(narrator.isSpeaking).toBe(true);
+    engine.reachWord('three.');
+    expect(words).toEqual([1, 2]);
+  });
+
+  it('seeks while speaking, starting part way into a sentence', () => {
+    narrator.play(0);
+    engine.reachWord('two');
+    const abandoned = engine.last;
+    narrator.play(4);
+    expect(engine.last.request.text).toBe('five.');
+    expect(narrator.currentIndex).toBe(4);
+    expect(words).toEqual([1]);
+
+    // Late events from the abandoned sentence are ignored
+    abandoned.handlers.onBoundary(abandoned.request.text.indexOf('three.'));
+    abandoned.handlers.onEnd();
+    expect(words).toEqual([1]);
+    expect(engine.utterances).toHaveLength(2);
+
+    engine.last.handlers.onEnd();
+    expect(engine.last.request.text).toBe('Six seven.');
+  });
+
+  it('maps boundaries in a sentence started part way through', () => {
+    narrator.play(1);
+    engine.reachWord('three.');
+    expect(words).toEqual([2]);
+  });
+
+  it('ends straight away when started past the last word', () => {
+    narrator.play(7);
+    expect(engine.utterances).toHaveLength(0);
+    expect(ended).toBe(1);
+    expect(narrator.isSpeaking).toBe(false);
+  });
+
+  it('applies a rate change from the next sentence', () => {
+    narrator.play(0);
+    narrator.setVoice({ ...VOICE, rate: 1.5 });
+    expect(engine.last.request.rate).toBe(1);
+    engine.last.handlers.onEnd();
+    expect(engine.last.request.rate).toBe(1.5);
+  });
+
+  it('applies a rate change at once when restarted at the current word', () => {
+    narrator.play(0);
+    engine.reachWord('two');
+    narrator.setVoice({ ...VOICE, rate: 2, pitch: 0.8 });
+    narrator.play(narrator.currentIndex);
+    expect(engine.last.request).toEqual({ text: 'two three.', voiceId: 'en-GB', rate: 2, pitch: 0.8 });
+  });
+
+  it('stops and reports engine errors', () => {
+    narrator.play(0);
+    engine.last.handlers.onError('synthesis-failed');
+    expect(errors).toEqual(['synthesis-failed']);
+    expect(narrator.isSpeaking).toBe(false);
+  });
+});
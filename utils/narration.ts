@@ -0,0 +1,121 @@
+import { StructuredDocument, DocumentToken, NarrationSettings } from '../types';
+import { documentParagraphs } from './documentModel';
+import { SpeechEngine } from '../services/speechService';
+
+export interface NarratorHandlers {
+  onWord: (index: number) => void; // The voice reached this token
+  onEnd: () => void; // Finished the last token of the document
+  onError: (error: string) => void;
+}
+
+/**
+ * Reads a document aloud one sentence per utterance, reporting each word as the
+ * engine's boundary events reach it. Sentences keep utterances short enough for
+ * engines that cut long ones off, and let playback restart at any word.
+ *
+ * Engines that don't report boundaries still move on a sentence at a time.
+ */
+export class Narrator {
+  private sentences: DocumentToken[][];
+  private voice: Omit<NarrationSettings, 'enabled'>;
+  private speaking = false;
+  private position = -1;
+  // Bumped on every start and stop, so events from an abandoned utterance are ignored
+  private generation = 0;
+
+  constructor(
+    private engine: SpeechEngine,
+    doc: StructuredDocument,
+    voice: Omit<NarrationSettings, 'enabled'>,
+    private handlers: NarratorHandlers
+  ) {
+    this.sentences = documentParagraphs(doc).flatMap(p => p.sentences.map(s => s.tokens));
+    this.voice = { voiceId: voice.voiceId, rate: voice.rate, pitch: voice.pitch };
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  /** The last token reported, or -1 before narration starts. */
+  get currentIndex() {
+    return this.position;
+  }
+
+  /** Takes effect from the next sentence; restart with play() to hear it straight away. */
+  setVoice(voice: Omit<NarrationSettings, 'enabled'>) {
+    this.voice = { voiceId: voice.voiceId, rate: voice.rate, pitch: voice.pitch };
+  }
+
+  /** Starts speaking at a token, part way into its sentence if need be. */
+  play(from: number) {
+    this.engine.cancel();
+    this.generation++;
+    this.speaking = true;
+    this.position = from;
+    this.speakFrom(from);
+  }
+
+  stop() {
+    if (!this.speaking) return;
+    this.generation++;
+    this.speaking = false;
+    this.engine.cancel();
+  }
+
+  private report(index: number) {
+    if (index === this.position) return;
+    this.position = index;
+    this.handlers.onWord(index);
+  }
+
+  private sentenceAt(index: number) {
+    let low = 0;
+    let high = this.sentences.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const tokens = this.sentences[mid];
+      if (tokens[tokens.length - 1].index < index) low = mid + 1;
+      else if (tokens[0].index > index) high = mid - 1;
+      else return mid;
+    }
+    return low < this.sentences.length ? low : -1;
+  }
+
+  private speakFrom(index: number) {
+    const sentence = this.sentenceAt(index);
+    if (sentence === -1) {
+      this.speaking = false;
+      this.handlers.onEnd();
+      return;
+    }
+    const tokens = this.sentences[sentence].filter(t => t.index >= index);
+    const offsets: number[] = [];
+    let text = '';
+    tokens.forEach(token => {
+      if (text) text += ' ';
+      offsets.push(text.length);
+      text += token.text;
+    });
+
+    const generation = this.generation;
+    const current = () => generation === this.generation;
+    this.report(tokens[0].index);
+    this.engine.speak({ text, ...this.voice }, {
+      onBoundary: charIndex => {
+        if (!current()) return;
+        let word = 0;
+        while (word + 1 < offsets.length && offsets[word + 1] <= charIndex) word++;
+        this.report(tokens[word].index);
+      },
+      onEnd: () => {
+        if (current()) this.speakFrom(tokens[tokens.length - 1].index + 1);
+      },
+      onError: error => {
+        if (!current()) return;
+        this.speaking = false;
+        this.handlers.onError(error);
+      }
+    });
+  }
+}
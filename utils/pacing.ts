@@ -0,0 +1,133 @@
+import { StructuredDocument, DocumentParagraph, DocumentToken, PacingSettings } from '../types';
+import { documentParagraphs } from './documentModel';
+import { lookupForm, splitAffixes } from './tokenizer';
+import { frequencyRank, FREQUENCY_LIST_SIZE } from './wordFrequency';
+
+/** What a pacing factor gets to see about one token. */
+export interface TokenContext {
+  token: DocumentToken;
+  paragraph: DocumentParagraph;
+  form: string; // lookupForm of the token, '' for numbers and URLs
+  rank: number | undefined; // Frequency rank of form, undefined when rare
+  sentenceStart: boolean;
+  sentenceEnd: boolean;
+  paragraphEnd: boolean;
+  firstOccurrence: boolean; // First time form appears in the document
+}
+
+/**
+ * A pacing factor returns a delay multiplier for a token, given its configured strength.
+ * Structural factors are pauses after the token; the largest one wins so a sentence
+ * that ends a paragraph doesn't pause twice. Lexical factors compound.
+ */
+export interface PacingFactor {
+  key: keyof PacingSettings;
+  kind: 'pause' | 'lexical';
+  weigh: (ctx: TokenContext, strength: number) => number;
+}
+
+// Keeps a pile-up of factors on one token from stalling playback
+const MAX_WEIGHT = 6;
+const CLAUSE_END_RE = /[,;:—–]["'”’)\]]*$/;
+const PROPER_NOUN_RE = /^\p{Lu}/u;
+const VOWEL_GROUP_RE = /[aeiouy]+/g;
+
+/** Rough English syllable count; other scripts count roughly one syllable per three letters. */
+export const countSyllables = (word: string): number => {
+  const lower = word.toLowerCase();
+  if (!/^[a-z'’-]+$/.test(lower)) return Math.max(1, Math.round(Array.from(word).length / 3));
+  const trimmed = lower.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, (trimmed.match(VOWEL_GROUP_RE) || []).length);
+};
+
+// 0 for the most common word, approaching 1 at the end of the list; unlisted words are 1
+const rarity = (rank: number | undefined) =>
+  rank === undefined ? 1 : Math.log(rank) / Math.log(FREQUENCY_LIST_SIZE + 1);
+
+const isRare = (ctx: TokenContext) => ctx.token.kind === 'word' && ctx.form.length > 3 && ctx.rank === undefined;
+
+export const PACING_FACTORS: PacingFactor[] = [
+  { key: 'sentenceEnd', kind: 'pause', weigh: (ctx, s) => ctx.sentenceEnd ? s : 1 },
+  { key: 'clause', kind: 'pause', weigh: (ctx, s) => CLAUSE_END_RE.test(ctx.token.text) ? s : 1 },
+  { key: 'paragraph', kind: 'pause', weigh: (ctx, s) => ctx.paragraphEnd && ctx.paragraph.kind === 'paragraph' ? s : 1 },
+  { key: 'heading', kind: 'pause', weigh: (ctx, s) => ctx.paragraphEnd && ctx.paragraph.kind === 'heading' ? s : 1 },
+  {
+    key: 'frequency', kind: 'lexical',
+    weigh: (ctx, s) => ctx.token.kind === 'word' ? 1 + (s - 1) * rarity(ctx.rank) : 1
+  },
+  {
+    key: 'syllables', kind: 'lexical',
+    weigh: (ctx, s) => ctx.token.kind === 'word' ? s ** Math.min(4, Math.max(0, countSyllables(ctx.form) - 2)) : 1
+  },
+  { key: 'numbers', kind: 'lexical', weigh: (ctx, s) => ctx.token.kind === 'number' ? s : 1 },
+  {
+    key: 'properNouns', kind: 'lexical',
+    // Capitalised mid-sentence; sentence starts and headings are capitalised anyway
+    weigh: (ctx, s) => ctx.token.kind === 'word' && !ctx.sentenceStart && ctx.paragraph.kind === 'paragraph'
+      && PROPER_NOUN_RE.test(splitAffixes(ctx.token.text).core) && ctx.form !== 'i' ? s : 1
+  },
+  { key: 'novelty', kind: 'lexical', weigh: (ctx, s) => ctx.firstOccurrence && isRare(ctx) ? s : 1 }
+];
+
+/** Relative reading weight of every token, before normalising to a speed. */
+export const tokenWeights = (doc: StructuredDocument, pacing: PacingSettings, factors = PACING_FACTORS): number[] => {
+  const weights: number[] = [];
+  const seen = new Set<string>();
+
+  documentParagraphs(doc).forEach(paragraph => {
+    paragraph.sentences.forEach((sentence, si) => {
+      sentence.tokens.forEach((token, ti) => {
+        const form = token.kind === 'word' ? lookupForm(token.text) : '';
+        const ctx: TokenContext = {
+          token,
+          paragraph,
+          form,
+          rank: form ? frequencyRank(form) : undefined,
+          sentenceStart: ti === 0,
+          sentenceEnd: ti === sentence.tokens.length - 1,
+          paragraphEnd: si === paragraph.sentences.length - 1 && ti === sentence.tokens.length - 1,
+          firstOccurrence: !!form && !seen.has(form)
+        };
+        if (form) seen.add(form);
+
+        let pause = 1;
+        let lexical = 1;
+        factors.forEach(factor => {
+          const m = factor.weigh(ctx, pacing[factor.key]);
+          if (factor.kind === 'pause') pause = Math.max(pause, m);
+          else lexical *= m;
+        });
+        weights[token.index] = Math.min(MAX_WEIGHT, pause * lexical);
+      });
+    });
+  });
+  return weights;
+};
+
+export interface PacingSchedule {
+  delays: number[]; // Milliseconds each token stays on screen
+  remaining: number[]; // Milliseconds from the start of each token to the end; one extra 0 at the end
+}
+
+/**
+ * Turns token weights into per-token delays. Weights are scaled so the mean delay is
+ * exactly one word at the target speed, so the document as a whole reads at `wpm`
+ * however the time is shifted between tokens.
+ */
+export const buildSchedule = (doc: StructuredDocument, wpm: number, pacing: PacingSettings): PacingSchedule => {
+  const weights = tokenWeights(doc, pacing);
+  const mean = weights.reduce((sum, w) => sum + w, 0) / (weights.length || 1);
+  const base = 60000 / wpm / (mean || 1);
+  const delays = weights.map(w => w * base);
+
+  const remaining = new Array<number>(delays.length + 1);
+  remaining[delays.length] = 0;
+  for (let i = delays.length - 1; i >= 0; i--) remaining[i] = remaining[i + 1] + delays[i];
+  return { delays, remaining };
+};
+
+/** Delay for showing `count` tokens from `index` at once, as in chunk mode. */
+export const stepDelay = (schedule: PacingSchedule, index: number, count = 1): number => {
+  const end = Math.min(schedule.delays.length, index + count);
+  return schedule.remaining[Math.min(index, end)] - schedule.remaining[end];
+};
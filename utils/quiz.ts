@@ -0,0 +1,185 @@
+import { StructuredDocument, DocumentParagraph, DocumentSentence, QuizResult } from '../types';
+import { aiService, RawQuizQuestion } from '../services/aiService';
+import { documentParagraphs, paragraphTokens } from './documentModel';
+import { lookupForm, splitAffixes } from './tokenizer';
+import { frequencyRank } from './wordFrequency';
+
+export type QuizQuestionKind = 'choice' | 'cloze' | 'sequence';
+
+export interface QuizQuestion {
+  kind: QuizQuestionKind;
+  prompt: string;
+  options: string[];
+  // choice and cloze: the correct option; sequence: option indices in reading order
+  answer: number[];
+  passage: { start: number; end: number }; // Character offsets of the passage the answer comes from
+  excerpt: string; // That passage's text, shown after answering
+}
+
+export interface Quiz {
+  source: QuizResult['source'];
+  questions: QuizQuestion[];
+}
+
+const MAX_QUESTIONS = 5;
+const MAX_PASSAGES = 12;
+const MAX_PASSAGE_CHARS = 800;
+const SEQUENCE_LENGTH = 4;
+
+const sentenceText = (s: DocumentSentence) => s.tokens.map(t => t.text).join(' ');
+const paragraphText = (p: DocumentParagraph) => paragraphTokens(p).map(t => t.text).join(' ');
+const truncate = (text: string, max: number) => text.length > max ? `${text.substring(0, max - 1).trimEnd()}…` : text;
+
+// Small string hash so the offline quiz for a passage is the same every time
+const hash = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  return h >>> 0;
+};
+
+/** Picks `count` items spread evenly over the list, keeping their order. */
+const spread = <T>(items: T[], count: number): T[] => {
+  if (items.length <= count) return items;
+  return Array.from({ length: count }, (_, i) => items[Math.floor((i + 0.5) * items.length / count)]);
+};
+
+/** Body paragraphs with at least one token inside [from, to]. */
+const paragraphsInRange = (doc: StructuredDocument, from: number, to: number) =>
+  documentParagraphs(doc).filter(p => {
+    if (p.kind !== 'paragraph') return false;
+    const tokens = paragraphTokens(p);
+    return tokens[0].index <= to && tokens[tokens.length - 1].index >= from;
+  });
+
+// Higher is rarer; unlisted words rank past the end of the list
+const rarityScore = (form: string) => frequencyRank(form) ?? Infinity;
+
+const buildCloze = (sentence: DocumentSentence, paragraph: DocumentParagraph, pool: string[]): QuizQuestion | null => {
+  const candidates = sentence.tokens
+    .map(token => ({ token, form: lookupForm(token.text), core: splitAffixes(token.text).core }))
+    .filter(c => c.token.kind === 'word' && c.form.length >= 4);
+  if (candidates.length === 0) return null;
+
+  const target = candidates.reduce((best, c) => {
+    const rank = rarityScore(c.form);
+    const bestRank = rarityScore(best.form);
+    return rank > bestRank || (rank === bestRank && c.core.length > best.core.length) ? c : best;
+  });
+  // Words from the sentence itself would give the answer away by elimination
+  const inSentence = new Set(candidates.map(c => c.form));
+  const capitalised = /^\p{Lu}/u.test(target.core);
+  const distractors = pool
+    .filter(w => !inSentence.has(w.toLocaleLowerCase()))
+    .sort((a, b) => Math.abs(a.length - target.core.length) - Math.abs(b.length - target.core.length) || a.localeCompare(b))
+    .slice(0, 3)
+    .map(w => capitalised ? w.charAt(0).toLocaleUpperCase() + w.slice(1) : w.charAt(0).toLocaleLowerCase() + w.slice(1));
+  if (distractors.length < 2) return null;
+
+  const prompt = sentence.tokens
+    .map(t => t === target.token ? t.text.replace(target.core, '_____') : t.text)
+    .join(' ');
+  const correctAt = hash(prompt) % (distractors.length + 1);
+  const options = [...distractors];
+  options.splice(correctAt, 0, target.core);
+
+  return {
+    kind: 'cloze',
+    prompt,
+    options,
+    answer: [correctAt],
+    passage: { start: paragraph.start, end: paragraph.end },
+    excerpt: truncate(paragraphText(paragraph), MAX_PASSAGE_CHARS)
+  };
+};
+
+const buildSequence = (picks: { sentence: DocumentSentence; paragraph: DocumentParagraph }[]): QuizQuestion | null => {
+  if (picks.length < 3) return null;
+  const texts = picks.map(p => truncate(sentenceText(p.sentence), 140));
+  // Rotate by a seeded offset of at least one so the options never come out in order
+  const shift = 1 + hash(texts.join('|')) % (texts.length - 1);
+  const shown = texts.map((_, i) => (i + shift) % texts.length);
+  const first = picks[0].paragraph;
+  const last = picks[picks.length - 1].paragraph;
+  return {
+    kind: 'sequence',
+    prompt: 'Put these sentences in the order they appeared.',
+    options: shown.map(i => texts[i]),
+    answer: texts.map((_, i) => shown.indexOf(i)),
+    passage: { start: first.start, end: last.end },
+    excerpt: texts.join(' … ')
+  };
+};
+
+/**
+ * Builds a quiz from the text alone: cloze questions that blank out the rarest word of
+ * evenly spaced sentences, plus one question on the order of events. Deterministic, so
+ * retaking the same range gives the same quiz.
+ */
+export const buildOfflineQuiz = (doc: StructuredDocument, from: number, to: number): Quiz => {
+  const paragraphs = paragraphsInRange(doc, from, to);
+  const sentences = paragraphs.flatMap(paragraph => paragraph.sentences
+    .filter(s => s.tokens.length >= 6 && s.tokens.length <= 40 && s.tokens[0].index >= from && s.tokens[s.tokens.length - 1].index <= to)
+    .map(sentence => ({ sentence, paragraph })));
+
+  // Distractor candidates, one spelling per word
+  const pool = new Map<string, string>();
+  paragraphs.flatMap(p => paragraphTokens(p)).forEach(t => {
+    const form = t.kind === 'word' ? lookupForm(t.text) : '';
+    if (form.length >= 4 && !pool.has(form)) pool.set(form, splitAffixes(t.text).core);
+  });
+
+  const questions: QuizQuestion[] = [];
+  spread(sentences, MAX_QUESTIONS - 1).forEach(({ sentence, paragraph }) => {
+    const question = buildCloze(sentence, paragraph, Array.from(pool.values()));
+    if (question) questions.push(question);
+  });
+  const sequence = buildSequence(spread(sentences, SEQUENCE_LENGTH));
+  if (sequence) questions.push(sequence);
+
+  return { source: 'offline', questions };
+};
+
+const validateAiQuestion = (raw: RawQuizQuestion, passages: DocumentParagraph[]): QuizQuestion | null => {
+  if (!raw || typeof raw.question !== 'string' || !raw.question.trim()) return null;
+  if (!Array.isArray(raw.options) || raw.options.length < 2 || !raw.options.every(o => typeof o === 'string' && o.trim())) return null;
+  if (!Number.isInteger(raw.answerIndex) || raw.answerIndex < 0 || raw.answerIndex >= raw.options.length) return null;
+  const paragraph = passages[raw.passage];
+  if (!paragraph) return null;
+  return {
+    kind: 'choice',
+    prompt: raw.question.trim(),
+    options: raw.options.map(o => o.trim()),
+    answer: [raw.answerIndex],
+    passage: { start: paragraph.start, end: paragraph.end },
+    excerpt: truncate(paragraphText(paragraph), MAX_PASSAGE_CHARS)
+  };
+};
+
+/**
+ * Builds a quiz for the tokens in [from, to]. Asks the model first and falls back to
+ * the offline quiz when it fails or returns nothing usable.
+ */
+export const createQuiz = async (doc: StructuredDocument, from: number, to: number): Promise<Quiz> => {
+  const passages = spread(paragraphsInRange(doc, from, to), MAX_PASSAGES);
+  if (passages.length > 0) {
+    try {
+      const raw = await aiService.generateQuiz(passages.map(p => truncate(paragraphText(p), MAX_PASSAGE_CHARS)), MAX_QUESTIONS);
+      const questions = raw
+        .map(q => validateAiQuestion(q, passages))
+        .filter((q): q is QuizQuestion => q !== null)
+        .slice(0, MAX_QUESTIONS);
+      if (questions.length > 0) return { source: 'ai', questions };
+    } catch (e) {
+      console.warn("AI quiz failed, building offline quiz:", e);
+    }
+  }
+  return buildOfflineQuiz(doc, from, to);
+};
+
+export const isCorrect = (question: QuizQuestion, response: number[]): boolean =>
+  response.length === question.answer.length && response.every((r, i) => r === question.answer[i]);
+
+export const scoreQuiz = (quiz: Quiz, responses: number[][]): QuizResult => {
+  const correct = quiz.questions.filter((q, i) => isCorrect(q, responses[i] || [])).length;
+  return { correct, total: quiz.questions.length, source: quiz.source };
+};
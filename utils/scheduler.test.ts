@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import { VocabularyWord, ReviewRating } from '../types';
+import { DEFAULT_SCHEDULER, newCard, reviewCard, previewIntervals, buildReviewQueue, migrateCard } from './scheduler';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+// Midday, so a few hours either way stays on the same calendar day
+const NOW = new Date(2024, 0, 15, 12).getTime();
+
+const card = (overrides: Partial<VocabularyWord> = {}): VocabularyWord => ({
+  id: 'w', word: 'word', headword: 'word', definition: '', examples: [], sightings: [], date: NOW,
+  ...newCard(NOW), reviewLog: [], ...overrides
+});
+
+const reviewCardAt = (state: Partial<VocabularyWord>) => card({ state: 'review', step: 0, reps: 5, nextReview: NOW, ...state });
+
+/** Answers the card with each rating in turn, each at the moment it falls due. */
+const answer = (start: VocabularyWord, ratings: ReviewRating[]) => {
+  let current = start;
+  const waits: number[] = [];
+  ratings.forEach(rating => {
+    const now = current.nextReview;
+    current = { ...current, ...reviewCard(current, rating, now) };
+    waits.push(current.nextReview - now);
+  });
+  return { card: current, waits };
+};
+
+describe('learning a new card', () => {
+  it('steps through 1m and 10m, then graduates to a 1 day review', () => {
+    const { card: learnt, waits } = answer(card(), ['good', 'good']);
+    expect(waits).toEqual([10 * MINUTE, 1 * DAY]);
+    expect(learnt.state).toBe('review');
+    expect(learnt.stability).toBe(1);
+    expect(learnt.ease).toBe(2.5);
+    expect(learnt.proficiency).toBe(2);
+  });
+
+  it('restarts the steps on again', () => {
+    const { card: learning, waits } = answer(card(), ['good', 'again']);
+    expect(waits).toEqual([10 * MINUTE, 1 * MINUTE]);
+    expect(learning.state).toBe('learning');
+    expect(learning.step).toBe(0);
+  });
+
+  it('waits halfway to the next step on hard at the first step', () => {
+    expect(previewIntervals(card(), NOW).hard).toBe(5.5 * MINUTE);
+    const { waits } = answer(card(), ['good', 'hard']);
+    expect(waits[1]).toBe(10 * MINUTE);
+  });
+
+  it('graduates straight to the easy interval on easy', () => {
+    const { card: learnt, waits } = answer(card(), ['easy']);
+    expect(waits).toEqual([4 * DAY]);
+    expect(learnt.state).toBe('review');
+    expect(learnt.ease).toBe(2.5);
+  });
+
+  it('logs each answer with the state it was given in', () => {
+    const { card: learnt } = answer(card(), ['again', 'good', 'good']);
+    expect(learnt.reviewLog.map(e => [e.rating, e.state])).toEqual([['again', 'new'], ['good', 'learning'], ['good', 'learning']]);
+    expect(learnt.reps).toBe(3);
+  });
+});
+
+describe('reviewing', () => {
+  it('follows the reference schedule of good answers: 1, 3, 8, 20, 50 days', () => {
+    const { waits } = answer(card(), ['good', 'good', 'good', 'good', 'good', 'good']);
+    expect(waits.slice(1).map(ms => ms / DAY)).toEqual([1, 3, 8, 20, 50]);
+  });
+
+  it('changes interval and ease for hard, good and easy', () => {
+    const due = reviewCardAt({ stability: 10, ease: 2.5 });
+    const hard = reviewCard(due, 'hard', NOW);
+    const good = reviewCard(due, 'good', NOW);
+    const easy = reviewCard(due, 'easy', NOW);
+    expect([hard.stability, hard.ease]).toEqual([12, 2.35]);
+    expect([good.stability, good.ease]).toEqual([25, 2.5]);
+    expect([easy.stability, easy.ease]).toEqual([33, 2.65]);
+    expect(good.nextReview).toBe(NOW + 25 * DAY);
+  });
+
+  it('keeps each rating at least a day ahead of the one below it', () => {
+    const intervals = previewIntervals(reviewCardAt({ stability: 1, ease: 1.3 }), NOW);
+    expect([intervals.hard, intervals.good, intervals.easy].map(ms => ms / DAY)).toEqual([2, 3, 4]);
+  });
+
+  it('counts half the delay of a late good answer', () => {
+    const late = reviewCardAt({ stability: 10, ease: 2.5, nextReview: NOW - 4 * DAY });
+    expect(reviewCard(late, 'good', NOW).stability).toBe(30);
+  });
+
+  it('never lets hard take the ease below the minimum', () => {
+    expect(reviewCard(reviewCardAt({ stability: 10, ease: 1.4 }), 'hard', NOW).ease).toBe(1.3);
+  });
+
+  it('caps intervals at the maximum', () => {
+    const config = { ...DEFAULT_SCHEDULER, maximumInterval: 100 };
+    const due = reviewCardAt({ stability: 90, ease: 2.5 });
+    expect(reviewCard(due, 'good', NOW, config).stability).toBe(100);
+    expect(reviewCard(due, 'easy', NOW, config).nextReview).toBe(NOW + 100 * DAY);
+  });
+
+  it('counts cards 21 days apart or more as mastered', () => {
+    expect(reviewCard(reviewCardAt({ stability: 10, ease: 2.5 }), 'good', NOW).proficiency).toBe(3);
+    expect(reviewCard(reviewCardAt({ stability: 2, ease: 2.5 }), 'good', NOW).proficiency).toBe(2);
+  });
+});
+
+describe('lapses', () => {
+  it('sends a forgotten card to relearning with a lower ease and the interval reset to 1 day', () => {
+    const lapsed = reviewCard(reviewCardAt({ stability: 40, ease: 2.5 }), 'again', NOW);
+    expect(lapsed.state).toBe('relearning');
+    expect(lapsed.ease).toBe(2.3);
+    expect(lapsed.lapses).toBe(1);
+    // lapseMultiplier 0 keeps nothing of the old interval, clamped to a day
+    expect(lapsed.stability).toBe(1);
+    expect(lapsed.nextReview).toBe(NOW + 10 * MINUTE);
+    expect(lapsed.proficiency).toBe(1);
+  });
+
+  it('returns a relearnt card to its shrunken interval', () => {
+    const { card: relearnt, waits } = answer(reviewCardAt({ stability: 40, ease: 2.5 }), ['again', 'good']);
+    expect(waits).toEqual([10 * MINUTE, 1 * DAY]);
+    expect(relearnt.state).toBe('review');
+    expect(relearnt.stability).toBe(1);
+  });
+
+  it('keeps a share of the interval with a lapse multiplier', () => {
+    const config = { ...DEFAULT_SCHEDULER, lapseMultiplier: 0.5 };
+    expect(reviewCard(reviewCardAt({ stability: 40, ease: 2.5 }), 'again', NOW, config).stability).toBe(20);
+  });
+
+  it('reschedules in days when there are no relearning steps', () => {
+    const config = { ...DEFAULT_SCHEDULER, relearningSteps: [] };
+    const lapsed = reviewCard(reviewCardAt({ stability: 40, ease: 2.5 }), 'again', NOW, config);
+    expect(lapsed.state).toBe('review');
+    expect(lapsed.nextReview).toBe(NOW + 1 * DAY);
+  });
+});
+
+describe('buildReviewQueue', () => {
+  const logToday = (state: 'new' | 'review') => [{ date: NOW - MINUTE, rating: 'good' as const, state, interval: DAY, ease: 2.5 }];
+
+  it('puts due learning cards first, then reviews most overdue first, then new cards oldest first', () => {
+    const queue = buildReviewQueue([
+      card({ id: 'new-late', date: NOW - 1 }),
+      card({ id: 'new-early', date: NOW - 2 }),
+      reviewCardAt({ id: 'review-1', nextReview: NOW - DAY }),
+      reviewCardAt({ id: 'review-2', nextReview: NOW - 2 * DAY }),
+      reviewCardAt({ id: 'review-later', nextReview: NOW + DAY }),
+      card({ id: 'learning', state: 'learning', nextReview: NOW - MINUTE })
+    ], NOW);
+    expect(queue.map(c => c.id)).toEqual(['learning', 'review-2', 'review-1', 'new-early', 'new-late']);
+  });
+
+  it('stops new cards at what is left of the daily cap', () => {
+    const fresh = Array.from({ length: 25 }, (_, i) => card({ id: `new-${i}`, date: NOW - 25 + i }));
+    expect(buildReviewQueue(fresh, NOW)).toHaveLength(20);
+    const started = Array.from({ length: 5 }, (_, i) => card({ id: `started-${i}`, state: 'learning', nextReview: NOW + DAY, reviewLog: logToday('new') }));
+    expect(buildReviewQueue([...fresh, ...started], NOW)).toHaveLength(15);
+  });
+
+  it('stops reviews at what is left of the daily cap but never learning cards', () => {
+    const config = { ...DEFAULT_SCHEDULER, reviewsPerDay: 3 };
+    const reviews = Array.from({ length: 5 }, (_, i) => reviewCardAt({ id: `review-${i}` }));
+    const answered = reviewCardAt({ id: 'answered', nextReview: NOW + DAY, reviewLog: logToday('review') });
+    const learning = Array.from({ length: 4 }, (_, i) => card({ id: `learning-${i}`, state: 'relearning', nextReview: NOW }));
+    const queue = buildReviewQueue([...reviews, answered, ...learning], NOW, config);
+    expect(queue.filter(c => c.state === 'review')).toHaveLength(2);
+    expect(queue.filter(c => c.state === 'relearning')).toHaveLength(4);
+  });
+
+  it('does not count answers from earlier days', () => {
+    const config = { ...DEFAULT_SCHEDULER, newPerDay: 1 };
+    const yesterday = [{ date: NOW - DAY, rating: 'good' as const, state: 'new' as const, interval: DAY, ease: 2.5 }];
+    const queue = buildReviewQueue([card({ id: 'a' }), reviewCardAt({ id: 'b', nextReview: NOW + DAY, reviewLog: yesterday })], NOW, config);
+    expect(queue.map(c => c.id)).toEqual(['a']);
+  });
+});
+
+describe('migrateCard', () => {
+  const legacy = (proficiency: number) => ({ word: 'word', date: NOW - 30 * DAY, proficiency, nextReview: NOW + DAY });
+
+  it('keeps unreviewed cards new', () => {
+    const migrated = migrateCard(legacy(0));
+    expect(migrated.state).toBe('new');
+    expect(migrated.stability).toBe(0);
+    expect(migrated.nextReview).toBe(NOW + DAY);
+    expect(migrated.reviewLog).toEqual([]);
+  });
+
+  it.each([
+    [1, 1, 2],
+    [2, 3, 2],
+    [3, 4, 2],
+    [4, 7, 2],
+    [5, 14, 2]
+  ])('turns legacy level %i into a review card with a %i day interval', (level, interval, proficiency) => {
+    const migrated = migrateCard(legacy(level));
+    expect(migrated.state).toBe('review');
+    expect(migrated.stability).toBe(interval);
+    expect(migrated.reps).toBe(level);
+    expect(migrated.ease).toBe(DEFAULT_SCHEDULER.startingEase);
+    expect(migrated.nextReview).toBe(NOW + DAY);
+    expect(migrated.proficiency).toBe(proficiency);
+  });
+
+  it('clamps levels outside the old range', () => {
+    expect(migrateCard(legacy(9)).stability).toBe(14);
+    expect(migrateCard(legacy(-2)).state).toBe('new');
+  });
+
+  it('leaves cards that already have a state alone', () => {
+    const current = reviewCardAt({ stability: 40 });
+    expect(migrateCard(current)).toBe(current);
+  });
+});
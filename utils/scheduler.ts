@@ -0,0 +1,203 @@
+import { VocabularyWord, CardState, ReviewRating } from '../types';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * SM-2 as Anki schedules it: new cards go through short learning steps, then grow their
+ * interval by the card's ease on every review. Forgetting a review card is a lapse: the
+ * ease drops, the interval shrinks and the card relearns through its own steps.
+ */
+export interface SchedulerConfig {
+  learningSteps: number[]; // Minutes
+  relearningSteps: number[]; // Minutes
+  graduatingInterval: number; // Days, after the last learning step
+  easyInterval: number; // Days, when a new card is answered easy
+  startingEase: number;
+  minimumEase: number;
+  easyBonus: number;
+  hardMultiplier: number;
+  lapseMultiplier: number; // Share of the interval kept after a lapse
+  maximumInterval: number; // Days
+  masteredInterval: number; // Days; cards reviewed this far apart count as mastered
+  newPerDay: number;
+  reviewsPerDay: number;
+}
+
+export const DEFAULT_SCHEDULER: SchedulerConfig = {
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  graduatingInterval: 1,
+  easyInterval: 4,
+  startingEase: 2.5,
+  minimumEase: 1.3,
+  easyBonus: 1.3,
+  hardMultiplier: 1.2,
+  lapseMultiplier: 0,
+  maximumInterval: 36500,
+  masteredInterval: 21,
+  newPerDay: 20,
+  reviewsPerDay: 200
+};
+
+type Scheduling = Pick<VocabularyWord, 'state' | 'ease' | 'stability' | 'step' | 'reps' | 'lapses' | 'nextReview' | 'proficiency'>;
+
+const proficiencyOf = (state: CardState, stability: number, config: SchedulerConfig) => {
+  if (state === 'new') return 0;
+  if (state !== 'review') return 1;
+  return stability >= config.masteredInterval ? 3 : 2;
+};
+
+/** Scheduling fields for a word that's just been saved. */
+export const newCard = (now: number, config = DEFAULT_SCHEDULER): Scheduling => ({
+  state: 'new',
+  ease: config.startingEase,
+  stability: 0,
+  step: 0,
+  reps: 0,
+  lapses: 0,
+  nextReview: now,
+  proficiency: 0
+});
+
+/** The card's scheduling after a rating. */
+const schedule = (card: Scheduling, rating: ReviewRating, now: number, config: SchedulerConfig): Scheduling => {
+  const reps = card.reps + 1;
+  const done = (state: CardState, changes: Partial<Scheduling>, wait: number): Scheduling => {
+    const next = { ...card, ...changes, state, reps };
+    return { ...next, nextReview: now + wait, proficiency: proficiencyOf(state, next.stability, config) };
+  };
+  const clampDays = (days: number) => Math.min(config.maximumInterval, Math.max(1, Math.round(days)));
+
+  if (card.state === 'new' || card.state === 'learning' || card.state === 'relearning') {
+    const relearning = card.state === 'relearning';
+    const steps = relearning ? config.relearningSteps : config.learningSteps;
+    const state = relearning ? 'relearning' : 'learning';
+    const step = Math.min(card.step, Math.max(0, steps.length - 1));
+    // Relearnt cards go back to their shrunken interval; new ones start at the graduating interval
+    const graduate = (days: number) => done('review', { step: 0, stability: days }, days * DAY);
+
+    if (steps.length === 0) return graduate(relearning ? card.stability : config.graduatingInterval);
+    switch (rating) {
+      case 'again':
+        return done(state, { step: 0 }, steps[0] * MINUTE);
+      case 'hard': {
+        // The first step is hard to repeat straight away, so wait halfway to the next one
+        const wait = step === 0 && steps.length > 1 ? (steps[0] + steps[1]) / 2 : steps[step];
+        return done(state, { step }, wait * MINUTE);
+      }
+      case 'good':
+        if (step + 1 < steps.length) return done(state, { step: step + 1 }, steps[step + 1] * MINUTE);
+        return graduate(relearning ? card.stability : config.graduatingInterval);
+      case 'easy':
+        return graduate(relearning ? card.stability : config.easyInterval);
+    }
+  }
+
+  // Review: a late answer proves the word stuck for longer than scheduled, so part of the delay counts
+  const delay = Math.max(0, (now - card.nextReview) / DAY);
+  const interval = card.stability;
+  if (rating === 'again') {
+    const stability = clampDays(interval * config.lapseMultiplier);
+    const ease = Math.max(config.minimumEase, card.ease - 0.2);
+    if (config.relearningSteps.length === 0) return done('review', { ease, stability, lapses: card.lapses + 1 }, stability * DAY);
+    return done('relearning', { ease, stability, step: 0, lapses: card.lapses + 1 }, config.relearningSteps[0] * MINUTE);
+  }
+  const hard = clampDays(Math.max(interval + 1, interval * config.hardMultiplier));
+  const good = clampDays(Math.max(hard + 1, (interval + delay / 2) * card.ease));
+  const easy = clampDays(Math.max(good + 1, (interval + delay) * card.ease * config.easyBonus));
+  switch (rating) {
+    case 'hard':
+      return done('review', { stability: hard, ease: Math.max(config.minimumEase, card.ease - 0.15) }, hard * DAY);
+    case 'good':
+      return done('review', { stability: good }, good * DAY);
+    case 'easy':
+      return done('review', { stability: easy, ease: card.ease + 0.15 }, easy * DAY);
+  }
+};
+
+/** Applies a review: the card's new scheduling plus the entry appended to its log. */
+export const reviewCard = (
+  card: VocabularyWord, rating: ReviewRating, now: number, config = DEFAULT_SCHEDULER
+): Partial<VocabularyWord> => {
+  const next = schedule(card, rating, now, config);
+  return {
+    ...next,
+    reviewLog: [...card.reviewLog, { date: now, rating, state: card.state, interval: next.nextReview - now, ease: next.ease }]
+  };
+};
+
+/** What each rating would do to the card, as milliseconds until it's due again. */
+export const previewIntervals = (card: VocabularyWord, now: number, config = DEFAULT_SCHEDULER): Record<ReviewRating, number> => {
+  const wait = (rating: ReviewRating) => schedule(card, rating, now, config).nextReview - now;
+  return { again: wait('again'), hard: wait('hard'), good: wait('good'), easy: wait('easy') };
+};
+
+/** Short form of an interval for the rating buttons: "10m", "3d", "2.5mo". */
+export const formatInterval = (ms: number): string => {
+  const minutes = Math.round(ms / MINUTE);
+  if (minutes < 60) return `${Math.max(1, minutes)}m`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h`;
+  const days = ms / DAY;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${Math.round(days / 30 * 10) / 10}mo`;
+  return `${Math.round(days / 365 * 10) / 10}y`;
+};
+
+const startOfDay = (now: number) => {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+/** New cards started and review cards answered so far today, which count against the daily caps. */
+export const reviewedToday = (cards: VocabularyWord[], now: number) => {
+  const since = startOfDay(now);
+  let newCards = 0;
+  let reviews = 0;
+  cards.forEach(card => card.reviewLog.forEach(entry => {
+    if (entry.date < since) return;
+    if (entry.state === 'new') newCards++;
+    else if (entry.state === 'review') reviews++;
+  }));
+  return { newCards, reviews };
+};
+
+/**
+ * Cards to study now: learning cards that are due, then due reviews, most overdue first,
+ * then new cards, oldest first. Reviews and new cards stop at what's left of the daily caps;
+ * learning steps never do, since a half-learnt card would otherwise be lost.
+ */
+export const buildReviewQueue = (cards: VocabularyWord[], now: number, config = DEFAULT_SCHEDULER): VocabularyWord[] => {
+  const done = reviewedToday(cards, now);
+  const due = cards.filter(c => c.nextReview <= now);
+  const learning = due.filter(c => c.state === 'learning' || c.state === 'relearning').sort((a, b) => a.nextReview - b.nextReview);
+  const reviews = due.filter(c => c.state === 'review').sort((a, b) => a.nextReview - b.nextReview);
+  const fresh = cards.filter(c => c.state === 'new').sort((a, b) => a.date - b.date);
+  return [
+    ...learning,
+    ...reviews.slice(0, Math.max(0, config.reviewsPerDay - done.reviews)),
+    ...fresh.slice(0, Math.max(0, config.newPerDay - done.newCards))
+  ];
+};
+
+// Intervals the old fixed scheduler reached at each proficiency level, 0 to 5
+const LEGACY_INTERVALS = [0, 1, 3, 4, 7, 14];
+
+/**
+ * Gives a card saved before the scheduler its state fields. Unreviewed cards stay new;
+ * reviewed ones become review cards with an interval matching how far they'd got.
+ */
+export const migrateCard = (word: Partial<VocabularyWord> & Pick<VocabularyWord, 'date'>, config = DEFAULT_SCHEDULER): VocabularyWord => {
+  if (word.state) return word as VocabularyWord;
+  const level = Math.max(0, Math.min(LEGACY_INTERVALS.length - 1, Math.round(word.proficiency || 0)));
+  const base = level === 0
+    ? newCard(word.nextReview ?? word.date, config)
+    : { ...newCard(word.date, config), state: 'review' as const, stability: LEGACY_INTERVALS[level], reps: level, nextReview: word.nextReview ?? word.date };
+  return {
+    ...word,
+    ...base,
+    proficiency: proficiencyOf(base.state, base.stability, config),
+    reviewLog: []
+  } as VocabularyWord;
+};
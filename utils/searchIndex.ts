@@ -0,0 +1,162 @@
+import { LibraryItem, DocumentToken } from '../types';
+import { documentTokens } from './documentModel';
+import { lookupForm, splitAffixes, tokenize } from './tokenizer';
+
+// Bump when term normalisation changes, so stored entries are rebuilt
+export const SEARCH_INDEX_VERSION = 1;
+
+const SNIPPET_WORDS = 24;
+const MAX_RESULTS = 50;
+const TITLE_BOOST = 3;
+// BM25 tuning
+const K1 = 1.2;
+const B = 0.75;
+
+/** One document's postings: each term with the token indices it occurs at. */
+export interface DocumentIndex {
+  id: string;
+  version: number;
+  signature: string; // Changes when the content does, so a missed update is caught on load
+  length: number;
+  terms: Record<string, number[]>;
+}
+
+export interface SearchResult {
+  item: LibraryItem;
+  score: number;
+  titleMatch: boolean;
+  position: number; // Token index of the snippet's first hit, 0 for title-only matches
+  snippet: { text: string; hit: boolean }[];
+}
+
+/** Search form of a unit: the lookup form with accents folded, so "cafe" finds "café". */
+export const searchTerm = (text: string): string => {
+  const form = lookupForm(text) || splitAffixes(text).core.toLocaleLowerCase();
+  return form.normalize('NFD').replace(/\p{M}/gu, '');
+};
+
+/** Terms in free text (a query or a title), in order. */
+export const searchTerms = (text: string): string[] =>
+  tokenize(text)
+    .filter(t => t.type === 'word' || t.type === 'number' || t.type === 'url')
+    .map(t => searchTerm(t.text))
+    .filter(Boolean);
+
+const signatureOf = (item: LibraryItem) => `${item.document.version}:${item.document.wordCount}:${item.content.length}`;
+
+export const indexDocument = (item: LibraryItem): DocumentIndex => {
+  const terms: Record<string, number[]> = {};
+  const tokens = documentTokens(item.document);
+  tokens.forEach(token => {
+    const term = searchTerm(token.text);
+    if (!term) return;
+    (terms[term] ||= []).push(token.index);
+  });
+  return { id: item.id, version: SEARCH_INDEX_VERSION, signature: signatureOf(item), length: tokens.length, terms };
+};
+
+export const isIndexCurrent = (entry: DocumentIndex | undefined, item: LibraryItem): boolean =>
+  !!entry && entry.version === SEARCH_INDEX_VERSION && entry.signature === signatureOf(item);
+
+/**
+ * Whether `term` matches query term `q`. The last query term also matches as a prefix,
+ * so results show up while the word is still being typed.
+ */
+const termMatcher = (query: string[]) => (term: string, q: number) =>
+  term === query[q] || (q === query.length - 1 && query[q].length >= 3 && term.startsWith(query[q]));
+
+// Picks the window of the document with the most distinct query hits
+const buildSnippet = (tokens: DocumentToken[], hits: Map<number, number>) => {
+  const positions = Array.from(hits.keys()).sort((a, b) => a - b);
+  let best = positions[0];
+  let bestCount = 0;
+  positions.forEach((start, i) => {
+    const seen = new Set<number>();
+    for (let j = i; j < positions.length && positions[j] < start + SNIPPET_WORDS; j++) seen.add(hits.get(positions[j])!);
+    if (seen.size > bestCount) {
+      best = start;
+      bestCount = seen.size;
+    }
+  });
+  const from = Math.max(0, best - Math.floor(SNIPPET_WORDS / 3));
+  const to = Math.min(tokens.length, from + SNIPPET_WORDS);
+  const parts = tokens.slice(from, to).map(t => ({ text: t.text, hit: hits.has(t.index) }));
+  if (from > 0) parts.unshift({ text: '…', hit: false });
+  if (to < tokens.length) parts.push({ text: '…', hit: false });
+  return { position: best, snippet: parts };
+};
+
+/**
+ * Ranks library items against a query with BM25 over the content, plus a boost for
+ * terms in the title. Every query term has to appear in the title or the content.
+ */
+export const searchLibrary = (query: string, library: LibraryItem[], index: Map<string, DocumentIndex>): SearchResult[] => {
+  const queryTerms = Array.from(new Set(searchTerms(query)));
+  if (queryTerms.length === 0) return [];
+
+  const entries = library.map(item => index.get(item.id)).filter((e): e is DocumentIndex => !!e);
+  const avgLength = entries.reduce((acc, e) => acc + e.length, 0) / Math.max(1, entries.length);
+  const matches = termMatcher(queryTerms);
+  const vocabulary = Array.from(new Set(entries.flatMap(e => Object.keys(e.terms))));
+  // The index terms each query term matches
+  const expanded = queryTerms.map((_, q) => vocabulary.filter(t => matches(t, q)));
+
+  const idf = (terms: string[]) => {
+    const df = entries.filter(e => terms.some(t => e.terms[t])).length;
+    return Math.log(1 + (entries.length - df + 0.5) / (df + 0.5));
+  };
+  const weights = expanded.map(idf);
+
+  const results: SearchResult[] = [];
+  library.forEach(item => {
+    const entry = index.get(item.id);
+    const titleTerms = searchTerms(item.title);
+    let score = 0;
+    let titleMatch = false;
+    const hits = new Map<number, number>(); // Token index -> which query term it matched
+
+    for (let q = 0; q < queryTerms.length; q++) {
+      const inTitle = titleTerms.some(t => matches(t, q));
+      const postings = entry ? expanded[q].flatMap(t => entry.terms[t] || []) : [];
+      if (!inTitle && postings.length === 0) return;
+      if (inTitle) {
+        titleMatch = true;
+        score += TITLE_BOOST * Math.max(weights[q], 1);
+      }
+      if (postings.length > 0 && entry) {
+        const tf = postings.length;
+        score += weights[q] * tf * (K1 + 1) / (tf + K1 * (1 - B + B * entry.length / avgLength));
+        postings.forEach(p => hits.set(p, q));
+      }
+    }
+
+    const { position, snippet } = hits.size > 0
+      ? buildSnippet(documentTokens(item.document), hits)
+      : { position: 0, snippet: [] };
+    results.push({ item, score, titleMatch, position, snippet });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS);
+};
+
+/** Search form of every token, for `findInDocument`. Worth memoising per document. */
+export const tokenTerms = (tokens: DocumentToken[]): string[] => tokens.map(t => searchTerm(t.text));
+
+/**
+ * Where the query occurs in the document, as token ranges in reading order.
+ * Multi-word queries match as a phrase; the last word may be a prefix.
+ */
+export const findInDocument = (terms: string[], query: string): { start: number; length: number }[] => {
+  const queryTerms = searchTerms(query);
+  if (queryTerms.length === 0) return [];
+  const last = queryTerms.length - 1;
+  const hits: { start: number; length: number }[] = [];
+  for (let i = 0; i + last < terms.length; i++) {
+    let match = true;
+    for (let j = 0; j <= last && match; j++) {
+      match = j === last ? terms[i + j].startsWith(queryTerms[j]) : terms[i + j] === queryTerms[j];
+    }
+    if (match) hits.push({ start: i, length: queryTerms.length });
+  }
+  return hits;
+};
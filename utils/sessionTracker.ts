@@ -0,0 +1,80 @@
+import { ReadingMode, ReadingSession, SpeedSample } from '../types';
+
+/**
+ * Follows one reading session from the first play to the point it closes.
+ * Only time spent playing counts as active, and only words reached by playback count
+ * as read; jumping ahead skips words and jumping back is a rewind.
+ * Time is passed in so the reader decides what "now" is.
+ */
+export class SessionTracker {
+  private openedAt: number;
+  private playingSince: number | null = null;
+  private activeMs = 0;
+  private wordsRead = 0;
+  private rewinds = 0;
+  private position: number;
+  private speedProfile: SpeedSample[] = [];
+
+  constructor(
+    private readonly startPosition: number,
+    private readonly mode: ReadingMode,
+    now: number
+  ) {
+    this.openedAt = now;
+    this.position = startPosition;
+  }
+
+  get words() {
+    return this.wordsRead;
+  }
+
+  get isPlaying() {
+    return this.playingSince !== null;
+  }
+
+  play(now: number) {
+    if (this.playingSince === null) this.playingSince = now;
+  }
+
+  pause(now: number) {
+    if (this.playingSince === null) return;
+    this.activeMs += now - this.playingSince;
+    this.playingSince = null;
+  }
+
+  /** Playback advanced by `count` words at `wpm`. */
+  read(position: number, count: number, wpm: number) {
+    const last = this.speedProfile[this.speedProfile.length - 1];
+    if (!last || last.wpm !== wpm) this.speedProfile.push({ word: this.wordsRead, wpm });
+    this.wordsRead += count;
+    this.position = position;
+  }
+
+  /** The user moved the position by hand: rewind, skip, chapter jump or the scrubber. */
+  seek(position: number) {
+    if (position < this.position) this.rewinds++;
+    this.position = position;
+  }
+
+  /**
+   * Closes the session. Returns null when nothing was read, so opening the reader
+   * and leaving again doesn't log an empty session.
+   */
+  close(now: number, includeSpeedProfile: boolean): ReadingSession | null {
+    this.pause(now);
+    if (this.wordsRead === 0) return null;
+    const activeTime = this.activeMs / 1000;
+    return {
+      date: this.openedAt,
+      wpm: activeTime > 0 ? Math.round(this.wordsRead / activeTime * 60) : 0,
+      duration: (now - this.openedAt) / 1000,
+      activeTime,
+      wordsRead: this.wordsRead,
+      startPosition: this.startPosition,
+      endPosition: this.position,
+      rewinds: this.rewinds,
+      mode: this.mode,
+      ...(includeSpeedProfile ? { speedProfile: this.speedProfile } : {})
+    };
+  }
+}
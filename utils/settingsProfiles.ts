@@ -0,0 +1,87 @@
+import { ReadingSettings, SettingsProfile } from '../types';
+
+export const DEFAULT_SETTINGS: ReadingSettings = {
+  fontSize: 48,
+  lineHeight: 1.8,
+  wordSpacing: 2,
+  boldRatio: 0.5,
+  fontFamily: 'OpenDyslexic',
+  theme: 'dark',
+  mode: 'rsvp-single',
+  dictionaryMode: 'ai',
+  prefetchDefinitions: false,
+  wpm: 450,
+  chunkSize: 1,
+  showFocusGuide: true,
+  offerQuizzes: true,
+  pacing: {
+    sentenceEnd: 2.0,
+    clause: 1.5,
+    paragraph: 2.5,
+    heading: 3.0,
+    frequency: 1.5,
+    syllables: 1.1,
+    numbers: 1.5,
+    properNouns: 1.2,
+    novelty: 1.3
+  },
+  ramp: {
+    enabled: false,
+    startWpm: 300,
+    targetWpm: 600,
+    curve: 'linear',
+    rampWords: 1000,
+    intervalWords: 100
+  },
+  narration: {
+    enabled: false,
+    voiceId: '',
+    rate: 1,
+    pitch: 1
+  }
+};
+
+/**
+ * Training drills shipped with the app. They only override the fields they care about,
+ * so typography and theme carry over from whatever the user had before.
+ */
+export const BUILT_IN_PROFILES: SettingsProfile[] = [
+  { id: 'drill-subvocalization', name: 'Subvocalization Killer', builtIn: true, settings: { wpm: 900, mode: 'rsvp-single' } },
+  { id: 'drill-peripheral', name: 'Peripheral Expansion', builtIn: true, settings: { wpm: 500, mode: 'rsvp-chunk', chunkSize: 3 } },
+  { id: 'drill-anti-regression', name: 'Anti-Regression Pacer', builtIn: true, settings: { wpm: 350, mode: 'classic' } },
+  {
+    id: 'drill-sprint-ramp', name: 'Sprint Intervals', builtIn: true,
+    settings: { mode: 'rsvp-single', ramp: { enabled: true, startWpm: 350, targetWpm: 800, curve: 'sprint', rampWords: 2000, intervalWords: 150 } }
+  },
+];
+
+export const applyProfile = (settings: ReadingSettings, profile: SettingsProfile): ReadingSettings => ({
+  ...settings,
+  ...profile.settings,
+  pacing: { ...settings.pacing, ...profile.settings.pacing },
+  // Drills without a ramp run at their fixed speed
+  ramp: { ...settings.ramp, enabled: false, ...profile.settings.ramp },
+  narration: { ...settings.narration, ...profile.settings.narration }
+});
+
+/**
+ * Fills gaps in persisted settings with defaults, so settings saved by an older build
+ * still load after new fields are added.
+ */
+export const normalizeSettings = (saved: Partial<ReadingSettings> | undefined): ReadingSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...saved,
+  pacing: { ...DEFAULT_SETTINGS.pacing, ...saved?.pacing },
+  ramp: { ...DEFAULT_SETTINGS.ramp, ...saved?.ramp },
+  narration: { ...DEFAULT_SETTINGS.narration, ...saved?.narration }
+});
+
+export const describeProfile = (profile: SettingsProfile): string => {
+  const { wpm, fontFamily, mode, chunkSize, ramp } = profile.settings;
+  return [
+    ramp?.enabled ? `${ramp.startWpm}→${ramp.targetWpm} WPM ${ramp.curve}` : wpm && `${wpm} WPM`,
+    mode && mode.split('-').pop(),
+    mode === 'rsvp-chunk' && chunkSize && `chunk ${chunkSize}`,
+    fontFamily
+  ].filter(Boolean).join(' · ');
+};
@@ -0,0 +1,25 @@
+import { SpeedRamp } from '../types';
+
+/** Speed after `wordsRead` words of a ramped session, rounded to whole WPM. */
+export const rampWpm = (ramp: SpeedRamp, wordsRead: number): number => {
+  const { startWpm, targetWpm, curve } = ramp;
+  const rampWords = Math.max(1, ramp.rampWords);
+  const interval = Math.max(1, ramp.intervalWords);
+  const progress = Math.min(1, Math.max(0, wordsRead) / rampWords);
+  const lerp = (t: number) => Math.round(startWpm + (targetWpm - startWpm) * t);
+
+  switch (curve) {
+    case 'stepped': {
+      const steps = Math.max(1, Math.ceil(rampWords / interval));
+      const step = Math.min(steps, Math.floor(wordsRead / interval));
+      return lerp(step / steps);
+    }
+    case 'sprint': {
+      // Recover first, then sprint
+      if (Math.floor(wordsRead / interval) % 2 === 1) return targetWpm;
+      return lerp(progress);
+    }
+    default:
+      return lerp(progress);
+  }
+};
@@ -0,0 +1,178 @@
+import { StructuredDocument, DocumentSentence, DocumentSummary, SectionSummary } from '../types';
+import { aiService } from '../services/aiService';
+import { documentParagraphs, documentTokens } from './documentModel';
+import { chunkDocument, runChunks, ChunkRunOptions, TextChunk, TransformCancelledError, MAX_CHUNK_CHARS } from './documentChunks';
+import { lookupForm } from './tokenizer';
+import { frequencyRank } from './wordFrequency';
+
+const OVERVIEW_SENTENCES = 3;
+const MAX_LINE_CHARS = 220;
+// Words this common say nothing about what a passage is about
+const COMMON_RANK = 150;
+// Fragments and run-ons make poor summary lines; used when a part has anything else
+const MIN_SENTENCE_TOKENS = 6;
+const MAX_SENTENCE_TOKENS = 60;
+// Overview sentences sharing more of their terms than this repeat each other
+const OVERLAP_LIMIT = 0.5;
+
+/** A stretch of text that gets its own summary line: a section, or a chunk of an unsectioned document. */
+interface SummaryPart {
+  title: string;
+  offset: number;
+  sentences: ScoredSentence[];
+}
+
+interface ScoredSentence {
+  sentence: DocumentSentence;
+  terms: string[];
+}
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.substring(0, max - 1).trimEnd()}…` : text;
+
+const sentenceText = (content: string, s: DocumentSentence) => content.substring(s.start, s.end).replace(/\s+/g, ' ');
+
+const sentenceTerms = (s: DocumentSentence) => s.tokens
+  .filter(t => t.kind === 'word')
+  .map(t => lookupForm(t.text))
+  .filter(form => form.length > 2 && (frequencyRank(form) ?? Infinity) > COMMON_RANK);
+
+const summaryParts = (content: string, doc: StructuredDocument): SummaryPart[] => {
+  const score = (sentences: DocumentSentence[]) => sentences.map(sentence => ({ sentence, terms: sentenceTerms(sentence) }));
+
+  if (doc.sections.some(s => s.title)) {
+    return doc.sections
+      .map(section => ({
+        title: section.title || 'Introduction',
+        offset: section.start,
+        sentences: score(section.paragraphs.filter(p => p.kind === 'paragraph').flatMap(p => p.sentences))
+      }))
+      .filter(part => part.sentences.length > 0);
+  }
+
+  const tokens = documentTokens(doc);
+  const sentences = documentParagraphs(doc).filter(p => p.kind === 'paragraph').flatMap(p => p.sentences);
+  return chunkDocument(content, doc)
+    .map((chunk, i) => ({
+      title: `Part ${i + 1}`,
+      offset: tokens[chunk.startWord].start,
+      sentences: score(sentences.filter(s => s.tokens[0].index >= chunk.startWord && s.tokens[0].index < chunk.startWord + chunk.wordCount))
+    }))
+    .filter(part => part.sentences.length > 0);
+};
+
+/** Inverse document frequency of each term, treating every sentence as a document. */
+const inverseFrequencies = (sentences: ScoredSentence[]) => {
+  const df = new Map<string, number>();
+  sentences.forEach(s => new Set(s.terms).forEach(term => df.set(term, (df.get(term) || 0) + 1)));
+  const idf = new Map<string, number>();
+  df.forEach((count, term) => idf.set(term, Math.log(sentences.length / count)));
+  return idf;
+};
+
+/**
+ * Ranks sentences by TF-IDF: how much of what the scope keeps returning to, and the rest
+ * of the document doesn't, each sentence contains. Best first.
+ */
+const rankSentences = (scope: ScoredSentence[], idf: Map<string, number>): ScoredSentence[] => {
+  const tf = new Map<string, number>();
+  scope.forEach(s => s.terms.forEach(term => tf.set(term, (tf.get(term) || 0) + 1)));
+  const sized = scope.filter(s => s.sentence.tokens.length >= MIN_SENTENCE_TOKENS && s.sentence.tokens.length <= MAX_SENTENCE_TOKENS);
+  return (sized.length > 0 ? sized : scope)
+    .map(s => {
+      const distinct = new Set(s.terms);
+      let score = 0;
+      distinct.forEach(term => { score += (1 + Math.log(tf.get(term)!)) * idf.get(term)!; });
+      return { s, score: score / Math.sqrt(Math.max(1, distinct.size)) };
+    })
+    .sort((a, b) => b.score - a.score || a.s.sentence.start - b.s.sentence.start)
+    .map(({ s }) => s);
+};
+
+const overlap = (a: string[], b: string[]) => {
+  const set = new Set(a);
+  const shared = new Set(b.filter(term => set.has(term))).size;
+  return shared / Math.max(1, Math.min(set.size, new Set(b).size));
+};
+
+/**
+ * Builds a summary from the text alone: the document's most characteristic sentences
+ * as the overview, and each part's as its line.
+ */
+export const buildOfflineSummary = (content: string, doc: StructuredDocument): DocumentSummary => {
+  const parts = summaryParts(content, doc);
+  const all = parts.flatMap(p => p.sentences);
+  const idf = inverseFrequencies(all);
+
+  const picked: ScoredSentence[] = [];
+  for (const candidate of rankSentences(all, idf)) {
+    if (picked.length >= OVERVIEW_SENTENCES) break;
+    if (picked.every(p => overlap(p.terms, candidate.terms) <= OVERLAP_LIMIT)) picked.push(candidate);
+  }
+
+  return {
+    overview: picked
+      .sort((a, b) => a.sentence.start - b.sentence.start)
+      .map(s => sentenceText(content, s.sentence))
+      .join(' '),
+    sections: parts.map(part => ({
+      title: part.title,
+      offset: part.offset,
+      summary: truncate(sentenceText(content, rankSentences(part.sentences, idf)[0].sentence), MAX_LINE_CHARS)
+    })),
+    source: 'offline',
+    date: Date.now()
+  };
+};
+
+/** A part's text for the model: all of it when it fits, otherwise its best sentences in reading order. */
+const partText = (content: string, part: SummaryPart, idf: Map<string, number>) => {
+  const full = part.sentences.map(s => sentenceText(content, s.sentence)).join(' ');
+  if (full.length <= MAX_CHUNK_CHARS) return full;
+  const kept: DocumentSentence[] = [];
+  let length = 0;
+  for (const { sentence } of rankSentences(part.sentences, idf)) {
+    const text = sentenceText(content, sentence);
+    if (length + text.length + 1 > MAX_CHUNK_CHARS) continue;
+    kept.push(sentence);
+    length += text.length + 1;
+  }
+  return kept.sort((a, b) => a.start - b.start).map(s => sentenceText(content, s)).join(' ');
+};
+
+/**
+ * Summarises a document: a line per part from the model, then an overview written from
+ * those lines. Falls back to the offline summary when the model fails; rejects only with
+ * TransformCancelledError. Progress counts the parts plus the overview.
+ */
+export const createSummary = async (
+  content: string, doc: StructuredDocument, { onProgress, ...options }: ChunkRunOptions = {}
+): Promise<DocumentSummary> => {
+  const parts = summaryParts(content, doc);
+  if (parts.length > 0) {
+    const idf = inverseFrequencies(parts.flatMap(p => p.sentences));
+    const chunks: TextChunk[] = parts.map(part => ({
+      text: partText(content, part, idf),
+      startWord: part.sentences[0].sentence.tokens[0].index,
+      wordCount: part.sentences.reduce((sum, s) => sum + s.sentence.tokens.length, 0)
+    }));
+    try {
+      const lines = await runChunks(chunks, (text, i) => aiService.summarizeSection(parts[i].title, text, options.signal), {
+        ...options,
+        onProgress: (done, total) => onProgress?.(done, total + 1)
+      });
+      const sections: SectionSummary[] = parts.map((part, i) => ({
+        title: part.title,
+        offset: part.offset,
+        summary: truncate(lines[i].replace(/\s+/g, ' '), MAX_LINE_CHARS)
+      }));
+      const overview = await aiService.summarizeDocument(sections.map(s => `${s.title}: ${s.summary}`), options.signal);
+      if (options.signal?.aborted) throw new TransformCancelledError();
+      onProgress?.(parts.length + 1, parts.length + 1);
+      return { overview: overview.replace(/\s+/g, ' ').trim(), sections, source: 'ai', date: Date.now() };
+    } catch (e) {
+      if (e instanceof TransformCancelledError || options.signal?.aborted) throw new TransformCancelledError();
+      console.warn("AI summary failed, summarising offline:", e);
+    }
+  }
+  return buildOfflineSummary(content, doc);
+};
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { tokenize } from './tokenizer';
 
 /**
  * Transforms a string into a Bionic Reading format.
@@ -8,35 +9,25 @@ import React from 'react';
 export const processBionicText = (text: string, boldRatio: number = 0.5): React.ReactNode[] => {
   if (!text) return [];
 
-  // Split by whitespace but keep the whitespace in the array
-  const parts = text.split(/(\s+)/);
-
-  return parts.map((part, index) => {
-    // If it's whitespace or punctuation only, return it as is
-    if (/^\s+$/.test(part)) {
-      return <span key={index}>{part}</span>;
+  return tokenize(text).map((token, index) => {
+    // Only words get anchored; numbers, URLs, punctuation and spacing pass through
+    if (token.type !== 'word') {
+      return <span key={index}>{token.text}</span>;
     }
 
-    // Handle punctuation attached to words
-    const wordMatch = part.match(/^(\W*)(.*?)(\W*)$/);
-    if (!wordMatch) return <span key={index}>{part}</span>;
-
-    const [_, prefix, coreWord, suffix] = wordMatch;
-    
-    if (!coreWord) return <span key={index}>{part}</span>;
+    // Count user-perceived characters so accents and combining marks aren't split off
+    const chars = Array.from(token.text.normalize('NFC'));
 
     // Calculate how many characters to bold
     // Small logic: at least 1 char, at most word length
-    const boldLength = Math.max(1, Math.ceil(coreWord.length * boldRatio));
-    const boldPart = coreWord.substring(0, boldLength);
-    const lightPart = coreWord.substring(boldLength);
+    const boldLength = Math.max(1, Math.ceil(chars.length * boldRatio));
+    const boldPart = chars.slice(0, boldLength).join('');
+    const lightPart = chars.slice(boldLength).join('');
 
     return (
       <span key={index} className="inline-block">
-        {prefix}
         <strong className="font-bold opacity-100">{boldPart}</strong>
         <span className="opacity-60">{lightPart}</span>
-        {suffix}
       </span>
     );
   });
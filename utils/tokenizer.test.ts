@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { tokenize, readingUnits, countWords, splitAffixes, lookupForm, headwordForm, TokenType } from './tokenizer';
+
+// Tokens other than whitespace, as [type, text] pairs
+const tokens = (text: string) => tokenize(text).filter(t => t.type !== 'whitespace').map(t => [t.type, t.text]);
+const ofType = (text: string, type: TokenType) => tokenize(text).filter(t => t.type === type).map(t => t.text);
+
+describe('tokenize', () => {
+  it.each([
+    'Café naïve Zürich, façade — “quoted” (parens) [1]',
+    "l'homme d’affaires don't",
+    'Mail me@example.co.uk or see https://example.com/a?b=1.',
+    '東京タワーに行きました。สวัสดีครับ',
+    'One.\n\n  Two\r\n\r\nthree'
+  ])('gives back the input joined, with contiguous offsets: %s', text => {
+    const all = tokenize(text);
+    expect(all.map(t => t.text).join('')).toBe(text);
+    all.forEach((t, i) => {
+      expect(text.substring(t.start, t.end)).toBe(t.text);
+      if (i > 0) expect(t.start).toBe(all[i - 1].end);
+    });
+  });
+
+  describe('Latin words with accents', () => {
+    it.each([
+      ['café', ['café']],
+      ['naïve coöperate', ['naïve', 'coöperate']],
+      ['Zürich São Paulo Kraków', ['Zürich', 'São', 'Paulo', 'Kraków']],
+      ['straße œuvre', ['straße', 'œuvre']],
+      // "e" followed by a combining acute accent
+      ['cafe\u0301 ok', ['cafe\u0301', 'ok']]
+    ])('%s', (text, words) => {
+      expect(ofType(text, 'word')).toEqual(words);
+    });
+
+    it('normalises combining marks in the lookup form', () => {
+      expect(lookupForm('Cafe\u0301')).toBe('café');
+    });
+  });
+
+  describe('apostrophes and elisions', () => {
+    it.each([
+      ["don't", ["don't"]],
+      ['won’t', ['won’t']],
+      ["l'homme", ["l'homme"]],
+      ["qu'il s'appelle", ["qu'il", "s'appelle"]],
+      ["dell'anno", ["dell'anno"]],
+      ["John's", ["John's"]]
+    ])('%s', (text, words) => {
+      expect(ofType(text, 'word')).toEqual(words);
+    });
+
+    it('leaves quotes around a word as punctuation', () => {
+      expect(tokens("'quoted'")).toEqual([['punctuation', "'"], ['word', 'quoted'], ['punctuation', "'"]]);
+    });
+
+    it('drops a possessive from the lookup form only', () => {
+      expect(lookupForm("John's")).toBe('john');
+      expect(lookupForm("don't")).toBe("don't");
+    });
+  });
+
+  describe('hyphens and dashes', () => {
+    it.each([
+      ['well-known', ['word', 'well-known']],
+      ['state-of-the-art', ['word', 'state-of-the-art']],
+      // Non-breaking hyphen
+      ['non\u2011breaking', ['word', 'non\u2011breaking']]
+    ])('keeps %s together', (text, token) => {
+      expect(tokens(text)).toEqual([token]);
+    });
+
+    it('splits on dashes and dangling hyphens', () => {
+      expect(tokens('yes—no')).toEqual([['word', 'yes'], ['punctuation', '—'], ['word', 'no']]);
+      expect(tokens('pre- and post-war')).toEqual([['word', 'pre'], ['punctuation', '-'], ['word', 'and'], ['word', 'post-war']]);
+    });
+  });
+
+  describe('URLs and emails', () => {
+    it.each([
+      ['https://example.com/path?q=1&r=2', 'https://example.com/path?q=1&r=2'],
+      ['Visit www.example.org.', 'www.example.org'],
+      ['(http://example.com/a)', 'http://example.com/a'],
+      ['Write to jane.doe+news@mail.example.co.uk!', 'jane.doe+news@mail.example.co.uk']
+    ])('%s', (text, url) => {
+      expect(ofType(text, 'url')).toEqual([url]);
+    });
+
+    it('leaves sentence punctuation after a URL outside it', () => {
+      expect(tokens('see https://example.com, then')).toEqual([
+        ['word', 'see'], ['url', 'https://example.com'], ['punctuation', ','], ['word', 'then']
+      ]);
+    });
+  });
+
+  describe('numbers', () => {
+    // Thin and no-break spaces group digits as in French or Swiss German
+    it.each([
+      ['1,000.5', '1,000.5'],
+      ['1.000,5', '1.000,5'],
+      ['1\u202F000', '1\u202F000'],
+      ['10\u00A0000', '10\u00A0000'],
+      ["1'000'000", "1'000'000"],
+      ['-3.5%', '-3.5%'],
+      ['+7', '+7'],
+      ['2024', '2024']
+    ])('%s is one number', (text, number) => {
+      expect(tokens(text)).toEqual([['number', number]]);
+    });
+
+    it('splits numbers separated by a plain space', () => {
+      expect(ofType('10 000', 'number')).toEqual(['10', '000']);
+    });
+
+    it('leaves a trailing full stop out of the number', () => {
+      expect(tokens('It cost 4.50.')).toEqual([['word', 'It'], ['word', 'cost'], ['number', '4.50'], ['punctuation', '.']]);
+    });
+
+    it('reads numbers mixed with letters as words', () => {
+      expect(tokens('3rd COVID-19')).toEqual([['word', '3rd'], ['word', 'COVID-19']]);
+    });
+  });
+
+  it('keeps initialisms with their dots', () => {
+    expect(ofType('U.S. and e.g. here', 'word')).toEqual(['U.S.', 'and', 'e.g.', 'here']);
+  });
+
+  it('marks blank lines as paragraph breaks', () => {
+    expect(tokenize('One.\n\n  Two\nthree').map(t => t.type)).toEqual(['word', 'punctuation', 'paragraph', 'word', 'whitespace', 'word']);
+  });
+
+  describe('unspaced scripts', () => {
+    it('splits Japanese into words with Intl.Segmenter', () => {
+      const words = ofType('東京タワーに行きました。', 'word');
+      expect(words.length).toBeGreaterThan(1);
+      expect(words.join('')).toBe('東京タワーに行きました');
+      expect(ofType('東京タワーに行きました。', 'punctuation')).toEqual(['。']);
+    });
+
+    it('splits Chinese into words with Intl.Segmenter', () => {
+      const words = ofType('我喜欢读书', 'word');
+      expect(words.length).toBeGreaterThan(1);
+      expect(words.length).toBeLessThan(5);
+      expect(words.join('')).toBe('我喜欢读书');
+    });
+
+    it('splits Thai into words with Intl.Segmenter', () => {
+      expect(ofType('สวัสดีครับ ผมชื่อ', 'word')).toEqual(['สวัสดี', 'ครับ', 'ผม', 'ชื่อ']);
+    });
+
+    it('leaves Latin words next to CJK text alone', () => {
+      expect(ofType('Tokyo 東京', 'word')[0]).toBe('Tokyo');
+    });
+  });
+});
+
+describe('without Intl.Segmenter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  // The segmenter is looked up once per module, so the stub needs a fresh copy
+  const withoutSegmenter = async () => {
+    vi.resetModules();
+    vi.stubGlobal('Intl', {});
+    return import('./tokenizer');
+  };
+
+  it('falls back to one word per character', async () => {
+    const fallback = await withoutSegmenter();
+    const result = fallback.tokenize('東京に。');
+    expect(result.map(t => [t.type, t.text])).toEqual([['word', '東'], ['word', '京'], ['word', 'に'], ['punctuation', '。']]);
+    expect(result.map(t => t.start)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('still tokenizes spaced scripts normally', async () => {
+    const fallback = await withoutSegmenter();
+    expect(fallback.tokenize('café don’t').filter(t => t.type === 'word').map(t => t.text)).toEqual(['café', 'don’t']);
+  });
+});
+
+describe('readingUnits', () => {
+  it('glues punctuation to the word next to it', () => {
+    expect(readingUnits('"Hello," she said — (café).').map(u => [u.text, u.core])).toEqual([
+      ['"Hello,"', 'Hello'], ['she', 'she'], ['said —', 'said'], ['(café).', 'café']
+    ]);
+  });
+
+  it('shifts offsets by the given start', () => {
+    const [unit] = readingUnits('word', 10);
+    expect([unit.start, unit.end]).toEqual([10, 14]);
+  });
+
+  it('gives each Thai word its own unit', () => {
+    expect(readingUnits('สวัสดีครับ').map(u => u.core)).toEqual(['สวัสดี', 'ครับ']);
+  });
+});
+
+describe('helpers', () => {
+  it('counts words, numbers and URLs but not punctuation', () => {
+    expect(countWords('I paid 1,000.50 at www.example.com — twice!')).toBe(6);
+  });
+
+  it('splits a unit around its core', () => {
+    expect(splitAffixes('"(word),"')).toEqual({ prefix: '"(', core: 'word', suffix: '),"' });
+    expect(splitAffixes('—')).toEqual({ prefix: '', core: '—', suffix: '' });
+  });
+
+  it('builds headwords from every word of a phrase', () => {
+    expect(headwordForm('Took Off!')).toBe('took off');
+    expect(headwordForm('—')).toBe('');
+  });
+});
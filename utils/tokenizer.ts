@@ -0,0 +1,198 @@
+export type TokenType = 'word' | 'number' | 'url' | 'punctuation' | 'whitespace' | 'paragraph';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number; // Character offsets into the tokenized string
+  end: number;
+}
+
+/**
+ * What the reader steps through: one word, number or URL together with the punctuation
+ * glued to it ("(café," is one unit with core "café").
+ */
+export interface ReadingUnit {
+  text: string;
+  core: string;
+  kind: 'word' | 'number' | 'url';
+  start: number;
+  end: number;
+}
+
+const PARAGRAPH_RE = /\n[^\S\n]*\n\s*/y;
+const WHITESPACE_RE = /\s+/y;
+const URL_RE = /(?:https?:\/\/|www\.)[^\s<>"]*[^\s<>".,;:!?'")\]}]/yi;
+const EMAIL_RE = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/yu;
+// Dotted initialisms like "U.S." or "e.g." stay together, trailing dot included
+const INITIALISM_RE = /\p{L}(?:\.\p{L})+\.?/yu;
+// Numbers with group/decimal separators, signs and percentages: 1,000.50  -3.5%  10\u202F000
+const NUMBER_RE = /[+-]?\p{N}+(?:[.,'’\u00A0\u202F]\p{N}+)*%?/yu;
+// Letters with combining marks; apostrophes and hyphens only inside a word (don't, well-known)
+const WORD_RE = /[\p{L}\p{M}\p{N}]+(?:['’‐‑-][\p{L}\p{M}\p{N}]+)*/yu;
+const PUNCTUATION_RE = /[^\s\p{L}\p{M}\p{N}]/yu;
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const HAS_LETTER_RE = /\p{L}/u;
+
+let segmenter: Intl.Segmenter | null | undefined;
+const getSegmenter = () => {
+  if (segmenter === undefined) {
+    segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+      ? new Intl.Segmenter(undefined, { granularity: 'word' })
+      : null;
+  }
+  return segmenter;
+};
+
+/** Splits a run of unspaced-script text into words, falling back to one token per character. */
+const segmentRun = (run: string, offset: number): Token[] => {
+  const seg = getSegmenter();
+  if (!seg) {
+    return Array.from(run).reduce<Token[]>((tokens, char) => {
+      const start = tokens.length ? tokens[tokens.length - 1].end : offset;
+      tokens.push({ type: 'word', text: char, start, end: start + char.length });
+      return tokens;
+    }, []);
+  }
+  return Array.from(seg.segment(run)).map(s => ({
+    type: s.isWordLike ? 'word' : 'punctuation',
+    text: s.segment,
+    start: offset + s.index,
+    end: offset + s.index + s.segment.length
+  }));
+};
+
+const matchAt = (re: RegExp, text: string, pos: number): string | null => {
+  re.lastIndex = pos;
+  const m = re.exec(text);
+  return m ? m[0] : null;
+};
+
+/**
+ * Splits text into typed tokens. Every character belongs to exactly one token, so
+ * joining the token texts gives back the input.
+ */
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const push = (type: TokenType, value: string, start: number) => {
+    tokens.push({ type, text: value, start, end: start + value.length });
+  };
+
+  let pos = 0;
+  while (pos < text.length) {
+    let m: string | null;
+    if ((m = matchAt(PARAGRAPH_RE, text, pos))) {
+      push('paragraph', m, pos);
+    } else if ((m = matchAt(WHITESPACE_RE, text, pos))) {
+      push('whitespace', m, pos);
+    } else if ((m = matchAt(URL_RE, text, pos)) || (m = matchAt(EMAIL_RE, text, pos))) {
+      push('url', m, pos);
+    } else if ((m = matchAt(INITIALISM_RE, text, pos))) {
+      push('word', m, pos);
+    } else if ((m = matchAt(WORD_RE, text, pos))) {
+      const number = matchAt(NUMBER_RE, text, pos);
+      if (!HAS_LETTER_RE.test(m) && number && number.length >= m.length) {
+        m = number;
+        push('number', m, pos);
+      } else if (UNSPACED_SCRIPT_RE.test(m)) {
+        tokens.push(...segmentRun(m, pos));
+      } else {
+        push('word', m, pos);
+      }
+    } else if ((m = matchAt(NUMBER_RE, text, pos))) {
+      // Signed numbers: "-3" starts with punctuation, so WORD_RE doesn't see it
+      push('number', m, pos);
+    } else {
+      m = matchAt(PUNCTUATION_RE, text, pos) || text[pos];
+      push('punctuation', m, pos);
+    }
+    pos += m.length;
+  }
+  return tokens;
+};
+
+const isWordLike = (t: Token) => t.type === 'word' || t.type === 'number' || t.type === 'url';
+
+/**
+ * Groups tokens into reading units. Within a whitespace-separated chunk, leading
+ * punctuation goes to the first word and anything after a word stays with it until
+ * the next word. A chunk of bare punctuation (" — ") joins the previous unit, so every
+ * unit has a real word at its core.
+ */
+export const readingUnits = (text: string, offset = 0): ReadingUnit[] => {
+  const units: ReadingUnit[] = [];
+  let orphanStart: number | null = null;
+
+  const flushChunk = (chunk: Token[]) => {
+    if (chunk.length === 0) return;
+    const chunkStart = chunk[0].start;
+    const chunkEnd = chunk[chunk.length - 1].end;
+    const cores = chunk.filter(isWordLike);
+
+    if (cores.length === 0) {
+      const prev = units[units.length - 1];
+      if (prev) prev.end = chunkEnd;
+      else if (orphanStart === null) orphanStart = chunkStart;
+      return;
+    }
+
+    cores.forEach((core, i) => {
+      units.push({
+        text: '',
+        core: core.text,
+        kind: core.type as ReadingUnit['kind'],
+        start: i === 0 ? (orphanStart ?? chunkStart) : core.start,
+        end: i + 1 < cores.length ? cores[i + 1].start : chunkEnd
+      });
+    });
+    orphanStart = null;
+  };
+
+  let chunk: Token[] = [];
+  tokenize(text).forEach(token => {
+    if (token.type === 'whitespace' || token.type === 'paragraph') {
+      flushChunk(chunk);
+      chunk = [];
+    } else {
+      chunk.push(token);
+    }
+  });
+  flushChunk(chunk);
+
+  return units.map(u => ({
+    ...u,
+    text: text.substring(u.start, u.end).replace(/\s+/g, ' '),
+    start: u.start + offset,
+    end: u.end + offset
+  }));
+};
+
+/** Number of words, numbers and URLs, matching the units the reader steps through. */
+export const countWords = (text: string): number =>
+  tokenize(text).filter(isWordLike).length;
+
+/** Splits a unit's display text around its core word, e.g. for ORP alignment. */
+export const splitAffixes = (text: string): { prefix: string; core: string; suffix: string } => {
+  const core = tokenize(text).find(isWordLike);
+  if (!core) return { prefix: '', core: text, suffix: '' };
+  return {
+    prefix: text.substring(0, core.start),
+    core: core.text,
+    suffix: text.substring(core.end)
+  };
+};
+
+/**
+ * The dictionary form of a unit: its core word, lowercased and NFC-normalised,
+ * with possessive 's dropped. Returns '' when there is no word to look up.
+ */
+export const lookupForm = (text: string): string => {
+  const core = tokenize(text).find(t => t.type === 'word');
+  if (!core) return '';
+  return core.text.normalize('NFC').replace(/['’]s$/i, '').toLocaleLowerCase();
+};
+
+/** The dictionary form of every word in a word or phrase, e.g. "Took off" → "took off". */
+export const headwordForm = (text: string): string =>
+  tokenize(text).filter(t => t.type === 'word').map(t => lookupForm(t.text)).join(' ');
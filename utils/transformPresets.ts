@@ -0,0 +1,139 @@
+import { TransformPresetId, TransformOptions } from '../types';
+
+export const DEFAULT_TRANSFORM_OPTIONS: TransformOptions = { gradeLevel: 6, customPrompt: '' };
+
+/**
+ * An AI transformation the reader can run on a document. Documents go to the model in
+ * chunks, so `prompt` sees one chunk at a time. Presets whose output must read as one
+ * piece (a summary) also `combine` the per-chunk results in a final request.
+ */
+export interface TransformPreset {
+  id: TransformPresetId;
+  label: string;
+  description: string;
+  temperature: number;
+  prompt: (text: string, options: TransformOptions) => string;
+  combine?: (parts: string, options: TransformOptions) => string;
+}
+
+// Every chunk's output is stitched back into one document, so its structure has to survive
+const FORMAT_RULES = `Keep Markdown headings (lines starting with #) as they are, and separate paragraphs with a blank line.
+Reply with the transformed text only, without any introduction or commentary.`;
+
+const withText = (instructions: string, text: string) => `${instructions}
+
+${FORMAT_RULES}
+
+Text:
+
+${text}`;
+
+export const TRANSFORM_PRESETS: TransformPreset[] = [
+  {
+    id: 'rsvp',
+    label: 'Speed Reading',
+    description: 'Tighter, punchier sentences for RSVP and Bionic Reading',
+    temperature: 0.3,
+    prompt: text => withText(`Rewrite the following text to optimize it for "Bionic Reading" and RSVP (Rapid Serial Visual Presentation).
+
+Goals:
+1. Summarize slightly to remove fluff, but keep all key information.
+2. Break long, complex sentences into shorter, punchy sentences.
+3. Use active voice.
+4. Maintain the original tone/sophistication, just make the flow better.`, text)
+  },
+  {
+    id: 'grade-level',
+    label: 'Reading Level',
+    description: 'Simplify to a chosen school grade',
+    temperature: 0.3,
+    prompt: (text, { gradeLevel }) => withText(`Rewrite the following text so a student at US grade level ${gradeLevel} can read it comfortably.
+
+Goals:
+1. Use words a grade ${gradeLevel} reader knows; explain any harder term the text can't do without.
+2. Keep sentences short and direct.
+3. Keep every key fact and the order of ideas; don't add new information.`, text)
+  },
+  {
+    id: 'plain-language',
+    label: 'Plain Language',
+    description: 'Short, concrete sentences that are easier for dyslexic readers',
+    temperature: 0.2,
+    prompt: text => withText(`Rewrite the following text in plain language for readers with dyslexia.
+
+Goals:
+1. One idea per sentence, and sentences under 15 words where possible.
+2. Common, concrete words; no idioms, metaphors or figures of speech.
+3. Active voice, and no parentheses or long lists inside sentences.
+4. Keep all of the information.`, text)
+  },
+  {
+    id: 'executive-summary',
+    label: 'Executive Summary',
+    description: 'The key points, decisions and numbers on one page',
+    temperature: 0.3,
+    prompt: text => `Summarize this part of a longer document in a few short paragraphs. Keep the key points, decisions, numbers and conclusions; leave out examples and repetition.
+Reply with the summary only.
+
+Text:
+
+${text}`,
+    combine: parts => `Write an executive summary of a document from the summaries of its parts below.
+Start with a one-paragraph overview, then give the most important points as short paragraphs, and end with the conclusions or next steps. Stay under 400 words.
+Separate paragraphs with a blank line and reply with the summary only.
+
+Summaries:
+
+${parts}`
+  },
+  {
+    id: 'bullet-outline',
+    label: 'Bullet Outline',
+    description: 'A hierarchical outline of the main points',
+    temperature: 0.2,
+    prompt: text => withText(`Turn the following text into an outline of its main points.
+
+Goals:
+1. Write each point as a Markdown bullet starting with "- ", with one blank line between bullets.
+2. Use short phrases rather than full sentences.
+3. Keep the order of the original and every important point.`, text)
+  },
+  {
+    id: 'expand-jargon',
+    label: 'Expand Jargon',
+    description: 'Spell out acronyms and explain technical terms inline',
+    temperature: 0.2,
+    prompt: text => withText(`Keep the following text as it is, word for word, except:
+1. Spell out every acronym and abbreviation the first time it appears, e.g. "ROI (return on investment)".
+2. After each technical term or piece of jargon, add a brief plain-language explanation in parentheses the first time it appears.`, text)
+  },
+  {
+    id: 'custom',
+    label: 'Custom',
+    description: 'Your own instructions',
+    temperature: 0.5,
+    prompt: (text, { customPrompt }) => withText(`Transform the following text as instructed.
+
+Instructions: ${customPrompt.trim()}`, text)
+  }
+];
+
+export const transformPreset = (id: TransformPresetId): TransformPreset =>
+  TRANSFORM_PRESETS.find(p => p.id === id) || TRANSFORM_PRESETS[0];
+
+/** Label for the version a preset produces, e.g. "Grade 6 Reading Level". */
+export const transformLabel = (preset: TransformPreset, options: TransformOptions): string => {
+  if (preset.id === 'grade-level') return `Grade ${options.gradeLevel} Reading Level`;
+  if (preset.id === 'custom') {
+    const prompt = options.customPrompt.trim();
+    return prompt.length > 40 ? `Custom: ${prompt.substring(0, 40)}…` : `Custom: ${prompt}`;
+  }
+  return preset.label;
+};
+
+/** Why a preset can't run with these options, or null when it can. */
+export const transformProblem = (preset: TransformPreset, options: TransformOptions): string | null => {
+  if (preset.id === 'custom' && !options.customPrompt.trim()) return 'Write the instructions for a custom transformation first.';
+  if (preset.id === 'grade-level' && !(options.gradeLevel >= 1 && options.gradeLevel <= 12)) return 'Choose a grade level from 1 to 12.';
+  return null;
+};
@@ -0,0 +1,134 @@
+import { StructuredDocument, DocumentParagraph } from '../types';
+import { documentParagraphs, paragraphTokens } from './documentModel';
+import { lookupForm } from './tokenizer';
+
+// Paragraphs sharing less of their vocabulary than this are treated as unrelated
+const MATCH_THRESHOLD = 0.3;
+// Rewrites keep paragraphs roughly in order, so alignment only searches this far off the diagonal
+const BAND = 40;
+
+export type DiffKind = 'same' | 'changed' | 'added' | 'removed';
+
+/** One line of a side-by-side diff: a paragraph on either side, or both when they correspond. */
+export interface DiffRow {
+  kind: DiffKind;
+  left?: number; // Paragraph index in the left version
+  right?: number;
+}
+
+export interface VersionDiff {
+  left: string[]; // Paragraph texts
+  right: string[];
+  rows: DiffRow[];
+}
+
+interface VersionText {
+  content: string;
+  document: StructuredDocument;
+}
+
+const vocabulary = (p: DocumentParagraph) => new Set(paragraphTokens(p).map(t => lookupForm(t.text)).filter(Boolean));
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Aligns two versions paragraph by paragraph: the order-preserving pairing with the
+ * most vocabulary in common, so a reworded paragraph still lines up with its source.
+ * A banded dynamic programme keeps it linear in document length.
+ */
+export const diffVersions = (left: VersionText, right: VersionText): VersionDiff => {
+  const leftParagraphs = documentParagraphs(left.document);
+  const rightParagraphs = documentParagraphs(right.document);
+  const leftText = leftParagraphs.map(p => left.content.substring(p.start, p.end));
+  const rightText = rightParagraphs.map(p => right.content.substring(p.start, p.end));
+  const leftWords = leftParagraphs.map(vocabulary);
+  const rightWords = rightParagraphs.map(vocabulary);
+  const n = leftParagraphs.length;
+  const m = rightParagraphs.length;
+
+  // Row i only stores columns near the diagonal from (0, 0) to (n, m). The band is
+  // widened by the slope so consecutive rows always overlap and (n, m) stays reachable.
+  const half = BAND + Math.ceil(m / Math.max(1, n));
+  const width = 2 * half + 1;
+  const firstColumn = (i: number) => Math.round(n === 0 ? 0 : i * m / n) - half;
+  const score = new Float64Array((n + 1) * width).fill(-Infinity);
+  // 1: pair i-1 with j-1, 2: left i-1 removed, 3: right j-1 added
+  const move = new Uint8Array((n + 1) * width);
+  const cell = (i: number, j: number) => {
+    const k = j - firstColumn(i);
+    return k >= 0 && k < width && j >= 0 && j <= m ? i * width + k : -1;
+  };
+  const scoreAt = (i: number, j: number) => {
+    const c = cell(i, j);
+    return c === -1 ? -Infinity : score[c];
+  };
+
+  for (let i = 0; i <= n; i++) {
+    for (let j = Math.max(0, firstColumn(i)); j <= Math.min(m, firstColumn(i) + width - 1); j++) {
+      const c = cell(i, j);
+      if (i === 0 && j === 0) { score[c] = 0; continue; }
+      let best = -Infinity;
+      let choice = 0;
+      if (i > 0 && scoreAt(i - 1, j) > best) { best = scoreAt(i - 1, j); choice = 2; }
+      if (j > 0 && scoreAt(i, j - 1) > best) { best = scoreAt(i, j - 1); choice = 3; }
+      if (i > 0 && j > 0) {
+        const sim = similarity(leftWords[i - 1], rightWords[j - 1]);
+        if (sim >= MATCH_THRESHOLD && scoreAt(i - 1, j - 1) + sim > best) { best = scoreAt(i - 1, j - 1) + sim; choice = 1; }
+      }
+      score[c] = best;
+      move[c] = choice;
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const choice = move[cell(i, j)];
+    if (choice === 1) {
+      i--; j--;
+      rows.push({ kind: leftText[i] === rightText[j] ? 'same' : 'changed', left: i, right: j });
+    } else if (choice === 2 || j === 0) {
+      i--;
+      rows.push({ kind: 'removed', left: i });
+    } else {
+      j--;
+      rows.push({ kind: 'added', right: j });
+    }
+  }
+  return { left: leftText, right: rightText, rows: rows.reverse() };
+};
+
+/**
+ * Carries a reading position from the left version to the right one: the same
+ * fraction through the matching paragraph, or the start of the next matched one
+ * when the paragraph was dropped.
+ */
+export const mapAlignedPosition = (
+  diff: VersionDiff, from: StructuredDocument, to: StructuredDocument, position: number
+): number => {
+  const fromParagraphs = documentParagraphs(from);
+  const toParagraphs = documentParagraphs(to);
+  const lastToken = Math.max(0, to.wordCount - 1);
+  const index = fromParagraphs.findIndex(p => {
+    const tokens = paragraphTokens(p);
+    return tokens[tokens.length - 1].index >= position;
+  });
+  if (index === -1) return lastToken;
+
+  const rowIndex = diff.rows.findIndex(r => r.left === index);
+  const row = diff.rows[rowIndex];
+  if (row?.right !== undefined) {
+    const source = paragraphTokens(fromParagraphs[index]);
+    const target = paragraphTokens(toParagraphs[row.right]);
+    const fraction = (position - source[0].index) / Math.max(1, source.length);
+    return target[Math.min(target.length - 1, Math.floor(fraction * target.length))].index;
+  }
+  const next = diff.rows.slice(rowIndex + 1).find(r => r.right !== undefined);
+  return next ? paragraphTokens(toParagraphs[next.right!])[0].index : lastToken;
+};
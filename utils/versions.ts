@@ -0,0 +1,85 @@
+import { LibraryItem, DocumentVersion, DocumentVersionKind, StructuredDocument, Highlight, Bookmark, TransformPresetId, DocumentSummary } from '../types';
+import { parseDocument, sectionMarkers, SectionMarker } from './documentModel';
+
+const versionId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+
+export const createVersion = (
+  kind: DocumentVersionKind, label: string, content: string, document: StructuredDocument, preset?: TransformPresetId
+): DocumentVersion => {
+  const sections = sectionMarkers(document);
+  return {
+    id: versionId(),
+    label,
+    kind,
+    ...(preset ? { preset } : {}),
+    content,
+    ...(sections.length > 0 ? { sections } : {}),
+    date: Date.now(),
+    wordCount: document.wordCount
+  };
+};
+
+export const originalVersion = (item: LibraryItem) => item.versions?.find(v => v.kind === 'original');
+
+export const activeVersion = (item: LibraryItem) => item.versions?.find(v => v.id === item.activeVersionId);
+
+/** The latest version that isn't the original. */
+export const latestRewrite = (item: LibraryItem) =>
+  item.versions?.filter(v => v.kind !== 'original').sort((a, b) => b.date - a.date)[0];
+
+/** The version new annotations anchor to; undefined for the original text, as on items without versions. */
+export const annotationVersionId = (item: LibraryItem): string | undefined => {
+  const active = activeVersion(item);
+  return active && active.kind !== 'original' ? active.id : undefined;
+};
+
+/** Annotations made on the version that's showing, since offsets only make sense in their own text. */
+export const versionAnnotations = <T extends Highlight | Bookmark>(item: LibraryItem, annotations: T[] | undefined): T[] => {
+  const id = annotationVersionId(item);
+  return (annotations || []).filter(a => a.versionId === id);
+};
+
+/** Replaces the active version's annotations, leaving the other versions' alone. */
+export const replaceVersionAnnotations = <T extends Highlight | Bookmark>(
+  item: LibraryItem, annotations: T[] | undefined, next: T[]
+): T[] => {
+  const id = annotationVersionId(item);
+  return [
+    ...(annotations || []).filter(a => a.versionId !== id),
+    ...next.map(a => id ? { ...a, versionId: id } : a)
+  ];
+};
+
+/** The summary of the version that's showing, if it has one. */
+export const versionSummary = (item: LibraryItem): DocumentSummary | undefined => {
+  const id = annotationVersionId(item);
+  return item.summaries?.find(s => s.versionId === id);
+};
+
+/** Sets the active version's summary, leaving the other versions' alone. */
+export const replaceVersionSummary = (item: LibraryItem, summary: DocumentSummary): DocumentSummary[] => {
+  const id = annotationVersionId(item);
+  return [
+    ...(item.summaries || []).filter(s => s.versionId !== id),
+    id ? { ...summary, versionId: id } : summary
+  ];
+};
+
+/** Parses a stored version back into a document, keeping importer-defined sections. */
+export const versionDocument = (version: DocumentVersion): StructuredDocument =>
+  parseDocument(version.content, version.sections as SectionMarker[] | undefined);
+
+/**
+ * Adds a new text as the active version. The first time, the current text is kept
+ * as the original, so nothing is ever overwritten.
+ */
+export const addVersion = (
+  item: LibraryItem, kind: DocumentVersionKind, label: string, content: string, document: StructuredDocument,
+  preset?: TransformPresetId
+): Pick<LibraryItem, 'versions' | 'activeVersionId'> => {
+  const existing = item.versions && item.versions.length > 0
+    ? item.versions
+    : [createVersion('original', 'Original', item.content, item.document)];
+  const version = createVersion(kind, label, content, document, preset);
+  return { versions: [...existing, version], activeVersionId: version.id };
+};
@@ -0,0 +1,165 @@
+import { VocabularyWord, VocabularySighting, LibraryItem } from '../types';
+import { headwordForm, lookupForm } from './tokenizer';
+import { documentTokens, locateToken } from './documentModel';
+import { annotationVersionId, originalVersion, versionDocument } from './versions';
+import { diffVersions, mapAlignedPosition } from './versionDiff';
+import { newCard, migrateCard } from './scheduler';
+
+// Examples kept per entry as lookups from other documents add theirs
+const MAX_EXAMPLES = 5;
+
+/** A definition to save, before it has an id or scheduling. */
+export interface WordEntry {
+  word: string;
+  definition: string;
+  examples: string[];
+}
+
+/** A card as stored before the shared vocabulary: no headword or sightings, maybe the sentence it came from. */
+export type LegacyWord = Partial<VocabularyWord> & Pick<VocabularyWord, 'word' | 'date'> & { context?: string };
+
+const sameSpot = (a: VocabularySighting, b: VocabularySighting) =>
+  a.itemId === b.itemId && a.wordIndex === b.wordIndex && a.versionId === b.versionId;
+
+const mergeSightings = (a: VocabularySighting[], b: VocabularySighting[]) =>
+  [...a, ...b.filter(s => !a.some(existing => sameSpot(existing, s)))].sort((x, y) => x.date - y.date);
+
+const mergeExamples = (a: string[], b: string[]) => {
+  const seen = new Set(a.map(e => e.trim().toLowerCase()));
+  return [...a, ...b.filter(e => !seen.has(e.trim().toLowerCase()))].slice(0, MAX_EXAMPLES);
+};
+
+/** Where a word was met in the text showing: its token, version and sentence. */
+export const createSighting = (item: LibraryItem, wordIndex: number, now: number): VocabularySighting => {
+  const sentence = locateToken(item.document, wordIndex)?.sentence;
+  const versionId = annotationVersionId(item);
+  return {
+    itemId: item.id,
+    title: item.title,
+    wordIndex,
+    ...(versionId ? { versionId } : {}),
+    sentence: sentence ? item.content.substring(sentence.start, sentence.end).replace(/\s+/g, ' ').trim() : '',
+    date: now
+  };
+};
+
+/**
+ * Saves a word. A headword already in the vocabulary keeps its card and gains the
+ * sighting, plus any examples it didn't have; a new one starts as a new card.
+ */
+export const recordWord = (
+  vocabulary: VocabularyWord[], entry: WordEntry, sighting: VocabularySighting | null, generateId: () => string, now: number
+): VocabularyWord => {
+  const headword = headwordForm(entry.word);
+  const sightings = sighting ? [sighting] : [];
+  const existing = vocabulary.find(v => v.headword === headword);
+  if (existing) {
+    return {
+      ...existing,
+      definition: existing.definition || entry.definition,
+      examples: mergeExamples(existing.examples, entry.examples),
+      sightings: mergeSightings(existing.sightings, sightings)
+    };
+  }
+  return {
+    id: generateId(),
+    word: entry.word,
+    headword,
+    definition: entry.definition,
+    examples: entry.examples.slice(0, MAX_EXAMPLES),
+    sightings,
+    date: now,
+    ...newCard(now),
+    reviewLog: []
+  };
+};
+
+/**
+ * Combines two entries for the same headword under the first one's id. The card with
+ * more reviews behind it keeps its scheduling; sightings and examples are pooled.
+ */
+export const mergeWords = (base: VocabularyWord, other: VocabularyWord): VocabularyWord => {
+  const progress = other.reviewLog.length > base.reviewLog.length ? other : base;
+  return {
+    ...base,
+    proficiency: progress.proficiency,
+    nextReview: progress.nextReview,
+    state: progress.state,
+    ease: progress.ease,
+    stability: progress.stability,
+    step: progress.step,
+    reps: progress.reps,
+    lapses: progress.lapses,
+    reviewLog: progress.reviewLog,
+    definition: base.definition || other.definition,
+    examples: mergeExamples(base.examples, other.examples),
+    sightings: mergeSightings(base.sightings, other.sightings),
+    date: Math.min(base.date, other.date)
+  };
+};
+
+/** One entry per headword, merging repeats into the first seen. */
+export const dedupeVocabulary = (words: VocabularyWord[]): VocabularyWord[] => {
+  const byHeadword = new Map<string, VocabularyWord>();
+  words.forEach(word => {
+    const existing = byHeadword.get(word.headword);
+    byHeadword.set(word.headword, existing ? mergeWords(existing, word) : word);
+  });
+  return Array.from(byHeadword.values());
+};
+
+/**
+ * Brings a stored or backed-up card up to the current shape: spaced-repetition state,
+ * a headword, and a sighting in the document it was filed under, if any.
+ */
+export const upgradeWord = (word: LegacyWord, itemId?: string, title = ''): VocabularyWord => {
+  const { context, ...card } = migrateCard(word) as VocabularyWord & { context?: string };
+  if (card.headword && card.sightings) return card;
+  return {
+    ...card,
+    headword: headwordForm(card.word) || card.word.trim().toLocaleLowerCase(),
+    sightings: itemId ? [{ itemId, title, sentence: context || '', date: card.date }] : []
+  };
+};
+
+/** Per-document cards from before the shared vocabulary, as one entry per headword. */
+export const liftVocabulary = (entries: { word: LegacyWord; itemId: string; title: string }[]): VocabularyWord[] =>
+  dedupeVocabulary(entries.map(({ word, itemId, title }) => upgradeWord(word, itemId, title)));
+
+/**
+ * Folds incoming words, from a backup, into the vocabulary. Returns the entries to write:
+ * headwords already saved merged with the incoming card, new ones as they are, given a
+ * fresh id if theirs is taken.
+ */
+export const mergeVocabulary = (
+  current: VocabularyWord[], incoming: VocabularyWord[], generateId: () => string
+): VocabularyWord[] => {
+  const byHeadword = new Map(current.map(v => [v.headword, v]));
+  const ids = new Set(current.map(v => v.id));
+  return dedupeVocabulary(incoming).map(word => {
+    const existing = byHeadword.get(word.headword);
+    if (existing) return mergeWords(existing, word);
+    return ids.has(word.id) ? { ...word, id: generateId() } : word;
+  });
+};
+
+/**
+ * The token to open a sighting at. Met in the version showing: its own index. Met in
+ * another version: that index carried across by the paragraph alignment. Saved without
+ * a position, or on a version since deleted: the headword's first occurrence.
+ */
+export const sightingPosition = (item: LibraryItem, sighting: VocabularySighting, headword: string): number | undefined => {
+  if (sighting.wordIndex !== undefined) {
+    if (sighting.versionId === annotationVersionId(item)) {
+      return Math.min(sighting.wordIndex, Math.max(0, item.document.wordCount - 1));
+    }
+    const source = sighting.versionId ? item.versions?.find(v => v.id === sighting.versionId) : originalVersion(item);
+    if (source) {
+      const document = versionDocument(source);
+      const alignment = diffVersions({ content: source.content, document }, item);
+      return mapAlignedPosition(alignment, document, item.document, sighting.wordIndex);
+    }
+  }
+  const first = headword.split(' ')[0];
+  return documentTokens(item.document).find(t => lookupForm(t.text) === first)?.index;
+};
@@ -0,0 +1,164 @@
+import { VocabularyWord, DictionaryMode } from '../types';
+import { dictionaryService } from '../services/dictionaryService';
+import { headwordForm } from './tokenizer';
+
+/** What a column of an imported word list holds. */
+export type ImportColumn = 'word' | 'definition' | 'examples' | 'ignore';
+
+export const IMPORT_COLUMNS: { value: ImportColumn; label: string }[] = [
+  { value: 'word', label: 'Word' },
+  { value: 'definition', label: 'Definition' },
+  { value: 'examples', label: 'Examples' },
+  { value: 'ignore', label: 'Ignore' },
+];
+
+export interface ImportedWord {
+  word: string;
+  definition: string;
+  examples: string[];
+}
+
+// Header names other apps use for each column, Anki's note fields among them
+const HEADER_NAMES: Record<Exclude<ImportColumn, 'ignore'>, string[]> = {
+  word: ['word', 'term', 'front', 'headword', 'vocabulary', 'expression', 'lemma'],
+  definition: ['definition', 'meaning', 'back', 'translation', 'gloss', 'answer'],
+  examples: ['example', 'examples', 'sentence', 'sentences', 'usage', 'context'],
+};
+
+// Definitions are full of commas, so a tab anywhere on the line wins
+const detectDelimiter = (line: string) => {
+  if (line.includes('\t')) return '\t';
+  return line.split(';').length > line.split(',').length ? ';' : ',';
+};
+
+/**
+ * Splits CSV or TSV text into rows of cells, quoted cells included. The delimiter is
+ * whichever of tab, semicolon or comma the first line uses. Anki's "#" header lines are
+ * skipped, except "#columns:", which becomes the first row; empty rows are dropped.
+ */
+export const parseWordList = (text: string): string[][] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let skip = 0;
+  let header: string | null = null;
+  while (skip < lines.length && lines[skip].startsWith('#')) {
+    if (lines[skip].startsWith('#columns:')) header = lines[skip].substring('#columns:'.length);
+    skip++;
+  }
+  const body = [...(header === null ? [] : [header]), ...lines.slice(skip)].join('\n');
+  const delimiter = detectDelimiter(lines[skip] || header || '');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quoted) {
+      if (char === '"' && body[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell]);
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+const columnFor = (header: string): ImportColumn | null => {
+  const name = header.trim().toLowerCase();
+  const match = (Object.keys(HEADER_NAMES) as (keyof typeof HEADER_NAMES)[]).find(column => HEADER_NAMES[column].includes(name));
+  return match ?? null;
+};
+
+/**
+ * A starting column mapping. A first row naming a word column is taken as a header;
+ * otherwise the columns are read as word, definition, examples in that order.
+ */
+export const guessColumns = (rows: string[][]): { columns: ImportColumn[]; hasHeader: boolean } => {
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const first = rows[0] || [];
+  const named = first.map(columnFor);
+  if (named.includes('word')) {
+    return { columns: Array.from({ length: width }, (_, i) => named[i] ?? 'ignore'), hasHeader: true };
+  }
+  const defaults: ImportColumn[] = ['word', 'definition', 'examples'];
+  return { columns: Array.from({ length: width }, (_, i) => defaults[i] ?? 'ignore'), hasHeader: false };
+};
+
+// Anki and spreadsheet exports carry HTML in their fields
+const cleanField = (text: string) => text
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/<[^>]+>/g, '')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, "'")
+  .replace(/&amp;/g, '&')
+  .trim();
+
+/** Reads the rows as words through the mapping. Rows without a word are dropped. */
+export const mapWordList = (rows: string[][], columns: ImportColumn[], hasHeader: boolean): ImportedWord[] =>
+  (hasHeader ? rows.slice(1) : rows)
+    .map(row => {
+      const cells = (column: ImportColumn) => row.filter((_, i) => columns[i] === column).map(cleanField).filter(Boolean);
+      return {
+        word: cells('word').join(' ').replace(/\s+/g, ' '),
+        definition: cells('definition').join('; '),
+        examples: cells('examples').flatMap(e => e.split(/\n|\s+\|\s+/)).map(e => e.trim()).filter(Boolean)
+      };
+    })
+    .filter(w => headwordForm(w.word));
+
+/**
+ * Drops words already saved, and repeats within the list, comparing dictionary forms so
+ * "Ephemeral" matches "ephemeral". A repeat that adds a definition the first lacked lends it.
+ */
+export const dedupeWords = (words: ImportedWord[], existing: VocabularyWord[]): { words: ImportedWord[]; duplicates: number } => {
+  const saved = new Set(existing.map(v => v.headword));
+  const fresh = new Map<string, ImportedWord>();
+  let duplicates = 0;
+  words.forEach(word => {
+    const key = headwordForm(word.word);
+    const first = fresh.get(key);
+    if (saved.has(key)) duplicates++;
+    else if (!first) fresh.set(key, word);
+    else {
+      duplicates++;
+      if (!first.definition && word.definition) fresh.set(key, { ...first, definition: word.definition, examples: first.examples.length ? first.examples : word.examples });
+    }
+  });
+  return { words: Array.from(fresh.values()), duplicates };
+};
+
+/**
+ * Fills in missing definitions from the dictionary chain, one word at a time like the
+ * reader's prefetch. Words no provider knows keep an empty definition; a cancelled run
+ * returns what it has so far.
+ */
+export const lookupMissingDefinitions = async (
+  words: ImportedWord[],
+  mode: DictionaryMode,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<ImportedWord[]> => {
+  const missing = words.filter(w => !w.definition);
+  const found = new Map<ImportedWord, ImportedWord>();
+  onProgress?.(0, missing.length);
+  for (let i = 0; i < missing.length && !signal?.aborted; i++) {
+    const word = missing[i];
+    const result = await dictionaryService.define(headwordForm(word.word), '', mode);
+    if (result) found.set(word, { ...word, definition: result.definition, examples: word.examples.length ? word.examples : result.examples });
+    onProgress?.(i + 1, missing.length);
+  }
+  return words.map(w => found.get(w) || w);
+};